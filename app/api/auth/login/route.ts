@@ -0,0 +1,74 @@
+/**
+ * Login API Route
+ *
+ * Signs in with email and password.
+ */
+
+import { NextResponse } from "next/server";
+
+import { createAuthConfig, takeAuthAttempt, userStore } from "@/lib/auth";
+import { createSessionToken, sessionCookie } from "@/lib/session";
+import { toPublicUser, verifyPassword } from "@/lib/users";
+
+const authConfig = createAuthConfig();
+
+/** Sign-in attempts allowed per minute from one IP address */
+const ATTEMPTS_PER_MINUTE_PER_IP = 20;
+
+/** Sign-in attempts allowed per minute for one email address */
+const ATTEMPTS_PER_MINUTE_PER_EMAIL = 5;
+
+type LoginRequest = {
+  email?: string;
+  password?: string;
+};
+
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/auth/login
+ * Sets the session cookie when the credentials match. Attempts are
+ * rate-limited per email and client IP to slow down password guessing.
+ */
+export async function POST(req: Request) {
+  if (!authConfig.methods.includes("credentials")) {
+    return NextResponse.json(
+      { error: "Password sign-in is disabled." },
+      { status: 403 },
+    );
+  }
+
+  let body: LoginRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload." }, { status: 400 });
+  }
+
+  if (typeof body.email === "string") {
+    const limited = takeAuthAttempt(req, authConfig, {
+      action: "login",
+      email: body.email,
+      perIp: ATTEMPTS_PER_MINUTE_PER_IP,
+      perEmail: ATTEMPTS_PER_MINUTE_PER_EMAIL,
+    });
+    if (limited) return limited;
+  }
+
+  const user =
+    typeof body.email === "string" ? await userStore.getUserByEmail(body.email) : null;
+  if (
+    !user ||
+    typeof body.password !== "string" ||
+    !(await verifyPassword(body.password, user.passwordHash))
+  ) {
+    return NextResponse.json(
+      { error: "Incorrect email or password." },
+      { status: 401 },
+    );
+  }
+
+  const response = NextResponse.json({ user: toPublicUser(user) });
+  response.cookies.set(sessionCookie(createSessionToken(user.id)));
+  return response;
+}
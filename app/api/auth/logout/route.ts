@@ -0,0 +1,20 @@
+/**
+ * Logout API Route
+ *
+ * Clears the session cookie.
+ */
+
+import { NextResponse } from "next/server";
+
+import { sessionCookie } from "@/lib/session";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/auth/logout
+ */
+export async function POST() {
+  const response = NextResponse.json({ ok: true });
+  response.cookies.set(sessionCookie(""));
+  return response;
+}
@@ -0,0 +1,88 @@
+/**
+ * Magic Link API Route
+ *
+ * Sends a single-use sign-in link to an email address.
+ */
+
+import { NextResponse } from "next/server";
+
+import {
+  createAuthConfig,
+  magicLinkOrigin,
+  sendMagicLink,
+  takeAuthAttempt,
+  userStore,
+} from "@/lib/auth";
+import { isValidEmail } from "@/lib/users";
+
+const authConfig = createAuthConfig();
+
+type MagicLinkRequest = {
+  email?: string;
+};
+
+/** Links that may be requested per minute from one IP address */
+const LINKS_PER_MINUTE_PER_IP = 10;
+
+/** Links that may be requested per minute for one email address */
+const LINKS_PER_MINUTE_PER_EMAIL = 3;
+
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/auth/magic-link
+ * Always answers `ok` for valid emails so it can't be used to probe which
+ * accounts exist. Development builds also return the link.
+ */
+export async function POST(req: Request) {
+  if (!authConfig.methods.includes("magic-link")) {
+    return NextResponse.json(
+      { error: "Magic link sign-in is disabled." },
+      { status: 403 },
+    );
+  }
+
+  let body: MagicLinkRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload." }, { status: 400 });
+  }
+
+  if (!isValidEmail(body.email)) {
+    return NextResponse.json({ error: "A valid email is required." }, { status: 400 });
+  }
+
+  const origin = magicLinkOrigin(req, authConfig);
+  if (!origin) {
+    return NextResponse.json(
+      { error: "Magic link sign-in needs APP_URL to be configured." },
+      { status: 503 },
+    );
+  }
+
+  const limited = takeAuthAttempt(req, authConfig, {
+    action: "magic-link",
+    email: body.email,
+    perIp: LINKS_PER_MINUTE_PER_IP,
+    perEmail: LINKS_PER_MINUTE_PER_EMAIL,
+  });
+  if (limited) return limited;
+
+  const exists = Boolean(await userStore.getUserByEmail(body.email));
+  if (!exists && !authConfig.allowSignup) {
+    return NextResponse.json({ ok: true });
+  }
+
+  try {
+    const url = await sendMagicLink(body.email, origin, authConfig);
+    return NextResponse.json({
+      ok: true,
+      devLink: process.env.NODE_ENV === "production" ? undefined : url,
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Could not send the sign-in link.";
+    return NextResponse.json({ error: message }, { status: 502 });
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Magic Link Verification Route
+ *
+ * Target of the emailed sign-in link: signs the user in (creating the account
+ * on first use) and sends them to the app.
+ */
+
+import { NextResponse } from "next/server";
+
+import {
+  consumeMagicLink,
+  createAccount,
+  createAuthConfig,
+  userStore,
+} from "@/lib/auth";
+import { createSessionToken, sessionCookie } from "@/lib/session";
+
+const authConfig = createAuthConfig();
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/auth/magic-link/verify?token=
+ * Redirects to / when the link is valid, otherwise back to /login
+ */
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const email = consumeMagicLink(url.searchParams.get("token") ?? "");
+  if (!email) {
+    return NextResponse.redirect(new URL("/login?error=expired-link", url));
+  }
+
+  let user = await userStore.getUserByEmail(email);
+  if (!user) {
+    if (!authConfig.allowSignup) {
+      return NextResponse.redirect(new URL("/login?error=signup-disabled", url));
+    }
+    ({ user } = await createAccount({ email }));
+  }
+
+  const response = NextResponse.redirect(new URL("/", url));
+  response.cookies.set(sessionCookie(createSessionToken(user.id)));
+  return response;
+}
@@ -0,0 +1,70 @@
+/**
+ * Registration API Route
+ *
+ * Creates an email and password account and signs it in.
+ */
+
+import { NextResponse } from "next/server";
+
+import { createAccount, createAuthConfig } from "@/lib/auth";
+import { createSessionToken, sessionCookie } from "@/lib/session";
+import { isValidEmail, toPublicUser } from "@/lib/users";
+
+const authConfig = createAuthConfig();
+
+const MIN_PASSWORD_LENGTH = 8;
+
+type RegisterRequest = {
+  email?: string;
+  password?: string;
+  name?: string;
+};
+
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/auth/register
+ * Creates the account and sets the session cookie
+ */
+export async function POST(req: Request) {
+  if (!authConfig.methods.includes("credentials") || !authConfig.allowSignup) {
+    return NextResponse.json(
+      { error: "Registration is disabled." },
+      { status: 403 },
+    );
+  }
+
+  let body: RegisterRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload." }, { status: 400 });
+  }
+
+  if (!isValidEmail(body.email)) {
+    return NextResponse.json({ error: "A valid email is required." }, { status: 400 });
+  }
+  if (typeof body.password !== "string" || body.password.length < MIN_PASSWORD_LENGTH) {
+    return NextResponse.json(
+      { error: `Passwords need at least ${MIN_PASSWORD_LENGTH} characters.` },
+      { status: 400 },
+    );
+  }
+  // The email check and the insert happen in one store write, so two
+  // concurrent sign-ups can't both create the account
+  const { user, created } = await createAccount({
+    email: body.email,
+    name: body.name,
+    password: body.password,
+  });
+  if (!created) {
+    return NextResponse.json(
+      { error: "An account with that email already exists." },
+      { status: 409 },
+    );
+  }
+
+  const response = NextResponse.json({ user: toPublicUser(user) }, { status: 201 });
+  response.cookies.set(sessionCookie(createSessionToken(user.id)));
+  return response;
+}
@@ -0,0 +1,36 @@
+/**
+ * Session API Route
+ *
+ * Tells the client who is signed in, their workspaces and settings, and which
+ * sign-in methods the login page should offer.
+ */
+
+import { NextResponse } from "next/server";
+
+import { createAuthConfig, getSessionUser, userStore } from "@/lib/auth";
+import { toPublicUser } from "@/lib/users";
+
+const authConfig = createAuthConfig();
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/auth/session
+ * Returns `user: null` when nobody is signed in
+ */
+export async function GET(req: Request) {
+  const user = await getSessionUser(req);
+  const { methods, allowSignup } = authConfig;
+
+  if (!user) {
+    return NextResponse.json({ user: null, methods, allowSignup });
+  }
+
+  return NextResponse.json({
+    user: toPublicUser(user),
+    settings: user.settings,
+    workspaces: await userStore.listWorkspaces(user.id),
+    methods,
+    allowSignup,
+  });
+}
@@ -0,0 +1,51 @@
+/**
+ * Chat Stream Resume Route
+ *
+ * Lets a client that reloaded or lost its connection reattach to an in-flight
+ * chat response.
+ */
+
+import { UI_MESSAGE_STREAM_HEADERS } from "ai";
+
+import { requireUser, workspaceIdsOf } from "@/lib/auth";
+import {
+  conversationAccess,
+  createConversationStore,
+} from "@/lib/conversations";
+import { resumableStreams } from "@/lib/stream-store";
+
+const store = createConversationStore();
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/chat/[id]/stream
+ * Replays the active response stream for a conversation from the start and follows it live.
+ * Responds with 204 when nothing is being generated.
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  const { user, response } = await requireUser(req);
+  if (!user) return response;
+
+  const { id } = await params;
+  const conversation = await store.get(id);
+  if (
+    !conversation ||
+    !conversationAccess(conversation, user.id, await workspaceIdsOf(user.id))
+  ) {
+    return new Response(null, { status: 204 });
+  }
+
+  const streamId = resumableStreams.activeStreamId(id);
+  const stream = streamId ? resumableStreams.replay(streamId) : null;
+
+  if (!stream) {
+    return new Response(null, { status: 204 });
+  }
+
+  return new Response(stream.pipeThrough(new TextEncoderStream()), {
+    headers: UI_MESSAGE_STREAM_HEADERS,
+  });
+}
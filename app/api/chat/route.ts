@@ -2,19 +2,245 @@
  * Chat API Route
  *
  * Provides streaming AI chat capabilities with integrated web scraping and search tools.
- * Uses OpenAI GPT-4o-mini with Firecrawl for gathering web data.
+ * Uses the model selected from the provider registry with Firecrawl for gathering web data.
  */
 
 import { NextResponse } from "next/server";
-import { streamText, tool, stepCountIs, convertToModelMessages } from "ai";
-import { openai } from "@ai-sdk/openai";
-import FirecrawlApp from "@mendable/firecrawl-js";
+import {
+  streamText,
+  tool,
+  stepCountIs,
+  convertToModelMessages,
+  createIdGenerator,
+  createUIMessageStream,
+  createUIMessageStreamResponse,
+  type StepResult,
+  type StopCondition,
+  type TextStreamPart,
+  type Tool,
+  type ToolSet,
+  type UIMessage,
+  type UIMessageStreamWriter,
+} from "ai";
+import type FirecrawlApp from "@mendable/firecrawl-js";
+import { nanoid } from "nanoid";
 import { z } from "zod";
 
-// Initialize Firecrawl client if API key is available
-const firecrawl = process.env.FIRECRAWL_API_KEY
-  ? new FirecrawlApp({ apiKey: process.env.FIRECRAWL_API_KEY })
-  : null;
+import {
+  approvalReason,
+  createApprovalPolicy,
+  getToolApproval,
+  pendingApprovalResponses,
+  type PendingApproval,
+} from "@/lib/approval";
+import { countSteps, type AgentStep } from "@/lib/agent-steps";
+import {
+  attachmentTextPart,
+  extractAttachments,
+  type AttachmentText,
+} from "@/lib/attachments";
+import {
+  collectSources,
+  formatSourceKey,
+  SourceRegistry,
+  sourcesFromToolOutput,
+} from "@/lib/citations";
+import {
+  cacheKey,
+  createResultCache,
+  normalizeQuery,
+  normalizeUrl,
+} from "@/lib/cache";
+import {
+  jsonSchemaToZod,
+  schemaFromFields,
+  type JsonSchema,
+} from "@/lib/json-schema";
+import { requireUser } from "@/lib/auth";
+import type { BatchScrapeRow } from "@/lib/batch-scrape";
+import {
+  chunkMarkdown,
+  condensePage,
+  createContextWindowConfig,
+} from "@/lib/context-window";
+import { firecrawl, traceFirecrawl } from "@/lib/firecrawl";
+import {
+  createConversationStore,
+  isValidConversationId,
+  saveConversationMessages,
+} from "@/lib/conversations";
+import { resolveModel } from "@/lib/models";
+import { checkMonitor, registerMonitor } from "@/lib/monitor-scheduler";
+import { MONITOR_SCHEDULES, type MonitorSchedule } from "@/lib/monitors";
+import {
+  createResearchConfig,
+  mapWithConcurrency,
+  runResearch,
+  type ResearchToolRunner,
+} from "@/lib/research";
+import {
+  createPageSnapshotStore,
+  findSnapshot,
+  type PageSnapshot,
+} from "@/lib/page-snapshots";
+import { resumableStreams } from "@/lib/stream-store";
+import { reportProgress, withToolProgress } from "@/lib/tool-progress";
+import { wrapTools } from "@/lib/tools";
+import {
+  createPriceTable,
+  getTraceIds,
+  getTurnUsage,
+  TurnUsageMeter,
+  type ChatMessageMetadata,
+} from "@/lib/turn-usage";
+import { logger } from "@/lib/logger";
+import {
+  collapseUnchanged,
+  diffMarkdown,
+  diffSections,
+} from "@/lib/markdown-diff";
+import {
+  errorType,
+  jsonByteLength,
+  tracer,
+  type Span,
+} from "@/lib/tracing";
+import { createUrlPolicy, type PolicyDenial } from "@/lib/url-policy";
+import {
+  estimateToolCredits,
+  toolCreditsUsed,
+  usageTracker,
+} from "@/lib/usage-limits";
+
+const conversationStore = createConversationStore();
+
+// Every successful scrape is kept per user and URL for compareSnapshots
+// and readSection
+const pageSnapshots = createPageSnapshotStore();
+
+// Long scraped pages reach the model as a table of contents plus the
+// sections that match the question
+const contextWindow = createContextWindowConfig();
+
+// Shared cache for scrape/search results, configured via FIRECRAWL_CACHE_* env vars
+const resultCache = createResultCache();
+
+// Decides which URLs Firecrawl may fetch, configured via URL_POLICY_* env vars
+const urlPolicy = createUrlPolicy();
+
+/**
+ * Tool result for a URL the policy blocked. `policy` lets the UI tell it
+ * apart from a failed scrape; `content` tells the model not to retry.
+ */
+function policyDeniedResult(denial: PolicyDenial) {
+  return {
+    url: denial.url,
+    policy: denial,
+    content: `Blocked by URL policy (${denial.rule}): ${denial.reason} Do not retry this URL; use another source or tell the user.`,
+  };
+}
+
+/**
+ * Drops items whose URL the policy blocks, e.g. search hits or crawled pages
+ * Firecrawl reached on its own.
+ */
+async function filterAllowedUrls<T extends { url?: string }>(items: T[]) {
+  const denials = await Promise.all(
+    items.map((item) => (item.url ? urlPolicy.check(item.url) : null)),
+  );
+  return {
+    allowed: items.filter((_, index) => !denials[index]),
+    blocked: denials.filter((denial): denial is PolicyDenial => Boolean(denial)),
+  };
+}
+
+type FirecrawlScrapeOptions = Parameters<FirecrawlApp["scrape"]>[1];
+type FirecrawlSearchOptions = Parameters<FirecrawlApp["search"]>[1];
+
+/**
+ * Scrapes a URL through the result cache. Pass fresh to bypass cached entries.
+ */
+function cachedScrape(
+  url: string,
+  options: FirecrawlScrapeOptions,
+  fresh?: boolean,
+) {
+  return resultCache.wrap(
+    cacheKey("scrape", normalizeUrl(url), options),
+    async () =>
+      (await traceFirecrawl("scrape", { "url.full": url }, () =>
+        firecrawl!.scrape(url, options),
+      )) as FirecrawlScrapeResponse,
+    { fresh },
+  );
+}
+
+/**
+ * Runs a search through the result cache. Pass fresh to bypass cached entries.
+ */
+function cachedSearch(
+  query: string,
+  options: FirecrawlSearchOptions,
+  fresh?: boolean,
+) {
+  return resultCache.wrap(
+    cacheKey("search", normalizeQuery(query), options),
+    () =>
+      traceFirecrawl("search", { "firecrawl.query": query }, () =>
+        firecrawl!.search(query, options),
+      ),
+    { fresh },
+  );
+}
+
+/**
+ * Page actions run in order before the page is scraped, e.g. to dismiss a
+ * cookie wall, open a pricing tab or load more results.
+ */
+const scrapeActionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("click"),
+    selector: z.string().describe("CSS selector of the element to click"),
+  }),
+  z.object({
+    type: z.literal("wait"),
+    milliseconds: z
+      .number()
+      .int()
+      .min(1)
+      .max(30_000)
+      .optional()
+      .describe("Milliseconds to wait"),
+    selector: z
+      .string()
+      .optional()
+      .describe("Wait until this CSS selector appears instead of a fixed time"),
+  }),
+  z.object({
+    type: z.literal("scroll"),
+    direction: z.enum(["up", "down"]).default("down"),
+    selector: z
+      .string()
+      .optional()
+      .describe("CSS selector of the element to scroll; defaults to the page"),
+  }),
+  z.object({
+    type: z.literal("write"),
+    text: z
+      .string()
+      .describe("Text to type into the focused element; click the input first"),
+  }),
+  z.object({
+    type: z.literal("press"),
+    key: z.string().describe("Keyboard key to press, e.g. Enter or Escape"),
+  }),
+  z.object({
+    type: z.literal("screenshot"),
+    fullPage: z.boolean().optional(),
+  }),
+]);
+
+type ScrapeAction = z.infer<typeof scrapeActionSchema>;
 
 /**
  * Web Scraping Tool
@@ -22,11 +248,71 @@ const firecrawl = process.env.FIRECRAWL_API_KEY
  */
 const scrapeWebsiteTool = tool({
   description:
-    "Scrape a public webpage and return markdown content for analysis.",
+    "Scrape a public webpage and return markdown content for analysis. Optionally returns the page's links, HTML or a screenshot, and can emulate mobile devices or a specific location.",
   inputSchema: z.object({
     url: z.string().url().describe("The absolute URL to fetch"),
+    formats: z
+      .array(z.enum(["links", "html", "screenshot"]))
+      .optional()
+      .describe("Extra formats to return alongside markdown"),
+    onlyMainContent: z
+      .boolean()
+      .optional()
+      .describe("Strip navigation, headers and footers (default true)"),
+    includeTags: z
+      .array(z.string())
+      .optional()
+      .describe("CSS selectors or tags to keep, e.g. [\"main\", \".pricing\"]"),
+    excludeTags: z
+      .array(z.string())
+      .optional()
+      .describe("CSS selectors or tags to remove, e.g. [\"nav\", \"#cookie-banner\"]"),
+    waitFor: z
+      .number()
+      .int()
+      .min(0)
+      .max(30_000)
+      .optional()
+      .describe("Milliseconds to wait for JavaScript to render before scraping"),
+    mobile: z.boolean().optional().describe("Emulate a mobile device"),
+    location: z
+      .object({
+        country: z
+          .string()
+          .length(2)
+          .optional()
+          .describe("ISO 3166-1 alpha-2 country code, e.g. US or DE"),
+        languages: z
+          .array(z.string())
+          .optional()
+          .describe("Preferred languages, e.g. [\"de-DE\"]"),
+      })
+      .optional()
+      .describe("Location and language settings for the request"),
+    actions: z
+      .array(scrapeActionSchema)
+      .max(20)
+      .optional()
+      .describe(
+        "Browser steps to run before scraping (click tabs, dismiss cookie walls, load more, type, press keys, take screenshots)",
+      ),
+    fresh: z
+      .boolean()
+      .optional()
+      .describe("Bypass the cache and fetch a fresh copy"),
   }),
-  execute: async ({ url }) => {
+  execute: async ({
+    url,
+    formats = [],
+    onlyMainContent,
+    includeTags,
+    excludeTags,
+    waitFor,
+    mobile,
+    location,
+    actions = [],
+    fresh,
+  }) => {
     if (!firecrawl) {
       return {
         url,
@@ -35,17 +321,74 @@ const scrapeWebsiteTool = tool({
       };
     }
 
+    // Firecrawl rejects wait steps without a duration or selector
+    const scrapeActions = actions.map((action) =>
+      action.type === "wait" && !action.selector && !action.milliseconds
+        ? { ...action, milliseconds: 1000 }
+        : action,
+    );
+
+    reportProgress(
+      scrapeActions.length
+        ? `running ${scrapeActions.length} browser action${scrapeActions.length === 1 ? "" : "s"}`
+        : waitFor
+          ? "rendering JS"
+          : "fetching",
+    );
     try {
-      const data = (await firecrawl.scrape(url, {
-        formats: ["markdown"],
-      })) as FirecrawlScrapeResponse;
+      const {
+        value: data,
+        cached,
+        fetchedAt,
+      } = await cachedScrape(
+        url,
+        {
+          formats: ["markdown", ...formats],
+          onlyMainContent,
+          includeTags,
+          excludeTags,
+          waitFor,
+          mobile,
+          location,
+          actions: scrapeActions.length ? scrapeActions : undefined,
+        },
+        fresh,
+      );
       const markdown = data.markdown ?? data.content ?? "";
-      const title = data.metadata?.title ?? "";
+      const metadata = data.metadata ?? {};
+      const title = metadata.title ?? "";
+      const finalUrl = metadata.url ?? metadata.sourceURL ?? url;
+      const links = data.links ?? [];
+
+      const linkSection = links.length
+        ? `\n\n## Links on this page\n${links.map((link) => `- ${link}`).join("\n")}`
+        : "";
 
       return {
         url,
+        sourceUrl: metadata.sourceURL ?? url,
+        finalUrl,
+        redirected: finalUrl !== (metadata.sourceURL ?? url),
+        statusCode: metadata.statusCode,
         title: title || url,
-        content: `# ${title || url}\n\n${markdown}`,
+        description: metadata.description,
+        og: {
+          title: metadata.ogTitle,
+          description: metadata.ogDescription,
+          image: metadata.ogImage,
+          siteName: metadata.ogSiteName,
+          url: metadata.ogUrl,
+        },
+        links: formats.includes("links") ? links : undefined,
+        html: data.html?.slice(0, SCRAPE_HTML_CHAR_LIMIT),
+        screenshot: data.screenshot,
+        actionLog: buildActionLog(
+          scrapeActions,
+          data.actions?.screenshots ?? [],
+        ),
+        content: `# ${title || url}\n\n${markdown}${linkSection}`,
+        cached,
+        fetchedAt,
       };
     } catch (error) {
       const message =
@@ -59,6 +402,258 @@ const scrapeWebsiteTool = tool({
   },
 });
 
+const SCRAPE_HTML_CHAR_LIMIT = 20_000;
+
+/**
+ * Describes each executed action and pairs screenshot steps with the images
+ * Firecrawl returned for them (screenshots come back in action order).
+ */
+function buildActionLog(actions: ScrapeAction[], screenshots: string[]) {
+  let screenshotIndex = 0;
+
+  return actions.map((action, index) => {
+    const step = index + 1;
+    switch (action.type) {
+      case "click":
+        return { step, type: action.type, detail: `Clicked ${action.selector}` };
+      case "wait":
+        return {
+          step,
+          type: action.type,
+          detail: action.selector
+            ? `Waited for ${action.selector}`
+            : `Waited ${action.milliseconds}ms`,
+        };
+      case "scroll":
+        return {
+          step,
+          type: action.type,
+          detail: `Scrolled ${action.direction}${action.selector ? ` in ${action.selector}` : ""}`,
+        };
+      case "write":
+        return { step, type: action.type, detail: `Typed "${action.text}"` };
+      case "press":
+        return { step, type: action.type, detail: `Pressed ${action.key}` };
+      case "screenshot":
+        return {
+          step,
+          type: action.type,
+          detail: action.fullPage ? "Took full-page screenshot" : "Took screenshot",
+          screenshot: screenshots[screenshotIndex++],
+        };
+    }
+  });
+}
+
+/**
+ * Structured Extraction Tool
+ * Pulls typed fields out of webpages using Firecrawl's JSON format and validates them
+ */
+const extractStructuredDataTool = tool({
+  description:
+    "Extract typed fields (e.g. pricing tiers, headcount, funding, contact emails) from one or more webpages. Provide either a JSON Schema or a plain-language list of fields.",
+  inputSchema: z.object({
+    urls: z
+      .array(z.string().url())
+      .min(1)
+      .max(10)
+      .describe("The absolute URLs to extract data from"),
+    schema: z
+      .record(z.string(), z.unknown())
+      .optional()
+      .describe("JSON Schema (type: object) describing the fields to extract"),
+    fields: z
+      .array(z.string().min(1))
+      .optional()
+      .describe("Plain-language field names, used when no schema is given"),
+    prompt: z
+      .string()
+      .optional()
+      .describe("Extra instructions for the extractor"),
+    fresh: z
+      .boolean()
+      .optional()
+      .describe("Bypass the cache and fetch a fresh copy"),
+  }),
+  execute: async ({ urls, schema, fields, prompt, fresh }) => {
+    if (!schema && !fields?.length) {
+      return {
+        urls,
+        columns: [],
+        rows: [],
+        error: "Provide either a JSON Schema or a list of fields to extract.",
+      };
+    }
+
+    const jsonSchema =
+      (schema as JsonSchema | undefined) ?? schemaFromFields(fields ?? []);
+    const columns = Object.keys(jsonSchema.properties ?? {});
+
+    if (!firecrawl) {
+      return {
+        urls,
+        columns,
+        rows: [],
+        note: "FIRECRAWL_API_KEY is not configured. Unable to extract data.",
+      };
+    }
+
+    const validator = jsonSchemaToZod(jsonSchema);
+
+    let extracted = 0;
+    reportProgress("extracting", { current: 0, total: urls.length });
+    const rows = await Promise.all(
+      urls.map(async (url) => {
+        try {
+          const { value: data, cached, fetchedAt } = await cachedScrape(
+            url,
+            { formats: [{ type: "json", schema: jsonSchema, prompt }] },
+            fresh,
+          );
+          const parsed = validator.safeParse(data.json);
+
+          if (!parsed.success) {
+            return {
+              url,
+              cached,
+              fetchedAt,
+              valid: false,
+              data: (data.json ?? null) as Record<string, unknown> | null,
+              issues: parsed.error.issues.map(
+                (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`,
+              ),
+            };
+          }
+
+          return {
+            url,
+            cached,
+            fetchedAt,
+            valid: true,
+            data: parsed.data as Record<string, unknown>,
+          };
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : "Unknown Firecrawl error.";
+          return {
+            url,
+            cached: false,
+            valid: false,
+            data: null,
+            error: message,
+          };
+        } finally {
+          reportProgress("extracting", { current: ++extracted, total: urls.length });
+        }
+      }),
+    );
+
+    return {
+      urls,
+      columns,
+      rows,
+      content: `# Extracted data\n\n${JSON.stringify(rows, null, 2)}`,
+      message: rows.some((row) => !row.valid)
+        ? "Some rows failed extraction or did not match the schema"
+        : undefined,
+      cached: rows.every((row) => row.cached),
+      fetchedAt: rows
+        .map((row) => row.fetchedAt)
+        .filter((value): value is string => Boolean(value))
+        .sort()[0],
+    };
+  },
+});
+
+/**
+ * Website Mapping Tool
+ * Lists the URLs a site exposes so the model can pick which pages to scrape
+ */
+const mapWebsiteTool = tool({
+  description:
+    "Map a website and return its URL inventory grouped by path prefix. Use this before scraping when you need to know which pages a domain has.",
+  inputSchema: z.object({
+    url: z.string().url().describe("The absolute URL of the site to map"),
+    search: z
+      .string()
+      .optional()
+      .describe("Optional search term to filter and rank the discovered URLs"),
+    limit: z.number().int().min(1).max(500).default(100),
+  }),
+  execute: async ({ url, search, limit }) => {
+    if (!firecrawl) {
+      return {
+        url,
+        groups: [],
+        note: "FIRECRAWL_API_KEY is not configured. Unable to map website.",
+      };
+    }
+
+    reportProgress("mapping");
+    try {
+      const response = await traceFirecrawl("map", { "url.full": url }, () =>
+        firecrawl!.map(url, { search, limit }),
+      );
+      const groups = groupLinksByPrefix(response.links);
+
+      const sections = groups.map(
+        (group) =>
+          `## ${group.prefix} (${group.links.length})\n${group.links
+            .map((link) => `- ${link.url}${link.title ? ` — ${link.title}` : ""}`)
+            .join("\n")}`,
+      );
+
+      return {
+        url,
+        search,
+        count: response.links.length,
+        groups,
+        content: groups.length
+          ? `# Site map for ${url}\n\n${sections.join("\n\n")}`
+          : `# Site map for ${url}\n\nNo URLs found.`,
+        message:
+          groups.length === 0 ? "No URLs returned from Firecrawl map" : undefined,
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown Firecrawl error.";
+      return {
+        url,
+        groups: [],
+        error: message,
+      };
+    }
+  },
+});
+
+/**
+ * Buckets mapped links by their first path segment, largest groups first
+ */
+function groupLinksByPrefix(links: FirecrawlMapLink[]) {
+  const groups = new Map<string, FirecrawlMapLink[]>();
+
+  for (const link of links) {
+    let prefix = "/";
+    try {
+      const [first] = new URL(link.url).pathname.split("/").filter(Boolean);
+      if (first) prefix = `/${first}`;
+    } catch {
+      prefix = "other";
+    }
+    const bucket = groups.get(prefix) ?? [];
+    bucket.push({
+      url: link.url,
+      title: link.title,
+      description: link.description,
+    });
+    groups.set(prefix, bucket);
+  }
+
+  return Array.from(groups, ([prefix, items]) => ({ prefix, links: items })).sort(
+    (a, b) => b.links.length - a.links.length || a.prefix.localeCompare(b.prefix),
+  );
+}
+
 /**
  * Web Search Tool
  * Searches the web and returns multiple results with snippets and markdown content
@@ -69,8 +664,12 @@ const searchWebTool = tool({
   inputSchema: z.object({
     query: z.string().min(3).describe("The search query to run"),
     limit: z.number().int().min(1).max(10).default(5),
+    fresh: z
+      .boolean()
+      .optional()
+      .describe("Bypass the cache and fetch a fresh copy"),
   }),
-  execute: async ({ query, limit }) => {
+  execute: async ({ query, limit, fresh }) => {
     if (!firecrawl) {
       return {
         query,
@@ -79,17 +678,27 @@ const searchWebTool = tool({
       };
     }
 
+    reportProgress("searching");
     try {
-      const response = await firecrawl.search(query, {
-        limit,
-        scrapeOptions: {
-          formats: ["markdown"],
+      const {
+        value: response,
+        cached,
+        fetchedAt,
+      } = await cachedSearch(
+        query,
+        {
+          limit,
+          scrapeOptions: {
+            formats: ["markdown"],
+          },
         },
-      });
+        fresh,
+      );
 
       const webResults = (response.web || []) as FirecrawlSearchResultItem[];
 
-      const results = webResults.map((item) => ({
+      const { allowed, blocked } = await filterAllowedUrls(webResults);
+      const results = allowed.map((item) => ({
         title: item.metadata?.title || item.title || item.url || "Untitled",
         url: item.url,
         snippet: item.markdown?.slice(0, 400) || item.description || "",
@@ -112,10 +721,14 @@ const searchWebTool = tool({
         count: results.length,
         results,
         content: summary,
-        message:
-          results.length === 0
+        blocked: blocked.length ? blocked : undefined,
+        message: blocked.length
+          ? `${blocked.length} result${blocked.length === 1 ? " was" : "s were"} hidden by the URL policy`
+          : results.length === 0
             ? "No results returned from Firecrawl search"
             : undefined,
+        cached,
+        fetchedAt,
       };
     } catch (error) {
       const message =
@@ -129,15 +742,180 @@ const searchWebTool = tool({
   },
 });
 
+/**
+ * Website Crawling Tool
+ * Crawls a site from a start URL and returns markdown for every page it visits
+ */
+const crawlWebsiteTool = tool({
+  description:
+    "Crawl a website from a start URL and return markdown for each page found. Use this for whole sites or sections (docs, blogs, changelogs) instead of scraping pages one at a time.",
+  inputSchema: z.object({
+    url: z.string().url().describe("The absolute URL to start crawling from"),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(50)
+      .default(10)
+      .describe("Maximum number of pages to crawl"),
+    includePaths: z
+      .array(z.string())
+      .optional()
+      .describe("Regex path patterns to include, e.g. ^/docs/.*"),
+    excludePaths: z
+      .array(z.string())
+      .optional()
+      .describe("Regex path patterns to skip, e.g. ^/blog/.*"),
+    maxDepth: z
+      .number()
+      .int()
+      .min(1)
+      .max(10)
+      .optional()
+      .describe("Maximum link depth to follow from the start URL"),
+  }),
+  execute: async ({ url, limit, includePaths, excludePaths, maxDepth }) => {
+    if (!firecrawl) {
+      return {
+        url,
+        pages: [],
+        note: "FIRECRAWL_API_KEY is not configured. Unable to crawl.",
+      };
+    }
+
+    reportProgress("starting crawl");
+    try {
+      const { id } = await traceFirecrawl("crawl.start", { "url.full": url }, () =>
+        firecrawl!.startCrawl(url, {
+          limit,
+          includePaths,
+          excludePaths,
+          maxDiscoveryDepth: maxDepth,
+          scrapeOptions: {
+            formats: ["markdown"],
+            onlyMainContent: true,
+          },
+        }),
+      );
+      const job = await waitForCrawl(id);
+
+      const crawled = (job.data as FirecrawlScrapeResponse[]).map((page) => ({
+        ...page,
+        url: page.metadata?.sourceURL ?? page.url ?? url,
+      }));
+      const { allowed, blocked } = await filterAllowedUrls(crawled);
+
+      const pages = allowed.map((page) => {
+        const pageUrl = page.url;
+        const markdown = page.markdown ?? page.content ?? "";
+        return {
+          url: pageUrl,
+          title: page.metadata?.title || pageUrl,
+          markdown:
+            markdown.length > CRAWL_PAGE_CHAR_LIMIT
+              ? `${markdown.slice(0, CRAWL_PAGE_CHAR_LIMIT)}\n\n[truncated]`
+              : markdown,
+        };
+      });
+
+      const sections = pages.map(
+        (page) => `## ${page.title}\nSource: ${page.url}\n\n${page.markdown}`,
+      );
+
+      return {
+        url,
+        status: job.status,
+        total: job.total,
+        completed: job.completed,
+        pages,
+        blocked: blocked.length ? blocked : undefined,
+        content: pages.length
+          ? `# Crawl of ${url} (${pages.length} pages)\n\n${sections.join("\n\n")}`
+          : `# Crawl of ${url}\n\nNo pages were crawled.`,
+        message: blocked.length
+          ? `${blocked.length} crawled page${blocked.length === 1 ? " was" : "s were"} dropped by the URL policy`
+          : job.status === "scraping"
+            ? "Crawl timed out before finishing; returning the pages crawled so far"
+            : job.status !== "completed"
+              ? `Crawl ended with status "${job.status}"`
+              : undefined,
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown Firecrawl error.";
+      return {
+        url,
+        pages: [],
+        error: message,
+      };
+    }
+  },
+});
+
+const CRAWL_POLL_INTERVAL_MS = 2000;
+const CRAWL_TIMEOUT_MS = 120_000;
+const CRAWL_PAGE_CHAR_LIMIT = 4000;
+
+/**
+ * Polls a crawl job until it leaves the "scraping" state or the timeout is hit.
+ * On timeout the job is cancelled and the partial snapshot is returned.
+ */
+async function waitForCrawl(id: string) {
+  const client = firecrawl!;
+  const deadline = Date.now() + CRAWL_TIMEOUT_MS;
+
+  const getStatus = () =>
+    traceFirecrawl("crawl.status", { "firecrawl.job.id": id }, () =>
+      client.getCrawlStatus(id),
+    );
+
+  let job = await getStatus();
+  while (job.status === "scraping" && Date.now() < deadline) {
+    reportProgress("crawling pages", { current: job.completed, total: job.total });
+    await new Promise((resolve) => setTimeout(resolve, CRAWL_POLL_INTERVAL_MS));
+    job = await getStatus();
+  }
+
+  if (job.status === "scraping") {
+    await traceFirecrawl("crawl.cancel", { "firecrawl.job.id": id }, () =>
+      client.cancelCrawl(id),
+    ).catch(() => false);
+  }
+
+  return job;
+}
+
 type FirecrawlScrapeResponse = {
   url?: string;
   markdown?: string;
   content?: string;
+  html?: string;
+  screenshot?: string;
+  links?: string[];
+  json?: unknown;
+  actions?: {
+    screenshots?: string[];
+  };
   metadata?: {
     title?: string;
+    description?: string;
+    url?: string;
+    sourceURL?: string;
+    statusCode?: number;
+    ogTitle?: string;
+    ogDescription?: string;
+    ogImage?: string;
+    ogSiteName?: string;
+    ogUrl?: string;
   };
 };
 
+type FirecrawlMapLink = {
+  url: string;
+  title?: string;
+  description?: string;
+};
+
 type FirecrawlSearchResultItem = {
   url: string;
   title?: string;
@@ -149,8 +927,886 @@ type FirecrawlSearchResultItem = {
   };
 };
 
+/**
+ * Batch Scraping Tool
+ * Scrapes a list of URLs a few at a time, streaming per-URL progress
+ */
+function createBatchScrapeTool(writer: UIMessageStreamWriter) {
+  return tool({
+    description:
+      "Scrape many URLs in one call (e.g. a list of competitor pages) and return markdown for each, with per-URL success or failure. Use this instead of calling scrapeWebsite repeatedly whenever there are more than two URLs.",
+    inputSchema: z.object({
+      urls: z
+        .array(z.string().url())
+        .min(1)
+        .max(BATCH_SCRAPE_MAX_URLS)
+        .describe("The absolute URLs to scrape"),
+      onlyMainContent: z
+        .boolean()
+        .optional()
+        .describe("Strip navigation, headers and footers (default true)"),
+      fresh: z
+        .boolean()
+        .optional()
+        .describe("Bypass the cache and fetch fresh copies"),
+    }),
+    execute: async ({ urls, onlyMainContent, fresh }, { toolCallId }) => {
+      const unique = Array.from(new Set(urls));
+      if (!firecrawl) {
+        return {
+          urls: unique,
+          batch: [],
+          note: "FIRECRAWL_API_KEY is not configured. Unable to scrape.",
+        };
+      }
+
+      const rows: BatchScrapeRow[] = unique.map((url) => ({ url, status: "queued" }));
+      const publish = () =>
+        writer.write({
+          type: "data-batch",
+          id: `batch-${toolCallId}`,
+          data: { toolCallId, rows: structuredClone(rows) },
+        });
+      publish();
+      let finished = 0;
+      reportProgress("scraping", { current: 0, total: rows.length });
+
+      const pages = await mapWithConcurrency(
+        unique,
+        BATCH_SCRAPE_CONCURRENCY,
+        async (url, index) => {
+          rows[index] = { url, status: "scraping" };
+          publish();
+          try {
+            const { value: data, cached, fetchedAt } = await cachedScrape(
+              url,
+              { formats: ["markdown"], onlyMainContent },
+              fresh,
+            );
+            const markdown = data.markdown ?? data.content ?? "";
+            const metadata = data.metadata ?? {};
+            rows[index] = {
+              url,
+              status: "done",
+              title: metadata.title || url,
+              description: metadata.description,
+              contentLength: markdown.length,
+              cached,
+              fetchedAt,
+            };
+            return markdown;
+          } catch (error) {
+            rows[index] = {
+              url,
+              status: "failed",
+              error:
+                error instanceof Error ? error.message : "Unknown Firecrawl error.",
+            };
+            return "";
+          } finally {
+            publish();
+            reportProgress("scraping", { current: ++finished, total: rows.length });
+          }
+        },
+      );
+
+      const succeeded = rows.filter((row) => row.status === "done");
+      const failed = rows.filter((row) => row.status === "failed");
+      const sections = rows.flatMap((row, index) =>
+        row.status === "done"
+          ? [
+              `## ${row.title}\nSource: ${row.url}\n\n${
+                pages[index].length > BATCH_PAGE_CHAR_LIMIT
+                  ? `${pages[index].slice(0, BATCH_PAGE_CHAR_LIMIT)}\n\n[truncated]`
+                  : pages[index]
+              }`,
+            ]
+          : [],
+      );
+      const failures = failed.length
+        ? `\n\n## Failed URLs\n${failed.map((row) => `- ${row.url}: ${row.error}`).join("\n")}`
+        : "";
+
+      return {
+        urls: unique,
+        batch: rows,
+        content: `# Batch scrape (${succeeded.length} of ${rows.length} succeeded)\n\n${sections.join("\n\n")}${failures}`,
+        message: failed.length
+          ? `${failed.length} of ${rows.length} URLs failed`
+          : undefined,
+        cached: succeeded.length > 0 && succeeded.every((row) => row.cached),
+        fetchedAt: succeeded
+          .map((row) => row.fetchedAt)
+          .filter((value): value is string => Boolean(value))
+          .sort()[0],
+      };
+    },
+  });
+}
+
+const BATCH_SCRAPE_MAX_URLS = 50;
+const BATCH_SCRAPE_CONCURRENCY = 5;
+const BATCH_PAGE_CHAR_LIMIT = 2000;
+
+/**
+ * Website Watching Tool
+ * Registers a page for scheduled re-scrapes and takes its baseline snapshot
+ */
+function createWatchWebsiteTool(userId: string) {
+  return tool({
+    description:
+      "Watch a web page for changes on a schedule (e.g. a competitor's pricing page). Each check re-scrapes the page, diffs it against the last snapshot and notifies the user in-app (and by webhook if given) with a summary of what changed. Use this when the user asks to monitor, track or be alerted about a page.",
+    inputSchema: z.object({
+      url: z.string().url().describe("The absolute URL of the page to watch"),
+      schedule: z
+        .enum(Object.keys(MONITOR_SCHEDULES) as [MonitorSchedule, ...MonitorSchedule[]])
+        .default("daily")
+        .describe("How often to check the page"),
+      selectors: z
+        .array(z.string())
+        .optional()
+        .describe("CSS selectors to limit the check to, e.g. [\".pricing-table\"]"),
+      section: z
+        .string()
+        .optional()
+        .describe("Only compare the part of the page under the first heading containing this text, e.g. \"Pricing\""),
+      webhookUrl: z
+        .string()
+        .url()
+        .optional()
+        .describe("Webhook that receives a POST for every change"),
+    }),
+    execute: async (input) => {
+      const registered = await registerMonitor(userId, input);
+      if (!registered.ok) {
+        return { url: input.url, error: registered.error };
+      }
+
+      const { monitor, created } = registered;
+      reportProgress("taking the first snapshot");
+      const check = await checkMonitor(monitor, { budgeted: true });
+      const scope = [
+        monitor.section ? `section "${monitor.section}"` : undefined,
+        monitor.selectors ? `selectors ${monitor.selectors.join(", ")}` : undefined,
+      ]
+        .filter(Boolean)
+        .join(", ");
+      const schedule = MONITOR_SCHEDULES[monitor.schedule].label.toLowerCase();
+
+      return {
+        url: monitor.url,
+        monitor: {
+          id: monitor.id,
+          schedule: monitor.schedule,
+          section: monitor.section,
+          selectors: monitor.selectors,
+          webhook: Boolean(monitor.webhookUrl),
+        },
+        created,
+        check: check.status,
+        content:
+          check.status === "error"
+            ? `${created ? "Started watching" : "Updated the watch on"} ${monitor.url}${scope ? ` (${scope})` : ""}, checked ${schedule}, but the first check failed: ${check.error} It will be retried on schedule.`
+            : `${created ? "Started watching" : "Updated the watch on"} ${monitor.url}${scope ? ` (${scope})` : ""}, checked ${schedule}. ${
+                check.status === "baseline"
+                  ? "The current version is saved as the baseline."
+                  : check.status === "changed"
+                    ? `It changed since the last snapshot: ${check.notification.summary}`
+                    : "No change since the last snapshot."
+              } The user can manage monitors and see change notifications on the Monitors page.`,
+      };
+    },
+  });
+}
+
+/**
+ * Snapshot Comparison Tool
+ * Diffs two stored scrapes of the same page, section by section
+ */
+function createCompareSnapshotsTool(userId: string) {
+  return tool({
+    description:
+      "Compare two stored scrapes of the same page and return the sections that were added, removed or changed between them. Every scrapeWebsite call stores a timestamped snapshot; to see what's new since an earlier scrape, scrape the page again with fresh: true first, then compare.",
+    inputSchema: z.object({
+      url: z.string().url().describe("The page URL, as it was scraped"),
+      before: z
+        .string()
+        .optional()
+        .describe(
+          "Snapshot id, or an ISO date/time to use the last snapshot taken by then. Defaults to the snapshot before `after`",
+        ),
+      after: z
+        .string()
+        .optional()
+        .describe(
+          "Snapshot id, or an ISO date/time to use the last snapshot taken by then. Defaults to the newest snapshot",
+        ),
+    }),
+    execute: async ({ url, before, after }) => {
+      const snapshots = await pageSnapshots.list(userId, url);
+      const available = snapshots.map(({ id, fetchedAt, scope }) => ({
+        id,
+        fetchedAt,
+        scope,
+      }));
+
+      const newer = after ? findSnapshot(snapshots, after) : snapshots[snapshots.length - 1];
+      // By default compare against the previous scrape with the same options
+      const older = before
+        ? findSnapshot(snapshots, before)
+        : [...snapshots]
+            .reverse()
+            .find(
+              (snapshot) =>
+                newer &&
+                snapshot.fetchedAt < newer.fetchedAt &&
+                snapshot.scope === newer.scope,
+            );
+
+      if (!newer || !older || older.id === newer.id) {
+        return {
+          url,
+          snapshots: available,
+          note:
+            snapshots.length < 2
+              ? `Only ${snapshots.length} snapshot${snapshots.length === 1 ? "" : "s"} of ${url} stored.`
+              : "No matching pair of snapshots found.",
+          content:
+            snapshots.length < 2
+              ? `There ${snapshots.length === 1 ? "is only one stored snapshot" : "are no stored snapshots"} of ${url}. Scrape it with scrapeWebsite (fresh: true) to take a new one, then compare again.`
+              : `Could not find two different snapshots of ${url} for before="${before ?? ""}" and after="${after ?? ""}". Stored snapshots: ${available.map((snapshot) => `${snapshot.id} (${snapshot.fetchedAt})`).join(", ")}.`,
+        };
+      }
+
+      const sections = diffSections(older.markdown, newer.markdown);
+      const diff = diffMarkdown(older.markdown, newer.markdown);
+
+      return {
+        url,
+        before: snapshotInfo(older),
+        after: snapshotInfo(newer),
+        snapshots: available,
+        sections,
+        diff: {
+          added: diff.added,
+          removed: diff.removed,
+          lines: collapseUnchanged(diff, 3).slice(0, COMPARE_DIFF_LINE_LIMIT),
+        },
+        content: describeSectionDiff(url, older, newer, sections).slice(
+          0,
+          COMPARE_CONTENT_CHAR_LIMIT,
+        ),
+      };
+    },
+  });
+}
+
+const COMPARE_DIFF_LINE_LIMIT = 400;
+const COMPARE_CONTENT_CHAR_LIMIT = 8000;
+
+function snapshotInfo({ id, fetchedAt, title, scope }: PageSnapshot) {
+  return { id, fetchedAt, title, scope };
+}
+
+/**
+ * Summarizes a section diff as markdown for the model
+ */
+function describeSectionDiff(
+  url: string,
+  older: PageSnapshot,
+  newer: PageSnapshot,
+  { added, removed, changed }: ReturnType<typeof diffSections>,
+) {
+  const header = `# Changes to ${url}\n\nFrom the snapshot taken ${older.fetchedAt} to the one taken ${newer.fetchedAt}${
+    older.scope !== newer.scope ? " (note: the two scrapes used different options)" : ""
+  }: ${added.length} section(s) added, ${removed.length} removed, ${changed.length} changed.`;
+  if (!added.length && !removed.length && !changed.length) {
+    return `${header}\n\nThe page content is identical.`;
+  }
+
+  const title = (heading: string) => heading || "(top of page)";
+  const parts = [header];
+  if (added.length) {
+    parts.push(
+      `## Added sections\n${added
+        .map((section) => `### ${title(section.heading)}\n${section.lines.join("\n")}`)
+        .join("\n\n")}`,
+    );
+  }
+  if (removed.length) {
+    parts.push(
+      `## Removed sections\n${removed.map((section) => `- ${title(section.heading)}`).join("\n")}`,
+    );
+  }
+  if (changed.length) {
+    parts.push(
+      `## Changed sections\n${changed
+        .map(
+          (section) =>
+            `### ${title(section.heading)}\n${[
+              ...section.removed.map((line) => `- ${line}`),
+              ...section.added.map((line) => `+ ${line}`),
+            ].join("\n")}`,
+        )
+        .join("\n\n")}`,
+    );
+  }
+  return parts.join("\n\n");
+}
+
+/**
+ * Section Reader Tool
+ * Returns sections of a long scraped page by the ids in its table of contents
+ */
+function createReadSectionTool(userId: string) {
+  return tool({
+    description:
+      "Read sections of a long page that scrapeWebsite returned condensed, by the section ids listed in its contents (e.g. \"s4\"). Reads the stored scrape, so it costs nothing; use it instead of scraping the page again.",
+    inputSchema: z.object({
+      url: z.string().url().describe("The page URL, as it was scraped"),
+      ids: z
+        .array(z.string())
+        .min(1)
+        .max(READ_SECTION_MAX_IDS)
+        .describe("Section ids from the page's contents, e.g. [\"s4\", \"s7.2\"]"),
+    }),
+    execute: async ({ url, ids }) => {
+      const snapshots = await pageSnapshots.list(userId, url);
+      // Section ids refer to the newest scrape, which the contents came from
+      const latest = snapshots[snapshots.length - 1];
+      if (!latest) {
+        return {
+          url,
+          sections: [],
+          note: `No stored scrape of ${url}.`,
+          content: `There is no stored scrape of ${url}. Scrape it with scrapeWebsite first, then read sections by the ids in its contents.`,
+        };
+      }
+
+      const chunks = chunkMarkdown(latest.markdown);
+      const sections = ids.flatMap((id) => {
+        const chunk = chunks.find((item) => item.id === id);
+        return chunk
+          ? [
+              {
+                id: chunk.id,
+                heading: chunk.heading,
+                text: chunk.text.slice(0, READ_SECTION_CHAR_LIMIT),
+              },
+            ]
+          : [];
+      });
+      const missing = ids.filter((id) => !sections.some((section) => section.id === id));
+
+      return {
+        url,
+        title: latest.title,
+        fetchedAt: latest.fetchedAt,
+        sections,
+        missing: missing.length ? missing : undefined,
+        content: [
+          `# ${latest.title || url}`,
+          ...sections.map(
+            (section) => `## [${section.id}] ${section.heading || "(top of page)"}\n\n${section.text}`,
+          ),
+          ...(missing.length
+            ? [
+                `No sections with the ids ${missing.join(", ")}. Available ids: ${chunks.map((chunk) => chunk.id).join(", ")}.`,
+              ]
+            : []),
+        ].join("\n\n"),
+      };
+    },
+  });
+}
+
+const READ_SECTION_MAX_IDS = 5;
+const READ_SECTION_CHAR_LIMIT = 6000;
+
+const chatTools = {
+  scrapeWebsite: scrapeWebsiteTool,
+  mapWebsite: mapWebsiteTool,
+  extractStructuredData: extractStructuredDataTool,
+  searchWeb: searchWebTool,
+  crawlWebsite: crawlWebsiteTool,
+};
+
+/**
+ * Wraps every tool so calls whose `url`/`urls` the URL policy blocks return a
+ * policy-denied result instead of reaching Firecrawl.
+ */
+function withUrlPolicy(tools: ToolSet): ToolSet {
+  return wrapTools(tools, (_name, execute) => async (input, options) => {
+    const args = (input ?? {}) as { url?: unknown; urls?: unknown };
+    const urls = [args.url, ...(Array.isArray(args.urls) ? args.urls : [])];
+    for (const url of urls) {
+      if (typeof url !== "string") continue;
+      const denial = await urlPolicy.check(url);
+      if (denial) return policyDeniedResult(denial);
+    }
+    return execute(input, options);
+  });
+}
+
+/**
+ * Wraps scrapeWebsite so successful scrapes are stored as timestamped
+ * snapshots of their URL for the user, for compareSnapshots to diff later.
+ */
+function withSnapshots(tools: ToolSet, userId: string): ToolSet {
+  return wrapTools(tools, (name, execute) => {
+    if (name !== "scrapeWebsite") return execute;
+    return async (input, options) => {
+      const result = await execute(input, options);
+
+      const output = result as {
+        url?: string;
+        title?: string;
+        content?: string;
+        fetchedAt?: string;
+        policy?: unknown;
+        budget?: unknown;
+      };
+      if (
+        output.policy ||
+        output.budget ||
+        !output.url ||
+        typeof output.content !== "string" ||
+        output.content.startsWith("Scrape error:") ||
+        output.fetchedAt === undefined
+      ) {
+        return result;
+      }
+
+      await pageSnapshots
+        .add(userId, {
+          id: nanoid(10),
+          url: output.url,
+          fetchedAt: output.fetchedAt,
+          title: output.title,
+          scope: snapshotScope(input),
+          markdown: output.content,
+        })
+        .catch((error) =>
+          logger.warn("Saving page snapshot failed", {
+            url: output.url,
+            error: error instanceof Error ? error.message : String(error),
+          }),
+        );
+      return result;
+    };
+  });
+}
+
+/**
+ * Wraps scrapeWebsite so pages longer than the context-window limit return a
+ * table of contents and the sections most relevant to `question` instead of
+ * the whole page. The model reads other sections with readSection.
+ */
+function withContextWindow(tools: ToolSet, question: string): ToolSet {
+  return wrapTools(tools, (name, execute) => {
+    if (name !== "scrapeWebsite") return execute;
+    return async (input, options) => {
+      const result = await execute(input, options);
+
+      const output = result as { url?: string; title?: string; content?: unknown };
+      if (
+        !output.url ||
+        typeof output.content !== "string" ||
+        output.content.startsWith("Scrape error:")
+      ) {
+        return result;
+      }
+
+      const condensed = condensePage(
+        output.content,
+        question,
+        { url: output.url, title: output.title },
+        contextWindow,
+      );
+      if (!condensed) return result;
+      return {
+        ...output,
+        content: condensed.content,
+        condensed: {
+          totalChars: condensed.totalChars,
+          shown: condensed.shownIds,
+          toc: condensed.toc,
+        },
+      };
+    };
+  });
+}
+
+/**
+ * The scrape options that change a page's markdown, as a stable string, or
+ * undefined for a default scrape
+ */
+function snapshotScope(input: unknown) {
+  const args = (input ?? {}) as Record<string, unknown>;
+  const scope = {
+    onlyMainContent: args.onlyMainContent,
+    includeTags: args.includeTags,
+    excludeTags: args.excludeTags,
+    mobile: args.mobile,
+    location: args.location,
+    actions: args.actions,
+    links:
+      Array.isArray(args.formats) && args.formats.includes("links") ? true : undefined,
+  };
+  const json = JSON.stringify(scope);
+  return json === "{}" ? undefined : json;
+}
+
+/**
+ * Wraps every tool so each call counts against the conversation's tool-call
+ * limit and the user's daily Firecrawl credits. Calls over budget return a
+ * budget-exhausted result instead of running; the remaining budget is
+ * streamed to the client as a transient `data-usage` part after each call.
+ * The credits each call used are also added to the turn's usage meter.
+ */
+function withUsageLimits(
+  tools: ToolSet,
+  {
+    userId,
+    conversationId,
+    writer,
+    meter,
+  }: {
+    userId: string;
+    conversationId?: string;
+    writer: UIMessageStreamWriter;
+    meter: TurnUsageMeter;
+  },
+): ToolSet {
+  const publishUsage = () =>
+    writer.write({
+      type: "data-usage",
+      data: usageTracker.summary(userId, conversationId),
+      transient: true,
+    });
+
+  return wrapTools(tools, (name, execute) => async (input, options) => {
+    const reservation = usageTracker.reserveToolCall(
+      userId,
+      conversationId,
+      estimateToolCredits(name, input),
+    );
+    if (!reservation.ok) {
+      publishUsage();
+      const { exhausted } = reservation;
+      return {
+        budget: exhausted,
+        content: `Budget exhausted: ${exhausted.reason} Don't call more tools; answer with what you already have and tell the user.`,
+      };
+    }
+
+    let result: unknown;
+    try {
+      result = await execute(input, options);
+    } finally {
+      const credits = toolCreditsUsed(name, result);
+      reservation.settle(credits);
+      meter.addCredits(credits);
+      publishUsage();
+    }
+    return result;
+  });
+}
+
+/**
+ * Wraps every tool so the pages it fetched get turn-wide citation numbers:
+ * the output gains a `sources` list and its content ends with the [n] key
+ * the model cites from.
+ */
+function withCitations(
+  tools: ToolSet,
+  registry: SourceRegistry,
+): ToolSet {
+  return wrapTools(tools, (name, execute) => async (input, options) => {
+    const result = await execute(input, options);
+    const sources = registry.register(sourcesFromToolOutput(name, result));
+    if (sources.length === 0) return result;
+
+    const output = result as { content?: string };
+    return {
+      ...output,
+      sources,
+      content: `${output.content ?? ""}\n\n${formatSourceKey(sources)}`,
+    };
+  });
+}
+
+/**
+ * Wraps every tool so each call runs in a span under `parent` with the tool
+ * name, call id, target URL or query, output size and outcome. Error results
+ * (which tools return rather than throw) mark the span as failed.
+ */
+function withTracing(tools: ToolSet, parent: Span): ToolSet {
+  return wrapTools(tools, (name, execute) => (input, options) => {
+    const args = (input ?? {}) as {
+      url?: unknown;
+      urls?: unknown;
+      query?: unknown;
+    };
+    return tracer.withSpan(
+      `tool.execute ${name}`,
+      {
+        parent,
+        attributes: {
+          "gen_ai.operation.name": "execute_tool",
+          "gen_ai.tool.name": name,
+          "gen_ai.tool.call.id": options.toolCallId,
+          "url.full": typeof args.url === "string" ? args.url : undefined,
+          "firecrawl.url_count": Array.isArray(args.urls)
+            ? args.urls.length
+            : undefined,
+          "firecrawl.query":
+            typeof args.query === "string" ? args.query : undefined,
+        },
+      },
+      async (span) => {
+        const result = await execute(input, options);
+        const outcome = toolOutcome(result);
+        span.setAttributes({
+          "tool.outcome": outcome.state,
+          "tool.output.bytes": jsonByteLength(result),
+          "firecrawl.cached": (result as { cached?: boolean })?.cached,
+        });
+        if (outcome.state === "error") {
+          span.setError("ToolError", outcome.message);
+          logger.warn(`Tool ${name} returned an error`, {
+            toolCallId: options.toolCallId,
+            error: outcome.message,
+          });
+        }
+        return result;
+      },
+    );
+  });
+}
+
+/**
+ * Classifies a tool result for tracing: refused by policy or budget, failed,
+ * or ok.
+ */
+function toolOutcome(result: unknown): { state: string; message?: string } {
+  if (!result || typeof result !== "object") return { state: "ok" };
+  const value = result as {
+    error?: unknown;
+    policy?: PolicyDenial;
+    budget?: { reason: string };
+    content?: unknown;
+  };
+  if (value.policy) return { state: "policy-denied", message: value.policy.reason };
+  if (value.budget) return { state: "budget-exhausted", message: value.budget.reason };
+  if (typeof value.error === "string") return { state: "error", message: value.error };
+  if (typeof value.content === "string" && value.content.startsWith("Scrape error:")) {
+    return { state: "error", message: value.content };
+  }
+  return { state: "ok" };
+}
+
+// Decides which tool calls need the user's sign-off, configured via APPROVAL_* env vars
+const approvalPolicy = createApprovalPolicy();
+
+/**
+ * Wraps every tool so calls the approval policy flags return an approval
+ * request instead of running. Each request is added to `requested` so it can
+ * be stored with the conversation; the answer comes from the client and is
+ * handled by resolveApprovalResponses on the next POST.
+ */
+function withApprovalPolicy(tools: ToolSet, requested: PendingApproval[]): ToolSet {
+  return wrapTools(tools, (name, execute) => async (input, options) => {
+    const reason = approvalReason(approvalPolicy, name, input);
+    if (reason) {
+      requested.push({
+        id: options.toolCallId,
+        toolCallId: options.toolCallId,
+        toolName: name,
+        input,
+      });
+      return {
+        approval: {
+          id: options.toolCallId,
+          state: "approval-requested",
+          reason,
+        },
+      };
+    }
+    return execute(input, options);
+  });
+}
+
+/**
+ * Ends the agent loop once a step produced an approval request, so the model
+ * waits for the user instead of guessing the outcome.
+ */
+const stopOnApprovalRequest: StopCondition<ToolSet> = ({ steps }) =>
+  steps[steps.length - 1]?.toolResults.some(
+    (result) => getToolApproval(result.output)?.state === "approval-requested",
+  ) ?? false;
+
+/**
+ * Runs approved tool calls and records rejected ones, streaming the new
+ * outputs to the client. Returns the messages with those outputs applied.
+ * Approved calls run with the input stored when the server requested the
+ * approval; responses that match no stored request are refused.
+ */
+async function resolveApprovalResponses(
+  messages: UIMessage[],
+  writer: UIMessageStreamWriter,
+  tools: ToolSet,
+  requested: PendingApproval[],
+) {
+  const pending = pendingApprovalResponses(messages);
+  if (pending.length === 0) return messages;
+
+  const outputs = new Map<string, unknown>();
+  for (const part of pending) {
+    const approval = getToolApproval(part.output)!;
+    const toolName = part.type.replace(/^tool-/, "");
+    const definition = tools[toolName] as Tool | undefined;
+    const request = requested.find(
+      (item) =>
+        item.id === approval.id &&
+        item.toolCallId === part.toolCallId &&
+        item.toolName === toolName,
+    );
+
+    let output: unknown;
+    if (!request) {
+      output = {
+        denied: true,
+        reason: "No matching approval request was found for this tool call.",
+        approval: { ...approval, state: "output-denied", approved: false },
+      };
+    } else if (!approval.approved) {
+      output = {
+        denied: true,
+        reason: approval.reason || "The user rejected this tool call.",
+        approval: { ...approval, state: "output-denied", approved: false },
+      };
+    } else if (definition?.execute) {
+      const result = await definition.execute(request.input, {
+        toolCallId: part.toolCallId,
+        messages: [],
+      });
+      output = {
+        ...(result as object),
+        approval: { ...approval, state: "output-available" },
+      };
+    } else {
+      output = { error: `Unknown tool ${toolName}`, approval };
+    }
+
+    outputs.set(part.toolCallId, output);
+    writer.write({
+      type: "tool-output-available",
+      toolCallId: part.toolCallId,
+      output,
+    });
+  }
+
+  const last = messages[messages.length - 1];
+  return [
+    ...messages.slice(0, -1),
+    {
+      ...last,
+      parts: last.parts.map((part) =>
+        "toolCallId" in part && outputs.has(part.toolCallId)
+          ? { ...part, output: outputs.get(part.toolCallId) }
+          : part,
+      ),
+    } as UIMessage,
+  ];
+}
+
+/**
+ * Streams a `data-step` part when each agent step starts and again when it
+ * finishes, with the step's duration and how long each of its tool calls took.
+ * `offset` continues the numbering of a resumed turn.
+ */
+function createStepTracker(writer: UIMessageStreamWriter, offset: number) {
+  const toolDurations = new Map<string, number>();
+  let current: AgentStep | undefined;
+
+  const publish = (step: AgentStep) =>
+    writer.write({ type: "data-step", id: `step-${step.stepNumber}`, data: step });
+
+  return {
+    withToolTimings(tools: ToolSet): ToolSet {
+      return wrapTools(tools, (_name, execute) => async (input, options) => {
+        const startedAt = Date.now();
+        try {
+          return await execute(input, options);
+        } finally {
+          toolDurations.set(options.toolCallId, Date.now() - startedAt);
+        }
+      });
+    },
+    prepareStep: ({ stepNumber }: { stepNumber: number }) => {
+      current = {
+        stepNumber: offset + stepNumber,
+        status: "running",
+        startedAt: new Date().toISOString(),
+        toolCalls: [],
+      };
+      publish(current);
+      return undefined;
+    },
+    onStepFinish: (step: StepResult<ToolSet>) => {
+      if (!current) return;
+      const finishedAt = new Date();
+      current = {
+        ...current,
+        status: "finished",
+        finishedAt: finishedAt.toISOString(),
+        durationMs: finishedAt.getTime() - Date.parse(current.startedAt),
+        finishReason: step.finishReason,
+        toolCalls: step.toolCalls.map((call) => ({
+          toolCallId: call.toolCallId,
+          toolName: call.toolName,
+          durationMs: toolDurations.get(call.toolCallId),
+        })),
+      };
+      publish(current);
+    },
+  };
+}
+
+const researchConfig = createResearchConfig();
+const modelPrices = createPriceTable();
+const generateToolCallId = createIdGenerator({ prefix: "call", size: 16 });
+
+/**
+ * Lets the research pipeline call tools directly while still streaming each
+ * call to the client as a regular tool part.
+ */
+function createResearchToolRunner(
+  tools: ToolSet,
+  writer: UIMessageStreamWriter,
+): ResearchToolRunner {
+  return async (toolName, input) => {
+    const toolCallId = generateToolCallId();
+    writer.write({ type: "tool-input-available", toolCallId, toolName, input });
+    const output = await (tools[toolName] as Tool).execute!(input, {
+      toolCallId,
+      messages: [],
+    });
+    writer.write({ type: "tool-output-available", toolCallId, output });
+    return { toolCallId, output };
+  };
+}
+
+const generateStreamId = createIdGenerator({ prefix: "stream", size: 16 });
+const generateRequestId = createIdGenerator({ prefix: "req", size: 16 });
+
 type ChatRequest = {
+  id?: string;
   messages?: unknown[];
+  model?: string;
+  /** "research" runs the deep research pipeline instead of the chat agent */
+  mode?: "chat" | "research";
 };
 
 export const dynamic = "force-dynamic";
@@ -160,12 +1816,8 @@ export const dynamic = "force-dynamic";
  * Handles chat requests and streams AI responses with tool calling capabilities
  */
 export async function POST(req: Request) {
-  if (!process.env.OPENAI_API_KEY) {
-    return NextResponse.json(
-      { error: "Set OPENAI_API_KEY to enable the chat." },
-      { status: 400 },
-    );
-  }
+  const { user, response } = await requireUser(req);
+  if (!user) return response;
 
   let body: ChatRequest;
   try {
@@ -174,34 +1826,302 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: "Invalid JSON payload." }, { status: 400 });
   }
 
-  const messages = convertToModelMessages(body.messages as Parameters<typeof convertToModelMessages>[0] ?? []);
-
-  const result = streamText({
-    model: openai("gpt-5-mini"),
-    system: [
-      "You are a helpful AI assistant with access to web scraping and search capabilities.",
-      "You can help users research companies, topics, and gather information from the web using your tools.",
-      "Only use tools when the user explicitly asks for information that requires web search or scraping.",
-      "IMPORTANT: After using any tool, you MUST provide a clear, natural-language summary of the results to the user.",
-      "Never just call a tool and stop - always follow up with an analysis or summary.",
-      "Format your responses using proper Markdown syntax:",
-      "- Use **bold** for emphasis",
-      "- Use ## for section headers",
-      "- Use - or * for unordered lists",
-      "- Use numbered lists (1., 2., etc.) for ordered items",
-      "- Use `code` for technical terms",
-      "Whenever the user specifies a website use the scrapeWebsite tool, otherwise use the searchWeb tool.",
-      "Keep your responses concise and helpful.",
-    ].join("\n"),
-    messages,
-    tools: {
-      scrapeWebsite: scrapeWebsiteTool,
-      searchWeb: searchWebTool,
+  const resolved = resolveModel(body.model);
+  if (!resolved.ok) {
+    return NextResponse.json({ error: resolved.error }, { status: 400 });
+  }
+
+  const rateLimit = usageTracker.takeRequest(user.id);
+  if (!rateLimit.ok) {
+    return NextResponse.json(
+      { error: rateLimit.reason },
+      {
+        status: 429,
+        headers: { "Retry-After": String(rateLimit.retryAfterSeconds) },
+      },
+    );
+  }
+
+  const conversationId = isValidConversationId(body.id) ? body.id : undefined;
+  const existing = conversationId
+    ? await conversationStore.get(conversationId)
+    : null;
+  // Shared conversations are read-only for workspace members
+  if (existing?.ownerId && existing.ownerId !== user.id) {
+    return NextResponse.json(
+      { error: "Only the owner can continue this conversation." },
+      { status: 403 },
+    );
+  }
+
+  // Attachments are read once, when their message arrives; stored messages
+  // already hold the extracted text
+  const uiMessages = await extractAttachments(
+    (body.messages ?? []) as UIMessage[],
+    existing?.messages,
+  );
+  // Approvals this request answers come from the stored conversation; the
+  // ones it raises are stored when it finishes
+  const storedApprovals: PendingApproval[] = existing?.pendingApprovals ?? [];
+  const requestedApprovals: PendingApproval[] = [];
+  const answeredApprovals = new Set(
+    pendingApprovalResponses(uiMessages).map((part) => part.toolCallId),
+  );
+
+  if (conversationId) {
+    // Save the new user message up front so a reload mid-answer still shows it
+    await saveConversationMessages(
+      conversationStore,
+      conversationId,
+      uiMessages,
+      user.id,
+    );
+  }
+
+  const requestId = generateRequestId();
+  const requestSpan = tracer.startSpan("POST /api/chat", {
+    parent: null,
+    kind: "server",
+    baggage: {
+      "app.request.id": requestId,
+      "app.conversation.id": conversationId,
+      "enduser.id": user.id,
+    },
+    attributes: {
+      "http.request.method": "POST",
+      "http.route": "/api/chat",
+      "gen_ai.request.model": resolved.option.id,
+      "app.chat.mode": body.mode ?? "chat",
     },
-    toolChoice: "auto",
-    stopWhen: stepCountIs(5),
-    maxOutputTokens: 1500,
   });
 
-  return result.toUIMessageStreamResponse();
+  const stream = createUIMessageStream({
+    originalMessages: uiMessages,
+    generateId: createIdGenerator({ prefix: "msg", size: 16 }),
+    execute: async ({ writer }) => {
+      // Continuing a turn (after an approval) keeps its citation numbers
+      // and adds to its usage and traces
+      const lastMessage = uiMessages[uiMessages.length - 1];
+      const continuing = lastMessage?.role === "assistant";
+      const meter = new TurnUsageMeter(
+        resolved.option.id,
+        modelPrices,
+        continuing ? getTurnUsage(lastMessage) : undefined,
+      );
+      const traceIds = [
+        ...(continuing ? getTraceIds(lastMessage) : []),
+        requestSpan.traceId,
+      ];
+      // The trace is linked when the message starts; usage follows once the
+      // model is done
+      const messageMetadata = ({
+        part,
+      }: {
+        part: TextStreamPart<ToolSet>;
+      }): ChatMessageMetadata | undefined => {
+        if (part.type === "start") return { traceIds };
+        if (part.type !== "finish") return undefined;
+        meter.addTokens(part.totalUsage);
+        return { traceIds, usage: meter.current() };
+      };
+      // Long pages are condensed against the latest question; the snapshot
+      // keeps the whole page for readSection
+      const lastQuestion = [...uiMessages]
+        .reverse()
+        .find((message) => message.role === "user")
+        ?.parts.map((part) => (part.type === "text" ? part.text : ""))
+        .join("")
+        .trim();
+      // The URL policy wraps the usage limits, so refused calls don't count
+      // against the tool-call caps
+      const tools = withToolProgress(
+        withTracing(
+          withCitations(
+            withUrlPolicy(
+              withUsageLimits(
+                withContextWindow(
+                  withSnapshots(
+                    {
+                      ...chatTools,
+                      batchScrape: createBatchScrapeTool(writer),
+                      watchWebsite: createWatchWebsiteTool(user.id),
+                      compareSnapshots: createCompareSnapshotsTool(user.id),
+                      readSection: createReadSectionTool(user.id),
+                    },
+                    user.id,
+                  ),
+                  lastQuestion ?? "",
+                ),
+                {
+                  userId: user.id,
+                  conversationId,
+                  writer,
+                  meter,
+                },
+              ),
+            ),
+            new SourceRegistry(collectSources(lastMessage)),
+          ),
+          requestSpan,
+        ),
+        writer,
+      );
+      if (body.mode === "research" && lastMessage?.role === "user") {
+        const question = lastMessage.parts
+          .map((part) => (part.type === "text" ? part.text : ""))
+          .join("")
+          .trim();
+        const report = await runResearch({
+          question,
+          model: resolved.model,
+          writer,
+          runTool: createResearchToolRunner(tools, writer),
+          config: researchConfig,
+          // Research runs unattended, so skip pages that would need approval
+          isAllowedUrl: (url) =>
+            !approvalReason(approvalPolicy, "scrapeWebsite", { url }),
+          onUsage: (usage) => meter.addTokens(usage),
+          parentSpan: requestSpan,
+        });
+        report.consumeStream();
+        writer.merge(
+          report.toUIMessageStream({
+            originalMessages: uiMessages,
+            messageMetadata,
+          }),
+        );
+        return;
+      }
+
+      const messages = await resolveApprovalResponses(
+        uiMessages,
+        writer,
+        tools,
+        storedApprovals,
+      );
+      const steps = createStepTracker(writer, countSteps(lastMessage));
+      const modelSpan = tracer.startSpan("ai.streamText", {
+        parent: requestSpan,
+        kind: "client",
+        attributes: {
+          "gen_ai.operation.name": "chat",
+          "gen_ai.request.model": resolved.option.id,
+        },
+      });
+
+      const result = streamText({
+        model: resolved.model,
+        system: [
+          "You are a helpful AI assistant with access to web scraping and search capabilities.",
+          "You can help users research companies, topics, and gather information from the web using your tools.",
+          "Only use tools when the user explicitly asks for information that requires web search or scraping.",
+          "IMPORTANT: After using any tool, you MUST provide a clear, natural-language summary of the results to the user.",
+          "Never just call a tool and stop - always follow up with an analysis or summary.",
+          "Format your responses using proper Markdown syntax:",
+          "- Use **bold** for emphasis",
+          "- Use ## for section headers",
+          "- Use - or * for unordered lists",
+          "- Use numbered lists (1., 2., etc.) for ordered items",
+          "- Use `code` for technical terms",
+          "Whenever the user specifies a website use the scrapeWebsite tool, otherwise use the searchWeb tool.",
+          "If content is hidden behind tabs, \"load more\" buttons or cookie banners, pass actions to scrapeWebsite (click, wait, scroll, write, press, screenshot).",
+          "If a scrape reports redirected: true, tell the user which URL the page redirected to. Request the links format when you need to follow links from a page.",
+          "When you need to know which pages a site has before scraping, use the mapWebsite tool.",
+          "When the user wants specific facts (pricing tiers, headcount, funding, contact emails), use the extractStructuredData tool instead of scraping the whole page.",
+          "When the user gives more than two URLs to scrape, use the batchScrape tool once instead of calling scrapeWebsite for each.",
+          "When the user asks about a whole site or section (e.g. \"their docs\"), use the crawlWebsite tool instead of scraping pages one by one.",
+          "Long pages come back from scrapeWebsite as contents plus the sections most relevant to the question. If the answer isn't in those sections, call readSection with the ids of the sections that look relevant rather than scraping again.",
+          "Every scrape is stored as a snapshot. When the user asks what changed on a page since an earlier scrape, scrape it again with fresh: true and then call compareSnapshots.",
+          "When the user wants to monitor a page or be told when it changes, use the watchWebsite tool; scope it with section or selectors when they care about one part of the page.",
+          "Scrape and search results are cached; pass fresh: true only when the user asks for the latest version of a page or query.",
+          "If a tool result says the budget is exhausted, stop calling tools and answer with what you already have, telling the user which limit was hit.",
+          "If a tool result says it was blocked by the URL policy, do not retry it or work around it with another tool; tell the user the URL is blocked and why.",
+          "If a tool result says denied: true, do not retry the same call; respect the user's reason and adapt (e.g. use a different source or ask how to proceed).",
+          "Files the user attaches appear in their message as \"Attached file\" text (PDF, CSV and HTML are converted for you); use them alongside tool results and say which file a fact came from.",
+          "Tool results end with a \"Sources (cite as [n])\" list. Back every fact taken from a tool result with an inline citation like [1] or [2, 3] right after the sentence, using only numbers from those lists. Don't add your own sources list; the interface shows one.",
+          "Keep your responses concise and helpful.",
+        ].join("\n"),
+        messages: convertToModelMessages(messages, {
+          convertDataPart: (part) =>
+            part.type === "data-attachment"
+              ? attachmentTextPart(part.data as AttachmentText)
+              : undefined,
+        }),
+        tools: steps.withToolTimings(withApprovalPolicy(tools, requestedApprovals)),
+        toolChoice: "auto",
+        stopWhen: [stepCountIs(5), stopOnApprovalRequest],
+        maxOutputTokens: 1500,
+        prepareStep: steps.prepareStep,
+        onStepFinish: steps.onStepFinish,
+        onFinish: ({ totalUsage, finishReason, steps: finishedSteps }) => {
+          modelSpan
+            .setAttributes({
+              "gen_ai.usage.input_tokens": totalUsage.inputTokens,
+              "gen_ai.usage.output_tokens": totalUsage.outputTokens,
+              "gen_ai.response.finish_reasons": finishReason,
+              "ai.steps": finishedSteps.length,
+            })
+            .end();
+        },
+        onError: ({ error }) => {
+          logger.error("Model stream failed", {
+            model: resolved.option.id,
+            errorType: errorType(error),
+            error: error instanceof Error ? error.message : String(error),
+          });
+          modelSpan.recordError(error).end();
+        },
+        onAbort: () => {
+          modelSpan.setAttributes({ "ai.aborted": true }).end();
+        },
+      });
+
+      // Keep generating (and saving) even if the client disconnects mid-answer
+      result.consumeStream();
+
+      writer.merge(
+        result.toUIMessageStream({ originalMessages: uiMessages, messageMetadata }),
+      );
+    },
+    onError: (error) => {
+      requestSpan.recordError(error);
+      logger.error("Chat request failed", {
+        requestId,
+        conversationId,
+        errorType: errorType(error),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return error instanceof Error ? error.message : String(error);
+    },
+    onFinish: async ({ messages: finalMessages }) => {
+      requestSpan.end();
+      if (!conversationId) return;
+      await saveConversationMessages(
+        conversationStore,
+        conversationId,
+        finalMessages,
+        user.id,
+        [
+          ...storedApprovals.filter(
+            (request) => !answeredApprovals.has(request.toolCallId),
+          ),
+          ...requestedApprovals,
+        ],
+      );
+    },
+  });
+
+  return createUIMessageStreamResponse({
+    stream,
+    headers: { "X-Request-Id": requestId },
+    consumeSseStream: ({ stream: sseStream }) => {
+      if (!conversationId) return;
+      // Buffer the SSE chunks so GET /api/chat/[id]/stream can replay them
+      void resumableStreams.record(
+        conversationId,
+        generateStreamId(),
+        sseStream,
+      );
+    },
+  });
 }
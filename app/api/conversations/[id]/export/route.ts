@@ -0,0 +1,63 @@
+/**
+ * Conversation Export API Route
+ *
+ * Downloads a saved conversation as a Markdown report or a raw JSON dump of
+ * its UIMessage[]. The printable version lives at /conversations/[id]/print.
+ */
+
+import { NextResponse } from "next/server";
+
+import { requireUser, workspaceIdsOf } from "@/lib/auth";
+import {
+  conversationAccess,
+  createConversationStore,
+} from "@/lib/conversations";
+import { conversationToMarkdown, exportFileName } from "@/lib/report";
+
+const store = createConversationStore();
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/conversations/[id]/export?format=markdown|json
+ * Returns the conversation as a file download (Markdown by default)
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  const { user, response } = await requireUser(req);
+  if (!user) return response;
+
+  const { id } = await params;
+  const format = new URL(req.url).searchParams.get("format") ?? "markdown";
+  if (format !== "markdown" && format !== "json") {
+    return NextResponse.json(
+      { error: 'format must be "markdown" or "json".' },
+      { status: 400 },
+    );
+  }
+
+  const conversation = await store.get(id);
+  if (
+    !conversation ||
+    !conversationAccess(conversation, user.id, await workspaceIdsOf(user.id))
+  ) {
+    return NextResponse.json({ error: "Conversation not found." }, { status: 404 });
+  }
+
+  const [body, contentType, extension] =
+    format === "json"
+      ? [
+          JSON.stringify(conversation.messages, null, 2),
+          "application/json",
+          "json",
+        ]
+      : [conversationToMarkdown(conversation), "text/markdown", "md"];
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": `${contentType}; charset=utf-8`,
+      "Content-Disposition": `attachment; filename="${exportFileName(conversation.title, extension)}"`,
+    },
+  });
+}
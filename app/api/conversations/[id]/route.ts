@@ -0,0 +1,119 @@
+/**
+ * Conversation API Route
+ *
+ * Reads, renames, shares and deletes a single saved conversation.
+ */
+
+import { NextResponse } from "next/server";
+
+import { requireUser, workspaceIdsOf } from "@/lib/auth";
+import {
+  conversationAccess,
+  createConversationStore,
+  toSummary,
+} from "@/lib/conversations";
+
+const store = createConversationStore();
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+type UpdateConversationRequest = {
+  title?: string;
+  /** Workspace to share the conversation with read-only; null stops sharing */
+  workspaceId?: string | null;
+};
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/conversations/[id]
+ * Returns the conversation including its stored UIMessage[], and whether the
+ * user owns it or can only view it
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  const { user, response } = await requireUser(req);
+  if (!user) return response;
+
+  const { id } = await params;
+  const conversation = await store.get(id);
+  const access =
+    conversation &&
+    conversationAccess(conversation, user.id, await workspaceIdsOf(user.id));
+  if (!conversation || !access) {
+    return NextResponse.json({ error: "Conversation not found." }, { status: 404 });
+  }
+  return NextResponse.json({ conversation, access });
+}
+
+/**
+ * PATCH /api/conversations/[id]
+ * Renames a conversation and/or shares it with one of the owner's workspaces
+ */
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const { user, response } = await requireUser(req);
+  if (!user) return response;
+
+  const { id } = await params;
+
+  let body: UpdateConversationRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload." }, { status: 400 });
+  }
+
+  const title = body.title?.trim();
+  if (body.title !== undefined && !title) {
+    return NextResponse.json({ error: "Title is required." }, { status: 400 });
+  }
+  if (title === undefined && body.workspaceId === undefined) {
+    return NextResponse.json(
+      { error: "Provide a title or a workspaceId." },
+      { status: 400 },
+    );
+  }
+
+  const conversation = await store.get(id);
+  if (!conversation || conversation.ownerId !== user.id) {
+    return NextResponse.json({ error: "Conversation not found." }, { status: 404 });
+  }
+
+  if (
+    body.workspaceId &&
+    !(await workspaceIdsOf(user.id)).includes(body.workspaceId)
+  ) {
+    return NextResponse.json(
+      { error: "You are not a member of that workspace." },
+      { status: 403 },
+    );
+  }
+
+  const updated = {
+    ...conversation,
+    title: title ? title.slice(0, 120) : conversation.title,
+    workspaceId:
+      body.workspaceId === undefined
+        ? conversation.workspaceId
+        : body.workspaceId || undefined,
+    updatedAt: new Date().toISOString(),
+  };
+  await store.save(updated);
+  return NextResponse.json({ conversation: toSummary(updated) });
+}
+
+/**
+ * DELETE /api/conversations/[id]
+ * Permanently removes a conversation
+ */
+export async function DELETE(req: Request, { params }: RouteContext) {
+  const { user, response } = await requireUser(req);
+  if (!user) return response;
+
+  const { id } = await params;
+  const conversation = await store.get(id);
+  if (!conversation || conversation.ownerId !== user.id) {
+    return NextResponse.json({ error: "Conversation not found." }, { status: 404 });
+  }
+  await store.delete(id);
+  return NextResponse.json({ ok: true });
+}
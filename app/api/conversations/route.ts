@@ -0,0 +1,85 @@
+/**
+ * Conversations API Route
+ *
+ * Lists and creates the signed-in user's saved chat conversations.
+ */
+
+import { NextResponse } from "next/server";
+import { nanoid } from "nanoid";
+import type { UIMessage } from "ai";
+
+import { requireUser, workspaceIdsOf } from "@/lib/auth";
+import {
+  conversationAccess,
+  createConversationStore,
+  toSummary,
+  type Conversation,
+} from "@/lib/conversations";
+import { isUIMessageArray } from "@/lib/report";
+
+const store = createConversationStore();
+
+type CreateConversationRequest = {
+  title?: string;
+  messages?: UIMessage[];
+};
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/conversations?q=
+ * Lists the user's conversations and those shared with their workspaces,
+ * newest first, optionally filtered by a search term. Each summary says
+ * whether the user owns it or can only view it.
+ */
+export async function GET(req: Request) {
+  const { user, response } = await requireUser(req);
+  if (!user) return response;
+
+  const query = new URL(req.url).searchParams.get("q") ?? undefined;
+  const workspaceIds = await workspaceIdsOf(user.id);
+  const conversations = (await store.list({ query })).flatMap((summary) => {
+    const access = conversationAccess(summary, user.id, workspaceIds);
+    return access ? [{ ...summary, access }] : [];
+  });
+  return NextResponse.json({ conversations });
+}
+
+/**
+ * POST /api/conversations
+ * Creates an empty (or pre-filled, e.g. imported) conversation and returns its summary
+ */
+export async function POST(req: Request) {
+  const { user, response } = await requireUser(req);
+  if (!user) return response;
+
+  let body: CreateConversationRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload." }, { status: 400 });
+  }
+
+  if (body.messages !== undefined && !isUIMessageArray(body.messages)) {
+    return NextResponse.json(
+      { error: "messages must be a UIMessage[] array." },
+      { status: 400 },
+    );
+  }
+
+  const now = new Date().toISOString();
+  const conversation: Conversation = {
+    id: nanoid(),
+    title: body.title?.trim() || "New chat",
+    createdAt: now,
+    updatedAt: now,
+    ownerId: user.id,
+    messages: body.messages ?? [],
+  };
+
+  await store.save(conversation);
+  return NextResponse.json(
+    { conversation: toSummary(conversation) },
+    { status: 201 },
+  );
+}
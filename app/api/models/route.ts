@@ -0,0 +1,22 @@
+/**
+ * Models API Route
+ *
+ * Lists the allowlisted chat models so the UI can offer a model picker.
+ */
+
+import { NextResponse } from "next/server";
+
+import { getDefaultModel, listModels } from "@/lib/models";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/models
+ * Returns the allowlisted models, whether their provider is configured, and the default
+ */
+export async function GET() {
+  return NextResponse.json({
+    models: listModels(),
+    defaultModel: getDefaultModel()?.id ?? null,
+  });
+}
@@ -0,0 +1,38 @@
+/**
+ * Monitor Check API Route
+ *
+ * Runs a monitor's check right away instead of waiting for its schedule.
+ */
+
+import { NextResponse } from "next/server";
+
+import { requireUser } from "@/lib/auth";
+import { checkMonitor } from "@/lib/monitor-scheduler";
+import { monitorStore } from "@/lib/monitors";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/monitors/[id]/check
+ * Re-scrapes the page now and returns the outcome and the updated monitor
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+  const { user, response } = await requireUser(req);
+  if (!user) return response;
+
+  const { id } = await params;
+  const monitor = await monitorStore.getMonitor(id);
+  if (!monitor || monitor.ownerId !== user.id) {
+    return NextResponse.json({ error: "Monitor not found." }, { status: 404 });
+  }
+
+  const check = await checkMonitor(monitor);
+  return NextResponse.json({
+    monitor: (await monitorStore.getMonitor(id)) ?? monitor,
+    check: check.status,
+    error: check.status === "error" ? check.error : undefined,
+    notification: check.status === "changed" ? check.notification : undefined,
+  });
+}
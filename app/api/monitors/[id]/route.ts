@@ -0,0 +1,111 @@
+/**
+ * Monitor API Route
+ *
+ * Updates, pauses and deletes one of the user's monitors.
+ */
+
+import { NextResponse } from "next/server";
+
+import { requireUser } from "@/lib/auth";
+import { validateMonitorInput, type MonitorInput } from "@/lib/monitor-scheduler";
+import { monitorStore, nextCheckAt, type Monitor } from "@/lib/monitors";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+type UpdateMonitorRequest = MonitorInput & {
+  status?: Monitor["status"];
+};
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/monitors/[id]
+ * Returns a monitor with its stored snapshots, oldest first
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  const { user, response } = await requireUser(req);
+  if (!user) return response;
+
+  const { id } = await params;
+  const monitor = await monitorStore.getMonitor(id);
+  if (!monitor || monitor.ownerId !== user.id) {
+    return NextResponse.json({ error: "Monitor not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    monitor,
+    snapshots: await monitorStore.listSnapshots(id),
+  });
+}
+
+/**
+ * PATCH /api/monitors/[id]
+ * Changes a monitor's URL, schedule, scope or webhook, or pauses/resumes it
+ */
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const { user, response } = await requireUser(req);
+  if (!user) return response;
+
+  const { id } = await params;
+  const monitor = await monitorStore.getMonitor(id);
+  if (!monitor || monitor.ownerId !== user.id) {
+    return NextResponse.json({ error: "Monitor not found." }, { status: 404 });
+  }
+
+  let body: UpdateMonitorRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload." }, { status: 400 });
+  }
+
+  if (body.status !== undefined && body.status !== "active" && body.status !== "paused") {
+    return NextResponse.json(
+      { error: 'Status must be "active" or "paused".' },
+      { status: 400 },
+    );
+  }
+
+  const validated = await validateMonitorInput(body, monitor);
+  if (!validated.ok) {
+    return NextResponse.json({ error: validated.error }, { status: 400 });
+  }
+
+  // Applied to the stored copy so a check finishing meanwhile isn't undone
+  const updated = await monitorStore.updateMonitor(id, (current): Monitor => {
+    const status = body.status ?? current.status;
+    return {
+      ...current,
+      ...validated.value,
+      status,
+      // Resuming or changing the schedule restarts the countdown from now
+      nextCheckAt:
+        (status === "active" && current.status === "paused") ||
+        validated.value.schedule !== current.schedule
+          ? nextCheckAt(validated.value.schedule)
+          : current.nextCheckAt,
+    };
+  });
+  if (!updated) {
+    return NextResponse.json({ error: "Monitor not found." }, { status: 404 });
+  }
+  return NextResponse.json({ monitor: updated });
+}
+
+/**
+ * DELETE /api/monitors/[id]
+ * Deletes a monitor with its snapshots and notifications
+ */
+export async function DELETE(req: Request, { params }: RouteContext) {
+  const { user, response } = await requireUser(req);
+  if (!user) return response;
+
+  const { id } = await params;
+  const monitor = await monitorStore.getMonitor(id);
+  if (!monitor || monitor.ownerId !== user.id) {
+    return NextResponse.json({ error: "Monitor not found." }, { status: 404 });
+  }
+
+  await monitorStore.deleteMonitor(id);
+  return NextResponse.json({ success: true });
+}
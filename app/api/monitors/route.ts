@@ -0,0 +1,60 @@
+/**
+ * Monitors API Route
+ *
+ * Lists and creates the user's scheduled page monitors.
+ */
+
+import { NextResponse } from "next/server";
+
+import { requireUser } from "@/lib/auth";
+import {
+  checkMonitor,
+  registerMonitor,
+  type MonitorInput,
+} from "@/lib/monitor-scheduler";
+import { monitorStore } from "@/lib/monitors";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/monitors
+ * Lists the user's monitors, newest first
+ */
+export async function GET(req: Request) {
+  const { user, response } = await requireUser(req);
+  if (!user) return response;
+
+  const monitors = await monitorStore.listMonitors(user.id);
+  return NextResponse.json({
+    monitors: [...monitors].sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+  });
+}
+
+/**
+ * POST /api/monitors
+ * Creates a monitor (or updates the one with the same URL and scope) and
+ * takes its baseline snapshot
+ */
+export async function POST(req: Request) {
+  const { user, response } = await requireUser(req);
+  if (!user) return response;
+
+  let body: MonitorInput;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload." }, { status: 400 });
+  }
+
+  const registered = await registerMonitor(user.id, body);
+  if (!registered.ok) {
+    return NextResponse.json({ error: registered.error }, { status: 400 });
+  }
+
+  const check = await checkMonitor(registered.monitor);
+  const monitor = (await monitorStore.getMonitor(registered.monitor.id)) ?? registered.monitor;
+  return NextResponse.json(
+    { monitor, check: check.status },
+    { status: registered.created ? 201 : 200 },
+  );
+}
@@ -0,0 +1,55 @@
+/**
+ * Notifications API Route
+ *
+ * Lists the user's change notifications from monitored pages and marks them
+ * as read.
+ */
+
+import { NextResponse } from "next/server";
+
+import { requireUser } from "@/lib/auth";
+import { monitorStore } from "@/lib/monitors";
+
+type MarkReadRequest = {
+  /** Notifications to mark as read; all of them when left out */
+  ids?: string[];
+};
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/notifications
+ * Lists notifications, newest first, with the number still unread
+ */
+export async function GET(req: Request) {
+  const { user, response } = await requireUser(req);
+  if (!user) return response;
+
+  const notifications = await monitorStore.listNotifications(user.id);
+  return NextResponse.json({
+    notifications,
+    unread: notifications.filter((notification) => !notification.readAt).length,
+  });
+}
+
+/**
+ * PATCH /api/notifications
+ * Marks the given notifications (or all) as read
+ */
+export async function PATCH(req: Request) {
+  const { user, response } = await requireUser(req);
+  if (!user) return response;
+
+  let body: MarkReadRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload." }, { status: 400 });
+  }
+
+  const ids = Array.isArray(body.ids)
+    ? body.ids.filter((id): id is string => typeof id === "string")
+    : undefined;
+  await monitorStore.markNotificationsRead(user.id, ids);
+  return NextResponse.json({ success: true });
+}
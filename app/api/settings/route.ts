@@ -0,0 +1,62 @@
+/**
+ * Settings API Route
+ *
+ * Reads and updates the signed-in user's saved preferences.
+ */
+
+import { NextResponse } from "next/server";
+
+import { requireUser, userStore } from "@/lib/auth";
+import type { UserSettings } from "@/lib/users";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/settings
+ */
+export async function GET(req: Request) {
+  const { user, response } = await requireUser(req);
+  if (!user) return response;
+  return NextResponse.json({ settings: user.settings });
+}
+
+/**
+ * PATCH /api/settings
+ * Merges the given settings into the saved ones
+ */
+export async function PATCH(req: Request) {
+  const { user, response } = await requireUser(req);
+  if (!user) return response;
+
+  let body: UserSettings;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload." }, { status: 400 });
+  }
+
+  if (body.model !== undefined && typeof body.model !== "string") {
+    return NextResponse.json({ error: "model must be a string." }, { status: 400 });
+  }
+  if (body.theme !== undefined && body.theme !== "light" && body.theme !== "dark") {
+    return NextResponse.json(
+      { error: 'theme must be "light" or "dark".' },
+      { status: 400 },
+    );
+  }
+
+  // Merge into the stored settings, so concurrent changes (e.g. theme and
+  // model) both stick
+  const updated = await userStore.updateUser(user.id, (latest) => ({
+    ...latest,
+    settings: {
+      ...latest.settings,
+      ...(body.model !== undefined ? { model: body.model } : {}),
+      ...(body.theme !== undefined ? { theme: body.theme } : {}),
+    },
+  }));
+  if (!updated) {
+    return NextResponse.json({ error: "Sign in required." }, { status: 401 });
+  }
+  return NextResponse.json({ settings: updated.settings });
+}
@@ -0,0 +1,39 @@
+/**
+ * Traces API Route
+ *
+ * Returns the spans recorded for one chat request, for the debug view.
+ */
+
+import { NextResponse } from "next/server";
+
+import { requireUser } from "@/lib/auth";
+import { tracer } from "@/lib/tracing";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/traces/[id]
+ * Lists a trace's spans, oldest first; only the user who made the request can read it
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  const { user, response } = await requireUser(req);
+  if (!user) return response;
+
+  const { id } = await params;
+  if (!/^[0-9a-f]{32}$/.test(id)) {
+    return NextResponse.json({ error: "Trace not found." }, { status: 404 });
+  }
+
+  // Every span of a chat request carries the user who made it
+  const spans = await tracer.getTrace(id);
+  if (
+    spans.length === 0 ||
+    spans.some((span) => span.attributes["enduser.id"] !== user.id)
+  ) {
+    return NextResponse.json({ error: "Trace not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ spans });
+}
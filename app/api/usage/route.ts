@@ -0,0 +1,29 @@
+/**
+ * Usage API Route
+ *
+ * Reports the signed-in user's remaining request, tool-call and Firecrawl credit budget.
+ */
+
+import { NextResponse } from "next/server";
+
+import { requireUser } from "@/lib/auth";
+import { isValidConversationId } from "@/lib/conversations";
+import { usageTracker } from "@/lib/usage-limits";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/usage?conversationId=<id>
+ * Returns the remaining budget; tool calls are counted for the given conversation
+ */
+export async function GET(req: Request) {
+  const { user, response } = await requireUser(req);
+  if (!user) return response;
+
+  const id = new URL(req.url).searchParams.get("conversationId") ?? undefined;
+  const conversationId = isValidConversationId(id) ? id : undefined;
+
+  return NextResponse.json({
+    usage: usageTracker.summary(user.id, conversationId),
+  });
+}
@@ -0,0 +1,92 @@
+/**
+ * Workspace Members API Route
+ *
+ * Adds and removes workspace members. Members can read every conversation
+ * shared with the workspace.
+ */
+
+import { NextResponse } from "next/server";
+
+import { requireUser, userStore } from "@/lib/auth";
+import { toPublicUser } from "@/lib/users";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+type AddMemberRequest = {
+  email?: string;
+};
+
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/workspaces/[id]/members
+ * Adds an existing user by email; only the workspace owner can add members
+ */
+export async function POST(req: Request, { params }: RouteContext) {
+  const { user, response } = await requireUser(req);
+  if (!user) return response;
+
+  const { id } = await params;
+  const workspace = await userStore.getWorkspace(id);
+  if (!workspace || !workspace.memberIds.includes(user.id)) {
+    return NextResponse.json({ error: "Workspace not found." }, { status: 404 });
+  }
+  if (workspace.ownerId !== user.id) {
+    return NextResponse.json(
+      { error: "Only the workspace owner can add members." },
+      { status: 403 },
+    );
+  }
+
+  let body: AddMemberRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload." }, { status: 400 });
+  }
+
+  const member =
+    typeof body.email === "string" ? await userStore.getUserByEmail(body.email) : null;
+  if (!member) {
+    return NextResponse.json(
+      { error: "No user with that email. Ask them to sign up first." },
+      { status: 404 },
+    );
+  }
+
+  if (!(await userStore.addWorkspaceMember(workspace.id, member.id))) {
+    return NextResponse.json({ error: "Workspace not found." }, { status: 404 });
+  }
+  return NextResponse.json({ member: toPublicUser(member) });
+}
+
+/**
+ * DELETE /api/workspaces/[id]/members?userId=
+ * The owner removes a member, or a member leaves by removing themselves
+ */
+export async function DELETE(req: Request, { params }: RouteContext) {
+  const { user, response } = await requireUser(req);
+  if (!user) return response;
+
+  const { id } = await params;
+  const memberId = new URL(req.url).searchParams.get("userId") ?? user.id;
+  const workspace = await userStore.getWorkspace(id);
+  if (!workspace || !workspace.memberIds.includes(user.id)) {
+    return NextResponse.json({ error: "Workspace not found." }, { status: 404 });
+  }
+  if (memberId !== user.id && workspace.ownerId !== user.id) {
+    return NextResponse.json(
+      { error: "Only the workspace owner can remove other members." },
+      { status: 403 },
+    );
+  }
+  if (memberId === workspace.ownerId) {
+    return NextResponse.json(
+      { error: "The owner can't leave their own workspace." },
+      { status: 400 },
+    );
+  }
+
+  await userStore.removeWorkspaceMember(workspace.id, memberId);
+  return NextResponse.json({ ok: true });
+}
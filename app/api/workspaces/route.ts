@@ -0,0 +1,69 @@
+/**
+ * Workspaces API Route
+ *
+ * Lists and creates the workspaces conversations can be shared with.
+ */
+
+import { NextResponse } from "next/server";
+import { nanoid } from "nanoid";
+
+import { requireUser, userStore } from "@/lib/auth";
+import { toPublicUser, type Workspace } from "@/lib/users";
+
+type CreateWorkspaceRequest = {
+  name?: string;
+};
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/workspaces
+ * Lists the user's workspaces with their members
+ */
+export async function GET(req: Request) {
+  const { user, response } = await requireUser(req);
+  if (!user) return response;
+
+  const workspaces = await userStore.listWorkspaces(user.id);
+  const members = new Map(
+    (await userStore.listUsers()).map((member) => [member.id, toPublicUser(member)]),
+  );
+
+  return NextResponse.json({
+    workspaces: workspaces.map((workspace) => ({
+      ...workspace,
+      members: workspace.memberIds.flatMap((id) => members.get(id) ?? []),
+    })),
+  });
+}
+
+/**
+ * POST /api/workspaces
+ * Creates a workspace owned by the user, who becomes its first member
+ */
+export async function POST(req: Request) {
+  const { user, response } = await requireUser(req);
+  if (!user) return response;
+
+  let body: CreateWorkspaceRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload." }, { status: 400 });
+  }
+
+  const name = body.name?.trim();
+  if (!name) {
+    return NextResponse.json({ error: "Name is required." }, { status: 400 });
+  }
+
+  const workspace: Workspace = {
+    id: nanoid(),
+    name: name.slice(0, 80),
+    ownerId: user.id,
+    memberIds: [user.id],
+    createdAt: new Date().toISOString(),
+  };
+  await userStore.saveWorkspace(workspace);
+  return NextResponse.json({ workspace }, { status: 201 });
+}
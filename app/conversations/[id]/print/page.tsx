@@ -0,0 +1,147 @@
+import type { Metadata } from "next";
+import { cookies } from "next/headers";
+import { notFound } from "next/navigation";
+
+import { PrintButton } from "@/components/ai-elements/elements/print-button";
+import { Response } from "@/components/ai-elements/elements/response";
+import {
+  Sources,
+  SourcesItem,
+} from "@/components/ai-elements/elements/sources";
+import { sessionUserFromToken, workspaceIdsOf } from "@/lib/auth";
+import { collectSources, linkCitations } from "@/lib/citations";
+import {
+  conversationAccess,
+  createConversationStore,
+} from "@/lib/conversations";
+import { messageText, reportToolCalls } from "@/lib/report";
+import { SESSION_COOKIE } from "@/lib/session";
+
+const store = createConversationStore();
+
+type PageProps = { params: Promise<{ id: string }> };
+
+export const dynamic = "force-dynamic";
+
+export async function generateMetadata({
+  params,
+}: PageProps): Promise<Metadata> {
+  const { id } = await params;
+  const conversation = await getReadableConversation(id);
+  return { title: conversation ? `${conversation.title} — Report` : "Report" };
+}
+
+/**
+ * Loads a conversation the signed-in user owns or can view, or null.
+ */
+async function getReadableConversation(id: string) {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  const user = await sessionUserFromToken(token);
+  const conversation = user ? await store.get(id) : null;
+  if (
+    !user ||
+    !conversation ||
+    !conversationAccess(conversation, user.id, await workspaceIdsOf(user.id))
+  ) {
+    return null;
+  }
+  return conversation;
+}
+
+/**
+ * Printable research report for a saved conversation. Use the browser's
+ * print dialog to save it as PDF.
+ */
+export default async function ConversationPrintPage({ params }: PageProps) {
+  const { id } = await params;
+  const conversation = await getReadableConversation(id);
+  if (!conversation) notFound();
+
+  return (
+    <main className="mx-auto flex max-w-3xl flex-col gap-8 bg-white px-8 py-10 text-zinc-900 print:max-w-none print:px-0 print:py-0">
+      <header className="flex items-start justify-between gap-4 border-b border-zinc-200 pb-4">
+        <div>
+          <h1 className="text-2xl font-bold">{conversation.title}</h1>
+          <p className="mt-1 text-xs text-zinc-500">
+            Started {new Date(conversation.createdAt).toLocaleString()} · last
+            updated {new Date(conversation.updatedAt).toLocaleString()}
+          </p>
+        </div>
+        <PrintButton />
+      </header>
+
+      {conversation.messages.map((message) => {
+        if (message.role === "system") return null;
+
+        if (message.role === "user") {
+          return (
+            <section key={message.id} className="break-inside-avoid">
+              <h2 className="text-xs font-semibold uppercase tracking-wide text-zinc-400">
+                Question
+              </h2>
+              <p className="mt-1 border-l-4 border-zinc-200 pl-3 text-base font-medium whitespace-pre-wrap">
+                {messageText(message)}
+              </p>
+            </section>
+          );
+        }
+
+        const answer = messageText(message);
+        const sources = collectSources(message);
+        const cited = new Set(
+          linkCitations(answer).markers.map((marker) => marker.id),
+        );
+        const toolCalls = reportToolCalls(message);
+
+        return (
+          <section key={message.id} className="flex flex-col gap-4">
+            <Response sources={sources.length ? sources : undefined}>
+              {answer}
+            </Response>
+
+            {sources.length ? (
+              <Sources>
+                {sources.map((source) => (
+                  <SourcesItem
+                    key={source.id}
+                    number={source.id}
+                    url={source.url}
+                    title={source.title}
+                    cited={cited.has(source.id)}
+                  />
+                ))}
+              </Sources>
+            ) : null}
+
+            {toolCalls.length ? (
+              <div className="flex flex-col gap-2 text-xs">
+                <h3 className="font-semibold uppercase tracking-wide text-zinc-400 text-[10px]">
+                  Research steps
+                </h3>
+                {toolCalls.map((call, index) => (
+                  <details
+                    key={`${message.id}-tool-${index}`}
+                    className="rounded-lg border border-zinc-200 p-2"
+                  >
+                    <summary className="cursor-pointer font-medium">
+                      {call.name}{" "}
+                      <span className="text-zinc-400">({call.state})</span>
+                    </summary>
+                    <p className="mt-2 font-semibold">Input</p>
+                    <pre className="mt-1 overflow-x-auto rounded bg-zinc-50 p-2 whitespace-pre-wrap">
+                      {JSON.stringify(call.input ?? {}, null, 2)}
+                    </pre>
+                    <p className="mt-2 font-semibold">Output</p>
+                    <pre className="mt-1 max-h-96 overflow-auto rounded bg-zinc-50 p-2 whitespace-pre-wrap print:max-h-none">
+                      {call.errorText ?? call.output ?? "(no output)"}
+                    </pre>
+                  </details>
+                ))}
+              </div>
+            ) : null}
+          </section>
+        );
+      })}
+    </main>
+  );
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import { useState, type FormEvent } from "react";
+import { Mail } from "lucide-react";
+
+import type { AuthMethod } from "@/lib/auth";
+
+const inputClass =
+  "w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm outline-none focus:border-black dark:border-zinc-700 dark:bg-zinc-950 dark:focus:border-zinc-100";
+
+const buttonClass =
+  "w-full rounded-xl bg-black px-3 py-2 text-sm font-medium text-white transition hover:bg-zinc-800 disabled:opacity-50 dark:bg-white dark:text-black dark:hover:bg-zinc-200";
+
+export function LoginForm({
+  methods,
+  allowSignup,
+  redirectTo,
+  initialError,
+}: {
+  methods: AuthMethod[];
+  allowSignup: boolean;
+  redirectTo: string;
+  initialError?: string;
+}) {
+  const [mode, setMode] = useState<"signin" | "register">("signin");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [name, setName] = useState("");
+  const [error, setError] = useState(initialError ?? null);
+  const [notice, setNotice] = useState<{ text: string; devLink?: string } | null>(
+    null,
+  );
+  const [pending, setPending] = useState(false);
+
+  const credentials = methods.includes("credentials");
+  const magicLink = methods.includes("magic-link");
+
+  const submitCredentials = async (event: FormEvent) => {
+    event.preventDefault();
+    // With only magic links enabled, Enter in the email field sends a link
+    if (!credentials) {
+      await sendMagicLink();
+      return;
+    }
+    setPending(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        mode === "register" ? "/api/auth/register" : "/api/auth/login",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email, password, name: name || undefined }),
+        },
+      );
+      if (!response.ok) {
+        const data = (await response.json().catch(() => ({}))) as { error?: string };
+        setError(data.error ?? "Sign-in failed.");
+        return;
+      }
+      window.location.assign(redirectTo);
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const sendMagicLink = async () => {
+    setPending(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch("/api/auth/magic-link", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+      const data = (await response.json().catch(() => ({}))) as {
+        error?: string;
+        devLink?: string;
+      };
+      if (!response.ok) {
+        setError(data.error ?? "Could not send the sign-in link.");
+        return;
+      }
+      setNotice({
+        text: `If ${email} can sign in, a link is on its way. It expires in 15 minutes.`,
+        devLink: data.devLink,
+      });
+    } finally {
+      setPending(false);
+    }
+  };
+
+
+  return (
+    <div className="flex w-full max-w-sm flex-col gap-4 rounded-2xl border border-zinc-200 bg-white p-6 shadow-sm dark:border-zinc-800 dark:bg-zinc-900">
+      <div>
+        <h1 className="text-lg font-semibold">
+          {mode === "register" ? "Create an account" : "Sign in"}
+        </h1>
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">
+          Sign in to chat, research and see your saved conversations.
+        </p>
+      </div>
+
+      <form onSubmit={submitCredentials} className="flex flex-col gap-3">
+        <input
+          type="email"
+          required
+          autoComplete="email"
+          placeholder="you@company.com"
+          value={email}
+          onChange={(event) => setEmail(event.target.value)}
+          className={inputClass}
+        />
+        {credentials && mode === "register" ? (
+          <input
+            type="text"
+            autoComplete="name"
+            placeholder="Name (optional)"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            className={inputClass}
+          />
+        ) : null}
+        {credentials ? (
+          <>
+            <input
+              type="password"
+              required
+              minLength={mode === "register" ? 8 : undefined}
+              autoComplete={mode === "register" ? "new-password" : "current-password"}
+              placeholder="Password"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              className={inputClass}
+            />
+            <button type="submit" disabled={pending} className={buttonClass}>
+              {mode === "register" ? "Create account" : "Sign in"}
+            </button>
+          </>
+        ) : null}
+      </form>
+
+      {magicLink ? (
+        <button
+          type="button"
+          disabled={pending || !email}
+          onClick={() => {
+            sendMagicLink().catch(() => setError("Could not send the sign-in link."));
+          }}
+          className="flex items-center justify-center gap-2 rounded-xl border border-zinc-200 px-3 py-2 text-sm text-zinc-600 transition hover:border-zinc-300 hover:text-zinc-800 disabled:opacity-50 dark:border-zinc-700 dark:text-zinc-300 dark:hover:border-zinc-500"
+        >
+          <Mail className="h-4 w-4" />
+          Email me a sign-in link
+        </button>
+      ) : null}
+
+      {error ? <p className="text-sm text-red-500">{error}</p> : null}
+      {notice ? (
+        <p className="text-sm text-zinc-600 dark:text-zinc-300">
+          {notice.text}
+          {notice.devLink ? (
+            <>
+              {" "}
+              <a
+                href={notice.devLink}
+                className="text-blue-600 underline underline-offset-4 dark:text-blue-400"
+              >
+                Open link (development only)
+              </a>
+            </>
+          ) : null}
+        </p>
+      ) : null}
+
+      {credentials && allowSignup ? (
+        <button
+          type="button"
+          onClick={() => {
+            setMode(mode === "register" ? "signin" : "register");
+            setError(null);
+          }}
+          className="text-xs text-zinc-500 underline underline-offset-4 hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200"
+        >
+          {mode === "register"
+            ? "Already have an account? Sign in"
+            : "New here? Create an account"}
+        </button>
+      ) : null}
+    </div>
+  );
+}
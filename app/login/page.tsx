@@ -0,0 +1,47 @@
+import type { Metadata } from "next";
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+
+import { createAuthConfig, sessionUserFromToken } from "@/lib/auth";
+import { SESSION_COOKIE } from "@/lib/session";
+
+import { LoginForm } from "./login-form";
+
+const authConfig = createAuthConfig();
+
+const errorMessages: Record<string, string> = {
+  "expired-link": "That sign-in link is invalid or has expired. Request a new one.",
+  "signup-disabled": "New accounts can't be created. Ask an admin to add you.",
+};
+
+type PageProps = {
+  searchParams: Promise<{ next?: string; error?: string }>;
+};
+
+export const metadata: Metadata = { title: "Sign in" };
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Sign-in page offering the enabled methods: email and password (with
+ * registration) and/or an emailed magic link.
+ */
+export default async function LoginPage({ searchParams }: PageProps) {
+  const { next, error } = await searchParams;
+  // Only follow same-site paths after signing in
+  const redirectTo = next?.startsWith("/") && !next.startsWith("//") ? next : "/";
+
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (await sessionUserFromToken(token)) redirect(redirectTo);
+
+  return (
+    <main className="flex min-h-screen items-center justify-center bg-gray-50 px-4 text-zinc-950 dark:bg-zinc-950 dark:text-zinc-100">
+      <LoginForm
+        methods={authConfig.methods}
+        allowSignup={authConfig.allowSignup}
+        redirectTo={redirectTo}
+        initialError={error ? errorMessages[error] : undefined}
+      />
+    </main>
+  );
+}
@@ -0,0 +1,336 @@
+'use client';
+
+import { useState, type FormEvent } from "react";
+import Link from "next/link";
+import { ArrowLeft, Pause, Play, RefreshCw, Trash2 } from "lucide-react";
+
+import type { Monitor, MonitorSchedule } from "@/lib/monitors";
+import { cn } from "@/lib/utils";
+
+const inputClass =
+  "w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm outline-none focus:border-black dark:border-zinc-700 dark:bg-zinc-950 dark:focus:border-zinc-100";
+
+const buttonClass =
+  "rounded-xl bg-black px-3 py-2 text-sm font-medium text-white transition hover:bg-zinc-800 disabled:opacity-50 dark:bg-white dark:text-black dark:hover:bg-zinc-200";
+
+const checkLabels: Record<string, string> = {
+  baseline: "Saved the first snapshot.",
+  unchanged: "No change since the last snapshot.",
+  changed: "The page changed; a notification was added.",
+};
+
+export function MonitorsPanel({
+  initialMonitors,
+  schedules,
+}: {
+  initialMonitors: Monitor[];
+  schedules: Record<MonitorSchedule, { label: string }>;
+}) {
+  const [monitors, setMonitors] = useState(initialMonitors);
+  const [url, setUrl] = useState("");
+  const [schedule, setSchedule] = useState<MonitorSchedule>("daily");
+  const [section, setSection] = useState("");
+  const [selectors, setSelectors] = useState("");
+  const [webhookUrl, setWebhookUrl] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [pending, setPending] = useState<string | null>(null);
+
+  const replace = (monitor: Monitor) =>
+    setMonitors((current) =>
+      current.some((item) => item.id === monitor.id)
+        ? current.map((item) => (item.id === monitor.id ? monitor : item))
+        : [monitor, ...current],
+    );
+
+  const addMonitor = async (event: FormEvent) => {
+    event.preventDefault();
+    setPending("new");
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch("/api/monitors", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          url,
+          schedule,
+          section: section || undefined,
+          selectors: selectors
+            ? selectors.split(",").map((selector) => selector.trim())
+            : undefined,
+          webhookUrl: webhookUrl || undefined,
+        }),
+      });
+      const data = (await response.json().catch(() => ({}))) as {
+        monitor?: Monitor;
+        check?: string;
+        error?: string;
+      };
+      if (!response.ok || !data.monitor) {
+        setError(data.error ?? "Could not add the monitor.");
+        return;
+      }
+      replace(data.monitor);
+      setNotice(
+        data.monitor.lastError
+          ? `Added, but the first check failed: ${data.monitor.lastError}`
+          : (checkLabels[data.check ?? ""] ?? "Added."),
+      );
+      setUrl("");
+      setSection("");
+      setSelectors("");
+      setWebhookUrl("");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const updateMonitor = async (id: string, changes: Partial<Monitor>) => {
+    setError(null);
+    const response = await fetch(`/api/monitors/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(changes),
+    });
+    const data = (await response.json().catch(() => ({}))) as {
+      monitor?: Monitor;
+      error?: string;
+    };
+    if (!response.ok || !data.monitor) {
+      setError(data.error ?? "Could not update the monitor.");
+      return;
+    }
+    replace(data.monitor);
+  };
+
+  const checkNow = async (id: string) => {
+    setPending(id);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(`/api/monitors/${id}/check`, { method: "POST" });
+      const data = (await response.json().catch(() => ({}))) as {
+        monitor?: Monitor;
+        check?: string;
+        error?: string;
+      };
+      if (data.monitor) replace(data.monitor);
+      if (!response.ok || data.check === "error") {
+        setError(data.error ?? "The check failed.");
+        return;
+      }
+      setNotice(checkLabels[data.check ?? ""] ?? null);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const deleteMonitor = async (id: string) => {
+    setError(null);
+    const response = await fetch(`/api/monitors/${id}`, { method: "DELETE" });
+    if (!response.ok) {
+      setError("Could not delete the monitor.");
+      return;
+    }
+    setMonitors((current) => current.filter((item) => item.id !== id));
+  };
+
+  return (
+    <div className="mx-auto flex w-full max-w-3xl flex-col gap-6">
+      <div className="flex flex-col gap-1">
+        <Link
+          href="/"
+          className="flex items-center gap-1 text-xs text-zinc-500 hover:text-zinc-800 dark:hover:text-zinc-100"
+        >
+          <ArrowLeft className="h-3 w-3" />
+          Back to chat
+        </Link>
+        <h1 className="text-lg font-semibold">Monitors</h1>
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">
+          Watched pages are re-scraped on their schedule. When the content
+          changes you get a notification with a summary of what changed, and
+          the webhook (if set) receives the diff.
+        </p>
+      </div>
+
+      <form
+        onSubmit={addMonitor}
+        className="flex flex-col gap-3 rounded-2xl border border-zinc-200 bg-white p-4 shadow-sm dark:border-zinc-800 dark:bg-zinc-900"
+      >
+        <div className="grid gap-3 sm:grid-cols-[minmax(0,1fr)_10rem]">
+          <input
+            type="url"
+            required
+            placeholder="https://competitor.com/pricing"
+            value={url}
+            onChange={(event) => setUrl(event.target.value)}
+            className={inputClass}
+          />
+          <select
+            value={schedule}
+            onChange={(event) => setSchedule(event.target.value as MonitorSchedule)}
+            className={inputClass}
+          >
+            {Object.entries(schedules).map(([value, option]) => (
+              <option key={value} value={value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="grid gap-3 sm:grid-cols-2">
+          <input
+            placeholder="Section heading (optional), e.g. Pricing"
+            value={section}
+            onChange={(event) => setSection(event.target.value)}
+            className={inputClass}
+          />
+          <input
+            placeholder="CSS selectors (optional), e.g. .pricing, #plans"
+            value={selectors}
+            onChange={(event) => setSelectors(event.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <input
+          type="url"
+          placeholder="Webhook URL (optional)"
+          value={webhookUrl}
+          onChange={(event) => setWebhookUrl(event.target.value)}
+          className={inputClass}
+        />
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-xs text-zinc-500 dark:text-zinc-400">
+            Each check uses one Firecrawl credit from your daily budget.
+          </p>
+          <button type="submit" disabled={pending === "new"} className={buttonClass}>
+            {pending === "new" ? "Adding…" : "Watch page"}
+          </button>
+        </div>
+      </form>
+
+      {error ? <p className="text-xs text-red-500">{error}</p> : null}
+      {notice ? (
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">{notice}</p>
+      ) : null}
+
+      <ul className="flex flex-col gap-2">
+        {monitors.length === 0 ? (
+          <li className="text-center text-sm text-zinc-400">
+            No pages watched yet.
+          </li>
+        ) : null}
+        {monitors.map((monitor) => (
+          <li
+            key={monitor.id}
+            className={cn(
+              "flex flex-col gap-2 rounded-xl border border-zinc-200 bg-white p-3 text-sm dark:border-zinc-800 dark:bg-zinc-900",
+              monitor.status === "paused" && "opacity-60",
+            )}
+          >
+            <div className="flex items-start justify-between gap-3">
+              <div className="flex min-w-0 flex-col">
+                <a
+                  href={monitor.url}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="truncate font-medium hover:underline"
+                >
+                  {monitor.url}
+                </a>
+                <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                  {[
+                    monitor.section ? `Section “${monitor.section}”` : null,
+                    monitor.selectors?.length
+                      ? `Selectors ${monitor.selectors.join(", ")}`
+                      : null,
+                    monitor.webhookUrl ? "Webhook on" : null,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ") || "Whole page"}
+                </span>
+              </div>
+              <div className="flex shrink-0 items-center gap-1">
+                <select
+                  value={monitor.schedule}
+                  onChange={(event) => {
+                    updateMonitor(monitor.id, {
+                      schedule: event.target.value as MonitorSchedule,
+                    }).catch(() => undefined);
+                  }}
+                  aria-label="Schedule"
+                  className="rounded-lg border border-zinc-200 bg-white px-2 py-1 text-xs dark:border-zinc-700 dark:bg-zinc-950"
+                >
+                  {Object.entries(schedules).map(([value, option]) => (
+                    <option key={value} value={value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => {
+                    checkNow(monitor.id).catch(() => undefined);
+                  }}
+                  disabled={pending === monitor.id}
+                  aria-label="Check now"
+                  title="Check now"
+                  className="rounded p-1.5 text-zinc-400 hover:text-zinc-800 disabled:animate-spin dark:hover:text-zinc-100"
+                >
+                  <RefreshCw className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    updateMonitor(monitor.id, {
+                      status: monitor.status === "active" ? "paused" : "active",
+                    }).catch(() => undefined);
+                  }}
+                  aria-label={monitor.status === "active" ? "Pause" : "Resume"}
+                  title={monitor.status === "active" ? "Pause" : "Resume"}
+                  className="rounded p-1.5 text-zinc-400 hover:text-zinc-800 dark:hover:text-zinc-100"
+                >
+                  {monitor.status === "active" ? (
+                    <Pause className="h-3.5 w-3.5" />
+                  ) : (
+                    <Play className="h-3.5 w-3.5" />
+                  )}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    deleteMonitor(monitor.id).catch(() => undefined);
+                  }}
+                  aria-label="Delete"
+                  title="Delete"
+                  className="rounded p-1.5 text-zinc-400 hover:text-red-600"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-zinc-400">
+              <span>
+                {monitor.lastCheckedAt
+                  ? `Checked ${new Date(monitor.lastCheckedAt).toLocaleString()}`
+                  : "Not checked yet"}
+              </span>
+              {monitor.lastChangedAt ? (
+                <span>Changed {new Date(monitor.lastChangedAt).toLocaleString()}</span>
+              ) : null}
+              {monitor.status === "active" ? (
+                <span>Next {new Date(monitor.nextCheckAt).toLocaleString()}</span>
+              ) : (
+                <span>Paused</span>
+              )}
+            </div>
+            {monitor.lastError ? (
+              <p className="text-xs text-red-500">{monitor.lastError}</p>
+            ) : null}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
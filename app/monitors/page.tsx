@@ -0,0 +1,36 @@
+import type { Metadata } from "next";
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+
+import { sessionUserFromToken } from "@/lib/auth";
+import { MONITOR_SCHEDULES, monitorStore } from "@/lib/monitors";
+import { SESSION_COOKIE } from "@/lib/session";
+
+import { MonitorsPanel } from "./monitors-panel";
+
+export const metadata: Metadata = { title: "Monitors" };
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Settings page for scheduled page monitors: add a URL with its schedule and
+ * scope, then pause, re-check or delete it.
+ */
+export default async function MonitorsPage() {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  const user = await sessionUserFromToken(token);
+  if (!user) redirect("/login?next=/monitors");
+
+  const monitors = await monitorStore.listMonitors(user.id);
+
+  return (
+    <main className="min-h-screen bg-gray-50 px-4 py-10 text-zinc-950 dark:bg-zinc-950 dark:text-zinc-100">
+      <MonitorsPanel
+        initialMonitors={[...monitors].sort((a, b) =>
+          b.createdAt.localeCompare(a.createdAt),
+        )}
+        schedules={MONITOR_SCHEDULES}
+      />
+    </main>
+  );
+}
@@ -1,34 +1,89 @@
 "use client";
 
 import React, { useCallback, useEffect, useState, type ReactNode } from "react";
+import Link from "next/link";
 import { useChat } from "@ai-sdk/react";
 import type {
   DynamicToolUIPart,
+  FileUIPart,
   ToolUIPart,
   UIMessage,
   UIMessagePart,
 } from "ai";
-import { CheckIcon, XIcon, Moon, Sun } from "lucide-react";
+import {
+  BookOpen,
+  Bug,
+  CheckIcon,
+  Eye,
+  FileText,
+  GitCompare,
+  Globe,
+  ListTree,
+  Layers,
+  Lock,
+  MapIcon,
+  Moon,
+  Network,
+  Search,
+  Sun,
+  TableIcon,
+  Telescope,
+  XIcon,
+  type LucideIcon,
+} from "lucide-react";
+import { nanoid } from "nanoid";
 
+import {
+  ChatHistory,
+  ChatHistoryAccount,
+  ChatHistoryEmpty,
+  ChatHistoryHeading,
+  ChatHistoryImportButton,
+  ChatHistoryItem,
+  ChatHistoryList,
+  ChatHistoryNewButton,
+  ChatHistorySearch,
+} from "@/components/ai-elements/elements/chat-history";
+import {
+  ChainOfThought,
+  ChainOfThoughtContent,
+  ChainOfThoughtHeader,
+  ChainOfThoughtSearchResult,
+  ChainOfThoughtSearchResults,
+  ChainOfThoughtStep,
+} from "@/components/ai-elements/elements/chain-of-thought";
 import {
   Conversation,
   ConversationContent,
   ConversationScrollButton,
 } from "@/components/ai-elements/elements/conversation";
+import {
+  ExportMenu,
+  ExportMenuItem,
+} from "@/components/ai-elements/elements/export-menu";
 import {
   Message,
+  MessageAttachment,
+  MessageAttachments,
   MessageAvatar,
   MessageContent,
 } from "@/components/ai-elements/elements/message";
+import { DiffView } from "@/components/ai-elements/elements/markdown-diff";
+import { Notifications } from "@/components/ai-elements/elements/notifications";
 import {
+  filesToFileUIParts,
   PromptInput,
+  PromptInputAddAttachments,
+  PromptInputAttachmentChip,
   PromptInputAttachments,
   PromptInputBody,
   PromptInputFooter,
   PromptInputHeader,
   PromptInputMessage,
+  PromptInputModelSelect,
   PromptInputSubmit,
   PromptInputTextarea,
+  PromptInputToggle,
 } from "@/components/ai-elements/elements/prompt-input";
 import {
   Reasoning,
@@ -36,11 +91,17 @@ import {
   ReasoningTrigger,
 } from "@/components/ai-elements/elements/reasoning";
 import { Response } from "@/components/ai-elements/elements/response";
+import {
+  Sources,
+  SourcesItem,
+  SourcesWarning,
+} from "@/components/ai-elements/elements/sources";
 import {
   Tool,
   ToolContent,
   ToolHeader,
   ToolInput,
+  ToolProgressLine,
   ToolOutput,
 } from "@/components/ai-elements/elements/tool";
 import {
@@ -48,6 +109,7 @@ import {
   ConfirmationAccepted,
   ConfirmationAction,
   ConfirmationActions,
+  ConfirmationReasonInput,
   ConfirmationRejected,
   ConfirmationRequest,
   ConfirmationTitle,
@@ -56,6 +118,46 @@ import {
   Suggestions,
   Suggestion,
 } from "@/components/ai-elements/elements/suggestion";
+import {
+  ConversationUsagePanel,
+  MessageUsage,
+} from "@/components/ai-elements/elements/token-usage";
+import { TraceView } from "@/components/ai-elements/elements/trace-view";
+import { UsageMeter } from "@/components/ai-elements/elements/usage-meter";
+import {
+  ShareSelect,
+  WorkspaceItem,
+  Workspaces,
+} from "@/components/ai-elements/elements/workspaces";
+import {
+  messageSteps,
+  resultDomains,
+  type MessageStep,
+} from "@/lib/agent-steps";
+import { approvalRequestIds, getToolApproval } from "@/lib/approval";
+import {
+  batchCounts,
+  type BatchScrapeProgress,
+  type BatchScrapeRow,
+} from "@/lib/batch-scrape";
+import { collectSources, linkCitations } from "@/lib/citations";
+import { messageAttachments, parseConversationImport } from "@/lib/report";
+import type { HunkLine, SectionDiff } from "@/lib/markdown-diff";
+import type { ResearchProgress } from "@/lib/research";
+import type { ToolProgress } from "@/lib/tool-progress";
+import {
+  conversationUsage,
+  getTraceIds,
+  getTurnUsage,
+} from "@/lib/turn-usage";
+import type { PolicyDenial } from "@/lib/url-policy";
+import type { BudgetExhausted, UsageSummary } from "@/lib/usage-limits";
+
+// Images go to the model as-is; PDF, CSV, HTML and text are converted on the server
+const ATTACHMENT_ACCEPT =
+  "image/*,application/pdf,text/csv,text/html,text/plain,text/markdown,.csv,.html,.htm,.md,.txt";
+const MAX_ATTACHMENTS = 5;
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
 
 const suggestions = [
   "Give me a quick company briefing for firecrawl.dev",
@@ -64,6 +166,36 @@ const suggestions = [
   "Who are the target customers for notion.so?",
 ];
 
+type ModelOption = {
+  id: string;
+  providerLabel: string;
+  modelId: string;
+  available: boolean;
+};
+
+type ConversationAccess = "owner" | "viewer";
+
+type ConversationSummary = {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  workspaceId?: string;
+  access: ConversationAccess;
+};
+
+type SessionUser = { id: string; email: string; name?: string };
+
+type UserSettings = { model?: string; theme?: "light" | "dark" };
+
+type WorkspaceInfo = {
+  id: string;
+  name: string;
+  ownerId: string;
+  members: SessionUser[];
+};
+
 const userAvatar = "https://avatar.vercel.sh/user";
 const assistantAvatar = "https://avatar.vercel.sh/assistant";
 
@@ -91,47 +223,509 @@ const Example = () => {
     }
   }, []);
 
-  // Handle theme toggle
+  const applyTheme = useCallback((dark: boolean) => {
+    setIsDarkMode(dark);
+    document.documentElement.classList.toggle("dark", dark);
+    localStorage.setItem("theme", dark ? "dark" : "light");
+  }, []);
+
+  // Handle theme toggle; the choice is saved to the user's settings
   const toggleDarkMode = useCallback(() => {
-    setIsDarkMode((prev) => {
-      const newValue = !prev;
-      if (newValue) {
-        document.documentElement.classList.add("dark");
-        localStorage.setItem("theme", "dark");
-      } else {
-        document.documentElement.classList.remove("dark");
-        localStorage.setItem("theme", "light");
-      }
-      return newValue;
-    });
+    const theme = isDarkMode ? "light" : "dark";
+    applyTheme(theme === "dark");
+    saveSettings({ theme }).catch(() => undefined);
+  }, [isDarkMode, applyTheme]);
+
+  const [models, setModels] = useState<ModelOption[]>([]);
+  const [model, setModel] = useState("");
+  const [user, setUser] = useState<SessionUser | null>(null);
+
+  // Load the signed-in user and model allowlist, then restore their settings
+  useEffect(() => {
+    Promise.all([
+      fetch("/api/models").then((response) => response.json()),
+      fetch("/api/auth/session").then((response) => response.json()),
+    ])
+      .then(
+        ([data, session]: [
+          { models: ModelOption[]; defaultModel: string | null },
+          { user: SessionUser | null; settings?: UserSettings },
+        ]) => {
+          if (!session.user) {
+            window.location.assign("/login");
+            return;
+          }
+          setUser(session.user);
+          setModels(data.models);
+          const saved = data.models.find(
+            (option) =>
+              option.id === session.settings?.model && option.available
+          );
+          setModel(saved?.id ?? data.defaultModel ?? "");
+          if (session.settings?.theme) {
+            applyTheme(session.settings.theme === "dark");
+          }
+        }
+      )
+      .catch(() => undefined);
+  }, [applyTheme]);
+
+  const handleModelChange = useCallback((value: string) => {
+    setModel(value);
+    saveSettings({ model: value }).catch(() => undefined);
+  }, []);
+
+  const signOut = useCallback(() => {
+    fetch("/api/auth/logout", { method: "POST" })
+      .then(() => window.location.assign("/login"))
+      .catch(() => undefined);
   }, []);
 
-  const { messages, status, sendMessage, stop, error, setMessages } = useChat({
+  const [workspaces, setWorkspaces] = useState<WorkspaceInfo[]>([]);
+
+  useEffect(() => {
+    fetchWorkspaces()
+      .then(setWorkspaces)
+      .catch(() => undefined);
+  }, []);
+
+  const [conversationId, setConversationId] = useState(() => nanoid());
+  const [initialMessages, setInitialMessages] = useState<UIMessage[]>([]);
+  // Conversations shared through a workspace are read-only
+  const [access, setAccess] = useState<ConversationAccess>("owner");
+  const [conversations, setConversations] = useState<ConversationSummary[]>(
+    []
+  );
+  const [historyQuery, setHistoryQuery] = useState("");
+
+  const resumeTargetRef = React.useRef<string | null>(null);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+
+  const {
+    messages,
+    status,
+    sendMessage,
+    stop,
+    error,
+    resumeStream,
+    addToolResult,
+  } = useChat({
     // @ts-expect-error - api parameter is valid but types may be outdated
     api: "/api/chat",
+    id: conversationId,
+    messages: initialMessages,
+    onData: (part) => {
+      if (part.type === "data-usage") setUsage(part.data as UsageSummary);
+    },
   });
 
+  // Refresh the remaining budget when switching chats and after each response
+  useEffect(() => {
+    if (status !== "ready") return;
+    fetch(`/api/usage?conversationId=${conversationId}`)
+      .then((response) => response.json())
+      .then((data: { usage: UsageSummary }) => setUsage(data.usage))
+      .catch(() => undefined);
+  }, [status, conversationId]);
+
+  // Debounce history searches
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      fetchConversations(historyQuery)
+        .then(setConversations)
+        .catch(() => undefined);
+    }, 200);
+    return () => clearTimeout(timeout);
+  }, [historyQuery]);
+
+  // The server saves a conversation when a response finishes
+  useEffect(() => {
+    if (status !== "ready" || messages.length === 0) return;
+    window.history.replaceState(null, "", `?c=${conversationId}`);
+    fetchConversations(historyQuery)
+      .then(setConversations)
+      .catch(() => undefined);
+  }, [status, messages.length, conversationId, historyQuery]);
+
+  // Reattach to a response that was still generating when the chat was opened
+  useEffect(() => {
+    if (resumeTargetRef.current !== conversationId) return;
+    resumeTargetRef.current = null;
+    resumeStream().catch(() => undefined);
+  }, [conversationId, resumeStream]);
+
+  const loadConversation = useCallback(
+    (conversation: {
+      id: string;
+      messages: UIMessage[];
+      access?: ConversationAccess;
+    }) => {
+      resumeTargetRef.current = conversation.id;
+      setInitialMessages(conversation.messages);
+      setConversationId(conversation.id);
+      setAccess(conversation.access ?? "owner");
+      setText("");
+      window.history.replaceState(null, "", `?c=${conversation.id}`);
+    },
+    []
+  );
+
+  const openConversation = useCallback(
+    (id: string) => {
+      fetchConversation(id)
+        .then((conversation) => {
+          if (conversation) loadConversation(conversation);
+        })
+        .catch(() => undefined);
+    },
+    [loadConversation]
+  );
+
+  // Reopen the conversation referenced in the URL after a reload
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get("c");
+    if (!id) return;
+    fetchConversation(id)
+      .then((conversation) => {
+        if (conversation) loadConversation(conversation);
+      })
+      .catch(() => undefined);
+  }, [loadConversation]);
+
+  const startNewConversation = useCallback(() => {
+    setInitialMessages([]);
+    setConversationId(nanoid());
+    setAccess("owner");
+    setText("");
+    window.history.replaceState(null, "", window.location.pathname);
+  }, []);
+
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const importConversation = useCallback(
+    async (file: File) => {
+      setImportError(null);
+      let imported: ReturnType<typeof parseConversationImport> = null;
+      try {
+        imported = parseConversationImport(JSON.parse(await file.text()));
+      } catch {
+        // Reported below as an invalid file
+      }
+      if (!imported) {
+        setImportError(`${file.name} is not a conversation export.`);
+        return;
+      }
+
+      const response = await fetch("/api/conversations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          title: imported.title ?? file.name.replace(/\.json$/i, ""),
+          messages: imported.messages,
+        }),
+      });
+      if (!response.ok) {
+        setImportError(`Could not import ${file.name}.`);
+        return;
+      }
+
+      const { conversation } = (await response.json()) as {
+        conversation: { id: string };
+      };
+      loadConversation({ id: conversation.id, messages: imported.messages });
+      setConversations(await fetchConversations(historyQuery));
+    },
+    [historyQuery, loadConversation]
+  );
+
+  const renameConversation = useCallback(
+    async (id: string, title: string) => {
+      await fetch(`/api/conversations/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title }),
+      });
+      setConversations(await fetchConversations(historyQuery));
+    },
+    [historyQuery]
+  );
+
+  const deleteConversation = useCallback(
+    async (id: string) => {
+      await fetch(`/api/conversations/${id}`, { method: "DELETE" });
+      if (id === conversationId) startNewConversation();
+      setConversations(await fetchConversations(historyQuery));
+    },
+    [conversationId, historyQuery, startNewConversation]
+  );
+
+  const shareConversation = useCallback(
+    async (workspaceId: string | null) => {
+      await fetch(`/api/conversations/${conversationId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ workspaceId }),
+      });
+      setConversations(await fetchConversations(historyQuery));
+    },
+    [conversationId, historyQuery]
+  );
+
+  const refreshWorkspaces = useCallback(async () => {
+    setWorkspaces(await fetchWorkspaces());
+    setConversations(await fetchConversations(historyQuery));
+  }, [historyQuery]);
+
+  const createWorkspace = useCallback(
+    async (name: string) => {
+      await fetch("/api/workspaces", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      await refreshWorkspaces();
+    },
+    [refreshWorkspaces]
+  );
+
+  const [workspaceError, setWorkspaceError] = useState<string | null>(null);
+
+  const addWorkspaceMember = useCallback(
+    async (workspaceId: string, email: string) => {
+      setWorkspaceError(null);
+      const response = await fetch(`/api/workspaces/${workspaceId}/members`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+      if (!response.ok) {
+        const data = (await response.json().catch(() => ({}))) as {
+          error?: string;
+        };
+        setWorkspaceError(data.error ?? `Could not add ${email}.`);
+        return;
+      }
+      await refreshWorkspaces();
+    },
+    [refreshWorkspaces]
+  );
+
+  const leaveWorkspace = useCallback(
+    async (workspaceId: string) => {
+      await fetch(`/api/workspaces/${workspaceId}/members`, {
+        method: "DELETE",
+      });
+      await refreshWorkspaces();
+    },
+    [refreshWorkspaces]
+  );
+
+  const workspaceNames = new Map(
+    workspaces.map((workspace) => [workspace.id, workspace.name])
+  );
+  const ownConversations = conversations.filter(
+    (conversation) => conversation.access === "owner"
+  );
+  const sharedConversations = conversations.filter(
+    (conversation) => conversation.access === "viewer"
+  );
+  const currentWorkspaceId = conversations.find(
+    (conversation) => conversation.id === conversationId
+  )?.workspaceId;
+  const readOnly = access === "viewer";
+
+  const exportMenu = (
+    <ExportMenu>
+      <ExportMenuItem
+        href={`/api/conversations/${conversationId}/export?format=markdown`}
+        download
+      >
+        Markdown report
+      </ExportMenuItem>
+      <ExportMenuItem href={`/conversations/${conversationId}/print`}>
+        Printable / PDF
+      </ExportMenuItem>
+      <ExportMenuItem
+        href={`/api/conversations/${conversationId}/export?format=json`}
+        download
+      >
+        JSON (UIMessage[])
+      </ExportMenuItem>
+    </ExportMenu>
+  );
+
+  const [researchMode, setResearchMode] = useState(false);
+  // Shows the request trace under each answer
+  const [debug, setDebug] = useState(false);
+
+  const sendText = useCallback(
+    (value: string, files?: FileUIPart[]) => {
+      sendMessage(
+        { text: value, files },
+        {
+          body: {
+            model: model || undefined,
+            mode: researchMode ? "research" : undefined,
+          },
+        }
+      );
+    },
+    [sendMessage, model, researchMode]
+  );
+
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+
   const handleSubmit = useCallback(
     (message: PromptInputMessage) => {
       const content = message.text.trim();
-      if (!content) return;
-      sendMessage({ text: content });
+      const files = message.files ?? [];
+      if (!content && files.length === 0) return;
       setText("");
+      setAttachmentError(null);
+
+      if (files.length === 0) {
+        sendText(content);
+        return;
+      }
+      filesToFileUIParts(files)
+        .then((parts) =>
+          sendText(content || "Summarize the attached files.", parts)
+        )
+        .catch(() => setAttachmentError("Could not read the attached files."));
+    },
+    [sendText, setAttachmentError]
+  );
+
+  const handleScrapeUrl = useCallback(
+    (url: string) => {
+      if (status === "streaming" || status === "submitted") return;
+      sendText(`Scrape ${url} and summarize it.`);
     },
-    [sendMessage]
+    [sendText, status]
+  );
+
+  const handleApprovalResponse = useCallback<ApprovalResponseHandler>(
+    async (tool, approved, reason) => {
+      await addToolResult({
+        tool: tool.name,
+        toolCallId: tool.id,
+        output: {
+          approval: {
+            id: tool.id,
+            state: "approval-responded",
+            approved,
+            reason,
+          },
+        },
+      });
+
+      // Resume the agent once every pending request in the turn is answered
+      const waiting = approvalRequestIds(messages[messages.length - 1]).filter(
+        (id) => id !== tool.id
+      );
+      if (waiting.length === 0) {
+        sendMessage(undefined, { body: { model: model || undefined } });
+      }
+    },
+    [addToolResult, messages, sendMessage, model]
   );
 
   const handleSuggestionClick = useCallback(
     (value: string) => {
-      sendMessage({ text: value });
+      sendText(value);
     },
-    [sendMessage]
+    [sendText]
   );
 
   const isStreaming = status === "streaming";
 
   return (
-    <div className="relative flex h-screen flex-col overflow-hidden bg-gray-50 text-zinc-950 dark:bg-zinc-950 dark:text-zinc-100">
+    <div className="relative flex h-screen overflow-hidden bg-gray-50 text-zinc-950 dark:bg-zinc-950 dark:text-zinc-100">
+      <ChatHistory className="hidden md:flex">
+        <ChatHistoryNewButton onClick={startNewConversation} />
+        <ChatHistoryImportButton onImport={importConversation} />
+        <ChatHistorySearch value={historyQuery} onChange={setHistoryQuery} />
+        <ChatHistoryList>
+          {conversations.length === 0 ? (
+            <ChatHistoryEmpty>
+              {historyQuery ? "No matching chats." : "No saved chats yet."}
+            </ChatHistoryEmpty>
+          ) : null}
+          {sharedConversations.length && ownConversations.length ? (
+            <ChatHistoryHeading>Your chats</ChatHistoryHeading>
+          ) : null}
+          {ownConversations.map((conversation) => (
+            <ChatHistoryItem
+              key={conversation.id}
+              title={conversation.title}
+              updatedAt={conversation.updatedAt}
+              active={conversation.id === conversationId}
+              sharedIn={
+                conversation.workspaceId
+                  ? workspaceNames.get(conversation.workspaceId)
+                  : undefined
+              }
+              onSelect={() => openConversation(conversation.id)}
+              onRename={(title) => {
+                renameConversation(conversation.id, title).catch(
+                  () => undefined
+                );
+              }}
+              onDelete={() => {
+                deleteConversation(conversation.id).catch(() => undefined);
+              }}
+            />
+          ))}
+          {sharedConversations.length ? (
+            <ChatHistoryHeading>Shared with you</ChatHistoryHeading>
+          ) : null}
+          {sharedConversations.map((conversation) => (
+            <ChatHistoryItem
+              key={conversation.id}
+              title={conversation.title}
+              updatedAt={conversation.updatedAt}
+              active={conversation.id === conversationId}
+              sharedIn={
+                conversation.workspaceId
+                  ? workspaceNames.get(conversation.workspaceId)
+                  : undefined
+              }
+              onSelect={() => openConversation(conversation.id)}
+            />
+          ))}
+        </ChatHistoryList>
+        <Workspaces
+          onCreate={(name) => {
+            createWorkspace(name).catch(() => undefined);
+          }}
+        >
+          {workspaces.map((workspace) => (
+            <WorkspaceItem
+              key={workspace.id}
+              name={workspace.name}
+              members={workspace.members}
+              isOwner={workspace.ownerId === user?.id}
+              onAddMember={(email) => {
+                addWorkspaceMember(workspace.id, email).catch(() => undefined);
+              }}
+              onLeave={() => {
+                leaveWorkspace(workspace.id).catch(() => undefined);
+              }}
+            />
+          ))}
+          {workspaceError ? (
+            <p className="text-[11px] text-red-500">{workspaceError}</p>
+          ) : null}
+        </Workspaces>
+        <Notifications />
+        {user ? (
+          <ChatHistoryAccount
+            email={user.email}
+            name={user.name}
+            onSignOut={signOut}
+          />
+        ) : null}
+      </ChatHistory>
       <div className="flex-1 overflow-hidden flex items-center justify-center py-6">
         <div className="w-full max-w-4xl h-full flex flex-col px-4 sm:px-8">
           <Conversation className="flex-1">
@@ -145,7 +739,15 @@ const Example = () => {
               ) : (
                 <>
                   {messages.map((message) => (
-                    <ChatMessage key={message.id} message={message} />
+                    <ChatMessage
+                      key={message.id}
+                      message={message}
+                      debug={debug && !readOnly}
+                      onScrapeUrl={readOnly ? undefined : handleScrapeUrl}
+                      onApprovalResponse={
+                        readOnly ? undefined : handleApprovalResponse
+                      }
+                    />
                   ))}
                   <ConversationScrollButton />
                 </>
@@ -169,77 +771,156 @@ const Example = () => {
             {error ? (
               <p className="px-2 text-sm text-red-500">{error.message}</p>
             ) : null}
+            {attachmentError ? (
+              <p className="px-2 text-sm text-red-500">{attachmentError}</p>
+            ) : null}
+            {importError ? (
+              <p className="px-2 text-sm text-red-500">{importError}</p>
+            ) : null}
 
-            <div className="w-full">
-              <PromptInput onSubmit={handleSubmit}>
-                <PromptInputHeader>
-                  <PromptInputAttachments>{() => null}</PromptInputAttachments>
-                </PromptInputHeader>
-                <PromptInputBody>
-                  <PromptInputTextarea
-                    name="prompt-text"
-                    value={text}
-                    onChange={(event) => setText(event.target.value)}
-                    onKeyDown={(
-                      event: React.KeyboardEvent<HTMLTextAreaElement>
-                    ) => {
-                      if (
-                        (event.metaKey || event.ctrlKey) &&
-                        event.key === "Enter"
-                      ) {
-                        event.preventDefault();
-                        if (text.trim() && !isStreaming) {
-                          handleSubmit({ text: text.trim() });
-                        }
-                      }
-                    }}
-                  />
-                </PromptInputBody>
-                <PromptInputFooter>
-                  <div className="flex items-center gap-2">
-                    <button
-                      type="button"
-                      onClick={toggleDarkMode}
-                      className="rounded-xl border border-zinc-200 px-3 py-2 text-xs text-zinc-500 transition hover:border-zinc-300 hover:text-zinc-700 dark:border-zinc-700 dark:text-zinc-300 dark:hover:border-zinc-500"
-                      aria-label="Toggle dark mode"
-                    >
-                      {isDarkMode ? (
-                        <Sun className="h-4 w-4" />
-                      ) : (
-                        <Moon className="h-4 w-4" />
+            {readOnly ? (
+              <div className="flex items-center justify-between gap-3 rounded-2xl border border-zinc-200 bg-white px-4 py-3 text-sm text-zinc-500 dark:border-zinc-800 dark:bg-zinc-900 dark:text-zinc-400">
+                <span className="flex items-center gap-2">
+                  <Lock className="h-4 w-4 shrink-0" />
+                  Shared read-only
+                  {currentWorkspaceId && workspaceNames.has(currentWorkspaceId)
+                    ? ` via ${workspaceNames.get(currentWorkspaceId)}`
+                    : ""}
+                  . Only the owner can continue this chat.
+                </span>
+                <div className="flex items-center gap-2">
+                  {exportMenu}
+                  <button
+                    type="button"
+                    onClick={startNewConversation}
+                    className="rounded-xl border border-zinc-200 px-3 py-2 text-xs text-zinc-500 transition hover:border-zinc-300 hover:text-zinc-700 dark:border-zinc-700 dark:text-zinc-300 dark:hover:border-zinc-500"
+                  >
+                    New chat
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="w-full">
+                <PromptInput
+                  onSubmit={handleSubmit}
+                  globalDrop
+                  multiple
+                  accept={ATTACHMENT_ACCEPT}
+                  maxFiles={MAX_ATTACHMENTS}
+                  maxFileSize={MAX_ATTACHMENT_BYTES}
+                  onError={setAttachmentError}
+                >
+                  <PromptInputHeader>
+                    <PromptInputAttachments>
+                      {(attachment) => (
+                        <PromptInputAttachmentChip data={attachment} />
                       )}
-                    </button>
-                    {messages.length > 0 && (
+                    </PromptInputAttachments>
+                  </PromptInputHeader>
+                  <PromptInputBody>
+                    <PromptInputTextarea
+                      name="prompt-text"
+                      value={text}
+                      onChange={(event) => setText(event.target.value)}
+                      onKeyDown={(
+                        event: React.KeyboardEvent<HTMLTextAreaElement>
+                      ) => {
+                        if (
+                          (event.metaKey || event.ctrlKey) &&
+                          event.key === "Enter"
+                        ) {
+                          event.preventDefault();
+                          if (!isStreaming) {
+                            event.currentTarget.form?.requestSubmit();
+                          }
+                        }
+                      }}
+                    />
+                  </PromptInputBody>
+                  <PromptInputFooter>
+                    <div className="flex items-center gap-2">
                       <button
                         type="button"
-                        onClick={() => {
-                          setMessages([]);
-                          setText("");
-                        }}
+                        onClick={toggleDarkMode}
                         className="rounded-xl border border-zinc-200 px-3 py-2 text-xs text-zinc-500 transition hover:border-zinc-300 hover:text-zinc-700 dark:border-zinc-700 dark:text-zinc-300 dark:hover:border-zinc-500"
+                        aria-label="Toggle dark mode"
                       >
-                        Clear
+                        {isDarkMode ? (
+                          <Sun className="h-4 w-4" />
+                        ) : (
+                          <Moon className="h-4 w-4" />
+                        )}
                       </button>
-                    )}
-                  </div>
-                  <div className="flex items-center gap-3">
-                    {isStreaming ? (
-                      <button
-                        type="button"
-                        onClick={() => stop()}
-                        className="text-xs text-zinc-500 underline underline-offset-4 hover:text-zinc-700 dark:text-zinc-300 dark:hover:text-zinc-100"
+                      <PromptInputAddAttachments />
+                      <PromptInputToggle
+                        pressed={researchMode}
+                        onPressedChange={setResearchMode}
+                        title="Plan sub-questions, research them in parallel and write a long report"
                       >
-                        Stop
-                      </button>
-                    ) : null}
-                    <PromptInputSubmit
-                      disabled={!text.trim() || isStreaming}
-                      status={status}
-                    />
-                  </div>
-                </PromptInputFooter>
-              </PromptInput>
-            </div>
+                        <Telescope className="h-4 w-4" />
+                        Deep research
+                      </PromptInputToggle>
+                      <PromptInputToggle
+                        pressed={debug}
+                        onPressedChange={setDebug}
+                        title="Show the trace of model steps, tool calls and Firecrawl requests under each answer"
+                      >
+                        <Bug className="h-4 w-4" />
+                        Debug
+                      </PromptInputToggle>
+                      <PromptInputModelSelect
+                        value={model}
+                        onChange={handleModelChange}
+                        options={models.map((option) => ({
+                          id: option.id,
+                          label: `${option.providerLabel} · ${option.modelId}`,
+                          disabled: !option.available,
+                        }))}
+                      />
+                      {messages.length > 0 && (
+                        <button
+                          type="button"
+                          onClick={startNewConversation}
+                          className="rounded-xl border border-zinc-200 px-3 py-2 text-xs text-zinc-500 transition hover:border-zinc-300 hover:text-zinc-700 dark:border-zinc-700 dark:text-zinc-300 dark:hover:border-zinc-500"
+                        >
+                          New chat
+                        </button>
+                      )}
+                      {access === "owner" && messages.length > 0 ? (
+                        <ShareSelect
+                          value={currentWorkspaceId}
+                          workspaces={workspaces}
+                          onChange={(workspaceId) => {
+                            shareConversation(workspaceId).catch(() => undefined);
+                          }}
+                        />
+                      ) : null}
+                      {messages.length > 0 && exportMenu}
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <ConversationUsagePanel
+                        usage={conversationUsage(messages)}
+                      />
+                      {usage ? <UsageMeter usage={usage} /> : null}
+                      {isStreaming ? (
+                        <button
+                          type="button"
+                          onClick={() => stop()}
+                          className="text-xs text-zinc-500 underline underline-offset-4 hover:text-zinc-700 dark:text-zinc-300 dark:hover:text-zinc-100"
+                        >
+                          Stop
+                        </button>
+                      ) : null}
+                      <PromptInputSubmit
+                        disabled={isStreaming}
+                        empty={!text.trim()}
+                        status={status}
+                      />
+                    </div>
+                  </PromptInputFooter>
+                </PromptInput>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -249,19 +930,86 @@ const Example = () => {
 
 export default Example;
 
-function ChatMessage({ message }: { message: UIMessage }) {
+async function fetchConversations(query: string) {
+  const params = query.trim() ? `?q=${encodeURIComponent(query.trim())}` : "";
+  const response = await fetch(`/api/conversations${params}`);
+  if (!response.ok) return [];
+  const data: { conversations: ConversationSummary[] } = await response.json();
+  return data.conversations;
+}
+
+async function fetchConversation(id: string) {
+  const response = await fetch(`/api/conversations/${encodeURIComponent(id)}`);
+  if (!response.ok) return null;
+  const data: {
+    conversation: { id: string; messages: UIMessage[] };
+    access: ConversationAccess;
+  } = await response.json();
+  return { ...data.conversation, access: data.access };
+}
+
+async function fetchWorkspaces() {
+  const response = await fetch("/api/workspaces");
+  if (!response.ok) return [];
+  const data: { workspaces: WorkspaceInfo[] } = await response.json();
+  return data.workspaces;
+}
+
+async function saveSettings(settings: UserSettings) {
+  await fetch("/api/settings", {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(settings),
+  });
+}
+
+function ChatMessage({
+  message,
+  debug,
+  onScrapeUrl,
+  onApprovalResponse,
+}: {
+  message: UIMessage;
+  /** Show the trace recorded for the message */
+  debug?: boolean;
+  onScrapeUrl?: (url: string) => void;
+  onApprovalResponse?: ApprovalResponseHandler;
+}) {
   const role = message.role === "assistant" ? "assistant" : "user";
   const textParts = (message.parts ?? []).filter(
     // @ts-expect-error - UIMessagePart type inference issue
     (part): part is Extract<UIMessagePart, { type: "text" }> =>
       part.type === "text"
   );
+  const attachments = messageAttachments(message);
   const reasoningParts = (message.parts ?? []).filter(
     // @ts-expect-error - UIMessagePart type inference issue
     (part): part is Extract<UIMessagePart, { type: "reasoning" }> =>
       part.type === "reasoning"
   );
-  const toolCalls = extractToolCalls(message);
+  const research = (message.parts ?? []).find(
+    (part): part is { type: "data-research"; data: ResearchProgress } =>
+      part.type === "data-research"
+  )?.data;
+  // Research tool calls are shown in the research timeline instead of as cards
+  const researchToolCallIds = new Set(
+    research?.steps.flatMap((step) => step.toolCallIds) ?? []
+  );
+  const toolCalls = extractToolCalls(message, { onScrapeUrl }).filter(
+    (tool) => !researchToolCallIds.has(tool.id)
+  );
+
+  const answer = textParts.map((part) => part.text).join("");
+  const sources = collectSources(message);
+  const citedIds = new Set(
+    sources.length ? linkCitations(answer).markers.map((marker) => marker.id) : []
+  );
+  const unmatchedIds = Array.from(citedIds).filter(
+    (id) => !sources.some((source) => source.id === id)
+  );
+
+  const usage = role === "assistant" ? getTurnUsage(message) : undefined;
+  const traceIds = debug && role === "assistant" ? getTraceIds(message) : [];
 
   const avatarSrc = role === "assistant" ? assistantAvatar : userAvatar;
   const displayName = role === "assistant" ? "Assistant" : "You";
@@ -283,32 +1031,59 @@ function ChatMessage({ message }: { message: UIMessage }) {
             </Reasoning>
           ))}
 
-          {toolCalls.map((tool) => (
-            <Tool
-              key={tool.id}
-              state={tool.state}
-              defaultOpen={
-                tool.state === "output-available" ||
-                tool.state === "output-error" ||
-                tool.state === "output-denied"
-              }
-            >
-              <ToolHeader
-                state={tool.state}
-                type={tool.type}
-                title={tool.name}
-              />
-              <ToolContent>
-                <ToolInput input={tool.input} />
-                {tool.approval ? renderConfirmation(tool) : null}
-                <ToolOutput errorText={tool.errorText} output={tool.output} />
-              </ToolContent>
-            </Tool>
-          ))}
+          {research ? <ResearchTimeline progress={research} /> : null}
+
+          {toolCalls.length ? (
+            <AgentTimeline
+              steps={messageSteps(message)}
+              toolCalls={toolCalls}
+              onApprovalResponse={onApprovalResponse}
+            />
+          ) : null}
+
+          {attachments.length ? (
+            <MessageAttachments>
+              {attachments.map((attachment, index) => (
+                <MessageAttachment
+                  key={`${message.id}-file-${index}`}
+                  url={attachment.url}
+                  mediaType={attachment.mediaType}
+                  filename={attachment.filename}
+                />
+              ))}
+            </MessageAttachments>
+          ) : null}
 
           {textParts.length ? (
-            <Response>{textParts.map((part) => part.text).join("")}</Response>
+            <Response sources={sources.length ? sources : undefined}>
+              {answer}
+            </Response>
           ) : null}
+
+          {sources.length ? (
+            <Sources>
+              {sources.map((source) => (
+                <SourcesItem
+                  key={source.id}
+                  number={source.id}
+                  url={source.url}
+                  title={source.title}
+                  cited={citedIds.has(source.id)}
+                />
+              ))}
+              {unmatchedIds.length ? (
+                <SourcesWarning>
+                  {unmatchedIds.map((id) => `[${id}]`).join(", ")}{" "}
+                  {unmatchedIds.length === 1 ? "doesn't" : "don't"} match any
+                  source fetched in this turn.
+                </SourcesWarning>
+              ) : null}
+            </Sources>
+          ) : null}
+
+          {usage ? <MessageUsage usage={usage} /> : null}
+
+          {traceIds.length ? <TraceView traceIds={traceIds} /> : null}
         </div>
       </MessageContent>
       {role === "user" ? (
@@ -318,6 +1093,251 @@ function ChatMessage({ message }: { message: UIMessage }) {
   );
 }
 
+const researchStatusLabels: Record<ResearchProgress["status"], string> = {
+  planning: "Planning sub-questions…",
+  researching: "Researching…",
+  writing: "Writing the report…",
+  done: "Research complete",
+  error: "Research failed",
+};
+
+function ResearchTimeline({ progress }: { progress: ResearchProgress }) {
+  const finished = progress.steps.filter(
+    (step) => step.status === "complete" || step.status === "error"
+  ).length;
+
+  return (
+    <ChainOfThought defaultOpen>
+      <ChainOfThoughtHeader>
+        {researchStatusLabels[progress.status]}
+        {progress.steps.length
+          ? ` · ${finished}/${progress.steps.length} sub-questions`
+          : ""}
+      </ChainOfThoughtHeader>
+      <ChainOfThoughtContent>
+        {progress.status === "planning" ? (
+          <ChainOfThoughtStep
+            icon={ListTree}
+            label="Breaking the question into sub-questions"
+            status="active"
+          />
+        ) : null}
+        {progress.steps.map((step, index) => (
+          <ChainOfThoughtStep
+            key={step.id}
+            icon={step.status === "error" ? XIcon : Search}
+            label={`${index + 1}. ${step.question}`}
+            status={step.status === "error" ? "complete" : step.status}
+          >
+            <p className="text-xs text-zinc-500">Search: “{step.query}”</p>
+            {step.error ? (
+              <p className="text-xs text-red-500">{step.error}</p>
+            ) : null}
+            {step.results.length ? (
+              <ChainOfThoughtSearchResults>
+                {step.results.map((result) => (
+                  <ChainOfThoughtSearchResult key={result.url}>
+                    <a
+                      href={result.url}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="hover:underline"
+                    >
+                      {result.title || result.url}
+                    </a>
+                    <span className="ml-2 text-zinc-400">
+                      {hostname(result.url)}
+                    </span>
+                  </ChainOfThoughtSearchResult>
+                ))}
+              </ChainOfThoughtSearchResults>
+            ) : null}
+          </ChainOfThoughtStep>
+        ))}
+        {progress.status === "writing" || progress.status === "done" ? (
+          <ChainOfThoughtStep
+            icon={FileText}
+            label="Synthesizing the report"
+            status={progress.status === "done" ? "complete" : "active"}
+          />
+        ) : null}
+        {progress.error ? (
+          <p className="text-xs text-red-500">{progress.error}</p>
+        ) : null}
+      </ChainOfThoughtContent>
+    </ChainOfThought>
+  );
+}
+
+function hostname(url: string) {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+const toolIcons: Record<string, LucideIcon> = {
+  scrapeWebsite: Globe,
+  searchWeb: Search,
+  mapWebsite: MapIcon,
+  crawlWebsite: Network,
+  batchScrape: Layers,
+  extractStructuredData: TableIcon,
+  watchWebsite: Eye,
+  compareSnapshots: GitCompare,
+  readSection: BookOpen,
+};
+
+/**
+ * One timeline per message: each agent step with its tool calls, status,
+ * duration and the domains its results came from.
+ */
+function AgentTimeline({
+  steps,
+  toolCalls,
+  onApprovalResponse,
+}: {
+  steps: MessageStep[];
+  toolCalls: ToolCall[];
+  onApprovalResponse?: ApprovalResponseHandler;
+}) {
+  const toolsById = new Map(toolCalls.map((tool) => [tool.id, tool]));
+  const visibleSteps = steps
+    .map((step) => ({
+      ...step,
+      tools: step.toolCallIds.flatMap((id) => toolsById.get(id) ?? []),
+    }))
+    .filter((step) => step.tools.length > 0);
+
+  const totalMs = visibleSteps.reduce(
+    (sum, step) => sum + (step.timing?.durationMs ?? 0),
+    0
+  );
+
+  return (
+    <ChainOfThought defaultOpen>
+      <ChainOfThoughtHeader>
+        Agent steps · {visibleSteps.length}{" "}
+        {visibleSteps.length === 1 ? "step" : "steps"}
+        {totalMs ? ` · ${formatDuration(totalMs)}` : ""}
+      </ChainOfThoughtHeader>
+      <ChainOfThoughtContent>
+        {visibleSteps.map((step) => {
+          const running =
+            step.timing?.status === "running" ||
+            step.tools.some(
+              (tool) =>
+                tool.state === "input-streaming" ||
+                tool.state === "input-available" ||
+                tool.state === "approval-requested"
+            );
+          const names = Array.from(new Set(step.tools.map((tool) => tool.name)));
+
+          return (
+            <ChainOfThoughtStep
+              key={`step-${step.stepNumber}`}
+              icon={toolIcons[names[0]] ?? Search}
+              status={running ? "active" : "complete"}
+              label={
+                <span className="flex flex-wrap items-baseline gap-x-2">
+                  <span>
+                    Step {step.stepNumber + 1} · {names.join(", ")}
+                  </span>
+                  {step.timing?.durationMs !== undefined ? (
+                    <span className="text-xs font-normal text-zinc-400">
+                      {formatDuration(step.timing.durationMs)}
+                    </span>
+                  ) : null}
+                </span>
+              }
+            >
+              {step.tools.map((tool) => {
+                const durationMs = step.timing?.toolCalls.find(
+                  (call) => call.toolCallId === tool.id
+                )?.durationMs;
+                return (
+                  <div key={tool.id} className="flex flex-col gap-2">
+                    {tool.domains.length || durationMs !== undefined ? (
+                      <ChainOfThoughtSearchResults className="flex-row flex-wrap items-center">
+                        {durationMs !== undefined ? (
+                          <span className="text-zinc-400">
+                            {tool.name} took {formatDuration(durationMs)}
+                          </span>
+                        ) : null}
+                        {tool.domains.map((domain) => (
+                          <ChainOfThoughtSearchResult
+                            key={domain}
+                            className="py-1"
+                          >
+                            {domain}
+                          </ChainOfThoughtSearchResult>
+                        ))}
+                      </ChainOfThoughtSearchResults>
+                    ) : null}
+                    <ToolCard
+                      tool={tool}
+                      onApprovalResponse={onApprovalResponse}
+                    />
+                  </div>
+                );
+              })}
+            </ChainOfThoughtStep>
+          );
+        })}
+      </ChainOfThoughtContent>
+    </ChainOfThought>
+  );
+}
+
+function ToolCard({
+  tool,
+  onApprovalResponse,
+}: {
+  tool: ToolCall;
+  onApprovalResponse?: ApprovalResponseHandler;
+}) {
+  return (
+    <Tool
+      state={tool.state}
+      defaultOpen={
+        tool.state === "output-error" ||
+        tool.state === "output-denied" ||
+        tool.state === "policy-denied" ||
+        tool.state === "budget-exhausted" ||
+        tool.state === "approval-requested" ||
+        // Batch scrapes show their progress table while they run
+        tool.name === "batchScrape"
+      }
+    >
+      <ToolHeader
+        state={tool.state}
+        type={tool.type}
+        title={tool.name}
+        cached={tool.cached}
+        fetchedAt={tool.fetchedAt}
+      />
+      {tool.progress ? <ToolProgressLine progress={tool.progress} /> : null}
+      <ToolContent>
+        <ToolInput input={tool.input} />
+        {tool.approval ? (
+          <ToolConfirmation tool={tool} onApprovalResponse={onApprovalResponse} />
+        ) : null}
+        <ToolOutput
+          errorText={tool.errorText}
+          output={tool.output}
+          policyDenial={tool.policyDenial}
+          budgetExhausted={tool.budgetExhausted}
+        />
+      </ToolContent>
+    </Tool>
+  );
+}
+
+function formatDuration(ms: number) {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
 type ToolCall = {
   id: string;
   name: string;
@@ -326,6 +1346,14 @@ type ToolCall = {
   input?: unknown;
   output?: ReactNode;
   errorText?: string;
+  cached?: boolean;
+  fetchedAt?: string;
+  /** Domains of the pages the tool returned */
+  domains: string[];
+  /** Latest streamed status while the tool runs; dropped once it has output */
+  progress?: ToolProgress;
+  policyDenial?: PolicyDenial;
+  budgetExhausted?: BudgetExhausted;
   approval?: {
     id?: string;
     approved?: boolean;
@@ -334,25 +1362,193 @@ type ToolCall = {
   };
 };
 
-function extractToolCalls(message: UIMessage): ToolCall[] {
+type ToolOutputHandlers = {
+  onScrapeUrl?: (url: string) => void;
+};
+
+type ApprovalResponseHandler = (
+  tool: Pick<ToolCall, "id" | "name">,
+  approved: boolean,
+  reason?: string
+) => void;
+
+function extractToolCalls(
+  message: UIMessage,
+  handlers: ToolOutputHandlers = {}
+): ToolCall[] {
   if (!message.parts) return [];
 
-  return message.parts.filter(isToolPart).map((part, index) => ({
-    id: part.toolCallId ?? `${getToolName(part)}-${index}`,
-    name: getToolName(part),
-    type: part.type,
-    state: (part as { state?: string }).state ?? "unknown",
-    input: (part as { input?: unknown }).input,
-    output: formatToolOutput((part as { output?: unknown }).output),
-    errorText: (part as { errorText?: string }).errorText,
-    approval: extractApproval(part),
-  }));
+  const batchProgress = new Map(
+    message.parts
+      .filter(
+        (part): part is { type: "data-batch"; data: BatchScrapeProgress } =>
+          part.type === "data-batch"
+      )
+      .map((part) => [part.data.toolCallId, part.data.rows])
+  );
+  const toolProgress = new Map(
+    message.parts
+      .filter(
+        (part): part is { type: "data-tool-progress"; data: ToolProgress } =>
+          part.type === "data-tool-progress"
+      )
+      .map((part) => [part.data.toolCallId, part.data])
+  );
+
+  return message.parts.filter(isToolPart).map((part, index) => {
+    const output = (part as { output?: unknown }).output;
+    const cacheInfo =
+      typeof output === "object" && output !== null
+        ? (output as { cached?: boolean; fetchedAt?: string })
+        : {};
+    const approval = extractApproval(part);
+    const partState = (part as { state?: string }).state ?? "unknown";
+
+    // Approval requests and denials arrive as tool outputs; surface them as
+    // their own states so the card shows the confirmation instead of JSON
+    const awaitingApproval =
+      approval?.state === "approval-requested" ||
+      approval?.state === "approval-responded";
+    const denied = approval?.state === "output-denied";
+    const policyDenial = getPolicyDenial(output);
+    const budgetExhausted = getBudgetExhausted(output);
+
+    return {
+      id: part.toolCallId ?? `${getToolName(part)}-${index}`,
+      name: getToolName(part),
+      type: part.type,
+      state: awaitingApproval
+        ? "approval-requested"
+        : denied
+          ? "output-denied"
+          : policyDenial
+            ? "policy-denied"
+            : budgetExhausted
+              ? "budget-exhausted"
+              : partState,
+      input: (part as { input?: unknown }).input,
+      output:
+        awaitingApproval || denied || policyDenial || budgetExhausted
+          ? undefined
+          : output === undefined && batchProgress.has(part.toolCallId)
+            ? <BatchScrapeTable rows={batchProgress.get(part.toolCallId)!} />
+            : formatToolOutput(stripApproval(output), handlers),
+      errorText: (part as { errorText?: string }).errorText,
+      cached: cacheInfo.cached === true,
+      fetchedAt: cacheInfo.fetchedAt,
+      domains: resultDomains(output),
+      progress:
+        partState === "input-available" && output === undefined
+          ? toolProgress.get(part.toolCallId)
+          : undefined,
+      policyDenial,
+      budgetExhausted,
+      approval,
+    };
+  });
 }
 
-function formatToolOutput(value: unknown): ReactNode {
+function formatToolOutput(
+  value: unknown,
+  handlers: ToolOutputHandlers = {}
+): ReactNode {
   if (typeof value === "string") {
     return <pre className="whitespace-pre-wrap wrap-break-word">{value}</pre>;
   }
+  if (
+    typeof value === "object" &&
+    value !== null &&
+    "actionLog" in value &&
+    Array.isArray((value as { actionLog: unknown }).actionLog)
+  ) {
+    return <ScrapeResult result={value as ScrapeResultPayload} />;
+  }
+  if (
+    typeof value === "object" &&
+    value !== null &&
+    "rows" in value &&
+    Array.isArray((value as { rows: unknown }).rows)
+  ) {
+    const payload = value as {
+      columns: string[];
+      rows: ExtractionRow[];
+      message?: string;
+      note?: string;
+      error?: string;
+    };
+
+    if (payload.rows.length === 0) {
+      return (
+        <div className="text-xs text-zinc-500">
+          {payload.error ?? payload.note ?? payload.message ?? "No data extracted."}
+        </div>
+      );
+    }
+
+    return <ExtractionTable columns={payload.columns} rows={payload.rows} />;
+  }
+  if (
+    typeof value === "object" &&
+    value !== null &&
+    "groups" in value &&
+    Array.isArray((value as { groups: unknown }).groups)
+  ) {
+    const payload = value as {
+      url: string;
+      groups: SiteMapGroup[];
+      message?: string;
+      note?: string;
+      error?: string;
+    };
+
+    if (payload.groups.length === 0) {
+      return (
+        <div className="text-xs text-zinc-500">
+          {payload.error ?? payload.note ?? payload.message ?? "No URLs found."}
+        </div>
+      );
+    }
+
+    return (
+      <SiteMapList groups={payload.groups} onScrapeUrl={handlers.onScrapeUrl} />
+    );
+  }
+  if (
+    typeof value === "object" &&
+    value !== null &&
+    "pages" in value &&
+    Array.isArray((value as { pages: unknown }).pages)
+  ) {
+    const payload = value as {
+      url: string;
+      pages: CrawlPage[];
+      message?: string;
+      note?: string;
+      error?: string;
+    };
+
+    if (payload.pages.length === 0) {
+      return (
+        <div className="text-xs text-zinc-500">
+          {payload.error ?? payload.note ?? payload.message ?? "No pages crawled."}
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex flex-col gap-2 text-xs text-zinc-600 dark:text-zinc-300">
+        <span className="font-medium text-zinc-700 dark:text-zinc-100">
+          {payload.pages.length} pages crawled from {payload.url}
+        </span>
+        {payload.message ? (
+          <span className="text-amber-600 dark:text-amber-400">
+            {payload.message}
+          </span>
+        ) : null}
+        <CrawlPageTree node={buildPageTree(payload.pages)} />
+      </div>
+    );
+  }
   if (
     typeof value === "object" &&
     value !== null &&
@@ -414,6 +1610,125 @@ function formatToolOutput(value: unknown): ReactNode {
       </div>
     );
   }
+  if (
+    typeof value === "object" &&
+    value !== null &&
+    "batch" in value &&
+    Array.isArray((value as { batch: unknown }).batch)
+  ) {
+    const payload = value as { batch: BatchScrapeRow[]; note?: string };
+
+    if (payload.batch.length === 0) {
+      return (
+        <div className="text-xs text-zinc-500">
+          {payload.note ?? "No URLs scraped."}
+        </div>
+      );
+    }
+
+    return <BatchScrapeTable rows={payload.batch} />;
+  }
+  if (
+    typeof value === "object" &&
+    value !== null &&
+    "snapshots" in value &&
+    Array.isArray((value as { snapshots: unknown }).snapshots)
+  ) {
+    const payload = value as {
+      before?: { fetchedAt: string };
+      after?: { fetchedAt: string };
+      sections?: SectionDiff;
+      diff?: { added: number; removed: number; lines: HunkLine[] };
+      note?: string;
+    };
+
+    if (!payload.sections || !payload.diff || !payload.before || !payload.after) {
+      return (
+        <div className="text-xs text-zinc-500">
+          {payload.note ?? "No snapshots to compare."}
+        </div>
+      );
+    }
+
+    return (
+      <SnapshotComparison
+        before={payload.before.fetchedAt}
+        after={payload.after.fetchedAt}
+        sections={payload.sections}
+        diff={payload.diff}
+      />
+    );
+  }
+  if (
+    typeof value === "object" &&
+    value !== null &&
+    "sections" in value &&
+    Array.isArray((value as { sections: unknown }).sections)
+  ) {
+    const payload = value as {
+      sections: Array<{ id: string; heading: string; text: string }>;
+      missing?: string[];
+      note?: string;
+    };
+
+    if (payload.sections.length === 0) {
+      return (
+        <div className="text-xs text-zinc-500">
+          {payload.note ??
+            `No sections found for ${payload.missing?.join(", ") ?? "these ids"}.`}
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex flex-col gap-2 text-xs text-zinc-600 dark:text-zinc-300">
+        {payload.sections.map((section) => (
+          <details key={section.id} open={payload.sections.length === 1}>
+            <summary className="cursor-pointer font-medium text-zinc-700 dark:text-zinc-100">
+              <span className="mr-1 font-mono text-zinc-400">{section.id}</span>
+              {section.heading || "Top of page"}
+            </summary>
+            <pre className="mt-1 max-h-72 overflow-y-auto whitespace-pre-wrap wrap-break-word">
+              {section.text}
+            </pre>
+          </details>
+        ))}
+        {payload.missing?.length ? (
+          <span className="text-amber-600 dark:text-amber-400">
+            Not found: {payload.missing.join(", ")}
+          </span>
+        ) : null}
+      </div>
+    );
+  }
+  if (
+    typeof value === "object" &&
+    value !== null &&
+    "monitor" in value &&
+    "check" in value &&
+    "content" in value
+  ) {
+    const payload = value as { content: string; check: string };
+    return (
+      <div className="flex flex-col gap-2 text-xs text-zinc-600 dark:text-zinc-300">
+        <p
+          className={
+            payload.check === "error"
+              ? "wrap-break-word text-amber-600 dark:text-amber-400"
+              : "wrap-break-word"
+          }
+        >
+          {payload.content}
+        </p>
+        <Link
+          href="/monitors"
+          className="text-blue-600 underline underline-offset-4"
+        >
+          Manage monitors
+        </Link>
+      </div>
+    );
+  }
   if (!value) return undefined;
   return (
     <pre className="whitespace-pre-wrap wrap-break-word">
@@ -422,6 +1737,486 @@ function formatToolOutput(value: unknown): ReactNode {
   );
 }
 
+const sectionBadges = [
+  ["added", "Added", "text-green-700 dark:text-green-400"],
+  ["removed", "Removed", "text-red-700 dark:text-red-400"],
+  ["changed", "Changed", "text-amber-700 dark:text-amber-400"],
+] as const;
+
+/**
+ * Result of compareSnapshots: the sections that changed between two scrapes,
+ * then the line diff
+ */
+function SnapshotComparison({
+  before,
+  after,
+  sections,
+  diff,
+}: {
+  before: string;
+  after: string;
+  sections: SectionDiff;
+  diff: { added: number; removed: number; lines: HunkLine[] };
+}) {
+  const unchanged = diff.added === 0 && diff.removed === 0;
+
+  return (
+    <div className="flex flex-col gap-2 text-xs text-zinc-600 dark:text-zinc-300">
+      <span className="font-medium text-zinc-700 dark:text-zinc-100">
+        {new Date(before).toLocaleString()} → {new Date(after).toLocaleString()}
+        <span className="ml-2 font-normal text-zinc-400">
+          {unchanged ? "no changes" : `+${diff.added} −${diff.removed} lines`}
+        </span>
+      </span>
+      {sectionBadges.map(([key, label, className]) =>
+        sections[key].length ? (
+          <div key={key} className="flex flex-wrap items-baseline gap-1">
+            <span className={`font-medium ${className}`}>
+              {label} ({sections[key].length}):
+            </span>
+            {sections[key].map((section, index) => (
+              <span
+                key={`${section.heading}-${index}`}
+                className="rounded bg-zinc-100 px-1.5 py-0.5 dark:bg-zinc-800"
+              >
+                {section.heading || "Top of page"}
+              </span>
+            ))}
+          </div>
+        ) : null
+      )}
+      {unchanged ? null : <DiffView lines={diff.lines} />}
+    </div>
+  );
+}
+
+type CrawlPage = {
+  url: string;
+  title?: string;
+  markdown?: string;
+};
+
+type PageTreeNode = {
+  segment: string;
+  page?: CrawlPage;
+  children: PageTreeNode[];
+};
+
+/**
+ * Groups crawled pages into a tree keyed by URL path segments
+ */
+function buildPageTree(pages: CrawlPage[]): PageTreeNode {
+  const root: PageTreeNode = { segment: "/", children: [] };
+
+  for (const page of pages) {
+    let segments: string[];
+    try {
+      segments = new URL(page.url).pathname.split("/").filter(Boolean);
+    } catch {
+      segments = [page.url];
+    }
+
+    let node = root;
+    for (const segment of segments) {
+      let child = node.children.find((item) => item.segment === segment);
+      if (!child) {
+        child = { segment, children: [] };
+        node.children.push(child);
+      }
+      node = child;
+    }
+    node.page = page;
+  }
+
+  return root;
+}
+
+function CrawlPageTree({ node }: { node: PageTreeNode }) {
+  const label = node.page?.title
+    ? `${node.segment} · ${node.page.title}`
+    : node.segment;
+
+  return (
+    <details open={node.segment === "/"} className="group">
+      <summary className="cursor-pointer select-none font-medium text-zinc-700 dark:text-zinc-100">
+        {label}
+        {node.children.length ? (
+          <span className="ml-1 text-zinc-400">({node.children.length})</span>
+        ) : null}
+      </summary>
+      <div className="ml-3 mt-1 flex flex-col gap-1 border-l border-zinc-200 pl-3 dark:border-zinc-700">
+        {node.page ? (
+          <div className="flex flex-col gap-1">
+            <a
+              href={node.page.url}
+              target="_blank"
+              rel="noreferrer"
+              className="text-blue-600 underline underline-offset-4 break-all"
+            >
+              {node.page.url}
+            </a>
+            {node.page.markdown ? (
+              <pre className="max-h-48 overflow-y-auto whitespace-pre-wrap wrap-break-word">
+                {node.page.markdown}
+              </pre>
+            ) : null}
+          </div>
+        ) : null}
+        {node.children.map((child) => (
+          <CrawlPageTree key={child.segment} node={child} />
+        ))}
+      </div>
+    </details>
+  );
+}
+
+type ScrapeResultPayload = {
+  url: string;
+  finalUrl?: string;
+  redirected?: boolean;
+  statusCode?: number;
+  title?: string;
+  content: string;
+  screenshot?: string;
+  /** Set when a long page was cut down to the sections relevant to the question */
+  condensed?: { totalChars: number; shown: string[]; toc: unknown[] };
+  actionLog: Array<{
+    step: number;
+    type: string;
+    detail: string;
+    screenshot?: string;
+  }>;
+};
+
+function ScrapeResult({ result }: { result: ScrapeResultPayload }) {
+  const markdown = (
+    <pre className="max-h-96 overflow-y-auto whitespace-pre-wrap wrap-break-word">
+      {result.content}
+    </pre>
+  );
+
+  return (
+    <div className="flex flex-col gap-2 text-xs text-zinc-600 dark:text-zinc-300">
+      <div className="flex flex-wrap items-center gap-2">
+        <a
+          href={result.finalUrl ?? result.url}
+          target="_blank"
+          rel="noreferrer"
+          className="text-blue-600 underline underline-offset-4 break-all"
+        >
+          {result.finalUrl ?? result.url}
+        </a>
+        {result.statusCode ? (
+          <span className="rounded bg-zinc-200 px-1.5 py-0.5 text-[11px] dark:bg-zinc-800">
+            HTTP {result.statusCode}
+          </span>
+        ) : null}
+        {result.redirected ? (
+          <span className="text-amber-600 dark:text-amber-400">
+            redirected from {result.url}
+          </span>
+        ) : null}
+        {result.screenshot ? (
+          <a
+            href={result.screenshot}
+            target="_blank"
+            rel="noreferrer"
+            className="text-blue-600 underline underline-offset-4"
+          >
+            Screenshot
+          </a>
+        ) : null}
+        {result.condensed ? (
+          <span className="text-zinc-400">
+            Long page ({Math.round(result.condensed.totalChars / 1000)}k chars): showing{" "}
+            {result.condensed.shown.length} of {result.condensed.toc.length} sections
+          </span>
+        ) : null}
+      </div>
+      {result.actionLog.length === 0 ? (
+        markdown
+      ) : (
+        <div className="grid gap-3 sm:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+          <ol className="flex flex-col gap-1 border-zinc-200 sm:border-r sm:pr-3 dark:border-zinc-700">
+            {result.actionLog.map((entry) => (
+              <li key={entry.step} className="flex flex-col gap-0.5">
+                <span>
+                  <span className="mr-1 text-zinc-400">{entry.step}.</span>
+                  {entry.detail}
+                </span>
+                {entry.screenshot ? (
+                  <a
+                    href={entry.screenshot}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="ml-4 text-blue-600 underline underline-offset-4"
+                  >
+                    View screenshot
+                  </a>
+                ) : null}
+              </li>
+            ))}
+          </ol>
+          {markdown}
+        </div>
+      )}
+    </div>
+  );
+}
+
+type ExtractionRow = {
+  url: string;
+  valid: boolean;
+  data: Record<string, unknown> | null;
+  issues?: string[];
+  error?: string;
+};
+
+function ExtractionTable({
+  columns,
+  rows,
+}: {
+  columns: string[];
+  rows: ExtractionRow[];
+}) {
+  // Fall back to the keys present in the data when the schema had no properties
+  const keys = columns.length
+    ? columns
+    : Array.from(new Set(rows.flatMap((row) => Object.keys(row.data ?? {}))));
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full border-collapse text-left text-xs text-zinc-600 dark:text-zinc-300">
+        <thead>
+          <tr className="border-b border-zinc-200 dark:border-zinc-700">
+            <th className="px-2 py-1 font-medium text-zinc-700 dark:text-zinc-100">
+              URL
+            </th>
+            {keys.map((key) => (
+              <th
+                key={key}
+                className="px-2 py-1 font-medium text-zinc-700 dark:text-zinc-100"
+              >
+                {key}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr
+              key={row.url}
+              className="border-b border-zinc-100 align-top last:border-0 dark:border-zinc-800"
+            >
+              <td className="px-2 py-1">
+                <a
+                  href={row.url}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-blue-600 underline underline-offset-4 break-all"
+                >
+                  {row.url}
+                </a>
+                {row.error || row.issues?.length ? (
+                  <p className="mt-1 text-red-500">
+                    {row.error ?? row.issues?.join("; ")}
+                  </p>
+                ) : null}
+              </td>
+              {keys.map((key) => (
+                <td key={key} className="px-2 py-1 wrap-break-word">
+                  {formatCell(row.data?.[key])}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+const batchStatusLabels: Record<BatchScrapeRow["status"], string> = {
+  queued: "Queued",
+  scraping: "Scraping…",
+  done: "Done",
+  failed: "Failed",
+};
+
+/**
+ * Per-URL status of a batch scrape, updated live while it runs
+ */
+function BatchScrapeTable({ rows }: { rows: BatchScrapeRow[] }) {
+  const { done, failed, finished, total } = batchCounts(rows);
+
+  return (
+    <div className="flex flex-col gap-2 text-xs text-zinc-600 dark:text-zinc-300">
+      <div className="flex items-center gap-2">
+        <span className="font-medium text-zinc-700 dark:text-zinc-100">
+          {finished} of {total} finished
+        </span>
+        <span className="text-zinc-400">
+          {done} succeeded{failed ? ` · ${failed} failed` : ""}
+        </span>
+      </div>
+      <div className="h-1 overflow-hidden rounded bg-zinc-200 dark:bg-zinc-700">
+        <div
+          className="h-full bg-blue-500 transition-all"
+          style={{ width: `${total ? (finished / total) * 100 : 0}%` }}
+        />
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full border-collapse text-left">
+          <thead>
+            <tr className="border-b border-zinc-200 dark:border-zinc-700">
+              <th className="px-2 py-1 font-medium text-zinc-700 dark:text-zinc-100">
+                URL
+              </th>
+              <th className="px-2 py-1 font-medium text-zinc-700 dark:text-zinc-100">
+                Status
+              </th>
+              <th className="px-2 py-1 text-right font-medium text-zinc-700 dark:text-zinc-100">
+                Characters
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr
+                key={row.url}
+                className="border-b border-zinc-100 align-top last:border-0 dark:border-zinc-800"
+              >
+                <td className="px-2 py-1">
+                  <a
+                    href={row.url}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="text-blue-600 underline underline-offset-4 break-all"
+                    title={row.title}
+                  >
+                    {row.url}
+                  </a>
+                  {row.error ? (
+                    <p className="mt-1 text-red-500">{row.error}</p>
+                  ) : null}
+                </td>
+                <td
+                  className={
+                    row.status === "failed"
+                      ? "px-2 py-1 whitespace-nowrap text-red-500"
+                      : row.status === "done"
+                        ? "px-2 py-1 whitespace-nowrap text-green-600 dark:text-green-400"
+                        : "px-2 py-1 whitespace-nowrap text-zinc-400"
+                  }
+                >
+                  {batchStatusLabels[row.status]}
+                  {row.cached ? " (cached)" : ""}
+                </td>
+                <td className="px-2 py-1 text-right tabular-nums">
+                  {row.contentLength !== undefined
+                    ? row.contentLength.toLocaleString()
+                    : "—"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function formatCell(value: unknown): ReactNode {
+  if (value === null || value === undefined || value === "") {
+    return <span className="text-zinc-400">—</span>;
+  }
+  if (Array.isArray(value)) {
+    return (
+      <ul className="list-disc pl-4">
+        {value.map((item, index) => (
+          <li key={index}>{formatCell(item)}</li>
+        ))}
+      </ul>
+    );
+  }
+  if (typeof value === "object") {
+    return (
+      <pre className="whitespace-pre-wrap wrap-break-word">
+        {JSON.stringify(value, null, 2)}
+      </pre>
+    );
+  }
+  return String(value);
+}
+
+type SiteMapGroup = {
+  prefix: string;
+  links: Array<{ url: string; title?: string; description?: string }>;
+};
+
+function SiteMapList({
+  groups,
+  onScrapeUrl,
+}: {
+  groups: SiteMapGroup[];
+  onScrapeUrl?: (url: string) => void;
+}) {
+  const [filter, setFilter] = useState("");
+  const needle = filter.trim().toLowerCase();
+
+  const visibleGroups = groups
+    .map((group) => ({
+      ...group,
+      links: needle
+        ? group.links.filter(
+            (link) =>
+              link.url.toLowerCase().includes(needle) ||
+              link.title?.toLowerCase().includes(needle)
+          )
+        : group.links,
+    }))
+    .filter((group) => group.links.length > 0);
+
+  return (
+    <div className="flex flex-col gap-2 text-xs text-zinc-600 dark:text-zinc-300">
+      <input
+        type="search"
+        value={filter}
+        onChange={(event) => setFilter(event.target.value)}
+        placeholder="Filter URLs…"
+        className="w-full rounded-lg border border-zinc-200 bg-white px-2 py-1 text-xs outline-none focus:border-black dark:border-zinc-700 dark:bg-zinc-950 dark:focus:border-zinc-100"
+      />
+      {visibleGroups.length === 0 ? (
+        <span className="text-zinc-500">No URLs match “{filter}”.</span>
+      ) : null}
+      {visibleGroups.map((group) => (
+        <details key={group.prefix} open={visibleGroups.length === 1 || !!needle}>
+          <summary className="cursor-pointer select-none font-medium text-zinc-700 dark:text-zinc-100">
+            {group.prefix}{" "}
+            <span className="text-zinc-400">({group.links.length})</span>
+          </summary>
+          <ul className="ml-3 mt-1 flex flex-col gap-1 border-l border-zinc-200 pl-3 dark:border-zinc-700">
+            {group.links.map((link) => (
+              <li key={link.url}>
+                <button
+                  type="button"
+                  onClick={() => onScrapeUrl?.(link.url)}
+                  disabled={!onScrapeUrl}
+                  title="Scrape this page"
+                  className="text-left text-blue-600 underline underline-offset-4 break-all disabled:cursor-default"
+                >
+                  {link.title ? `${link.title} — ` : ""}
+                  {link.url}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </details>
+      ))}
+    </div>
+  );
+}
+
 type ToolPart =
   | ToolUIPart
   | (DynamicToolUIPart & {
@@ -434,22 +2229,55 @@ type ToolPart =
     });
 
 function extractApproval(part: ToolPart) {
-  if ("approval" in part && part.approval) {
-    return {
-      id: part.approval.id,
-      approved: part.approval.approved,
-      reason: part.approval.reason,
-      state: part.approval.state,
-    };
+  const approval =
+    "approval" in part && part.approval
+      ? part.approval
+      : getToolApproval((part as { output?: unknown }).output);
+  if (!approval) return undefined;
+
+  return {
+    id: approval.id,
+    approved: approval.approved,
+    reason: approval.reason,
+    state: approval.state,
+  };
+}
+
+function getPolicyDenial(output: unknown) {
+  if (typeof output !== "object" || output === null) return undefined;
+  const policy = (output as { policy?: PolicyDenial }).policy;
+  return policy?.state === "policy-denied" ? policy : undefined;
+}
+
+function getBudgetExhausted(output: unknown) {
+  if (typeof output !== "object" || output === null) return undefined;
+  const budget = (output as { budget?: BudgetExhausted }).budget;
+  return budget?.state === "budget-exhausted" ? budget : undefined;
+}
+
+function stripApproval(output: unknown) {
+  if (typeof output !== "object" || output === null || !("approval" in output)) {
+    return output;
   }
-  return undefined;
+  return Object.fromEntries(
+    Object.entries(output).filter(([key]) => key !== "approval"),
+  );
 }
 
-function renderConfirmation(tool: ToolCall) {
+function ToolConfirmation({
+  tool,
+  onApprovalResponse,
+}: {
+  tool: ToolCall;
+  onApprovalResponse?: ApprovalResponseHandler;
+}) {
+  const [reason, setReason] = useState("");
   const approval = tool.approval;
   if (!approval) return null;
 
   const state = approval.state ?? tool.state;
+  // Answered but not yet resolved by the server: keep the buttons hidden
+  const responded = state === "approval-responded";
 
   return (
     <Confirmation
@@ -462,8 +2290,12 @@ function renderConfirmation(tool: ToolCall) {
     >
       <ConfirmationTitle>
         <ConfirmationRequest>
-          {tool.name} requested approval.
+          {tool.name} needs your approval
+          {approval.reason ? `: ${approval.reason}` : "."}
         </ConfirmationRequest>
+        {responded ? (
+          <span>{approval.approved ? "Approved, running…" : "Rejected"}</span>
+        ) : null}
         <ConfirmationAccepted>
           <CheckIcon className="h-3 w-3" />
           <span>Approved</span>
@@ -475,12 +2307,24 @@ function renderConfirmation(tool: ToolCall) {
           </span>
         </ConfirmationRejected>
       </ConfirmationTitle>
-      {state === "approval-requested" ? (
-        <ConfirmationActions>
-          <ConfirmationAction variant="outline">Reject</ConfirmationAction>
-          <ConfirmationAction>Accept</ConfirmationAction>
-        </ConfirmationActions>
-      ) : null}
+      <ConfirmationActions>
+        <ConfirmationReasonInput
+          value={reason}
+          onChange={setReason}
+          placeholder="Reason for rejecting (optional)"
+        />
+        <ConfirmationAction
+          variant="outline"
+          onClick={() =>
+            onApprovalResponse?.(tool, false, reason.trim() || undefined)
+          }
+        >
+          Reject
+        </ConfirmationAction>
+        <ConfirmationAction onClick={() => onApprovalResponse?.(tool, true)}>
+          Accept
+        </ConfirmationAction>
+      </ConfirmationActions>
     </Confirmation>
   );
 }
@@ -0,0 +1,235 @@
+'use client';
+
+import { useRef, useState, type ReactNode } from "react";
+import { LogOut, Pencil, Plus, Trash2, Upload, Users } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+
+export function ChatHistory({
+  children,
+  className,
+}: {
+  children: ReactNode;
+  className?: string;
+}) {
+  return (
+    <aside
+      className={cn(
+        "flex h-full w-64 shrink-0 flex-col gap-3 border-r border-zinc-200 bg-white px-3 py-4 dark:border-zinc-800 dark:bg-zinc-900",
+        className,
+      )}
+    >
+      {children}
+    </aside>
+  );
+}
+
+export function ChatHistoryNewButton({ onClick }: { onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="flex items-center justify-center gap-2 rounded-xl border border-zinc-200 px-3 py-2 text-xs font-medium text-zinc-600 transition hover:border-zinc-300 hover:text-zinc-800 dark:border-zinc-700 dark:text-zinc-300 dark:hover:border-zinc-500"
+    >
+      <Plus className="h-3.5 w-3.5" />
+      New chat
+    </button>
+  );
+}
+
+export function ChatHistoryImportButton({
+  onImport,
+}: {
+  onImport: (file: File) => void;
+}) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        className="flex items-center justify-center gap-2 rounded-xl px-3 py-1 text-[11px] text-zinc-400 transition hover:text-zinc-700 dark:hover:text-zinc-200"
+      >
+        <Upload className="h-3 w-3" />
+        Import JSON
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          if (file) onImport(file);
+          event.target.value = "";
+        }}
+      />
+    </>
+  );
+}
+
+export function ChatHistorySearch({
+  value,
+  onChange,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <input
+      type="search"
+      value={value}
+      onChange={(event) => onChange(event.target.value)}
+      placeholder="Search chats…"
+      className="w-full rounded-lg border border-zinc-200 bg-white px-2 py-1.5 text-xs outline-none focus:border-black dark:border-zinc-700 dark:bg-zinc-950 dark:focus:border-zinc-100"
+    />
+  );
+}
+
+export function ChatHistoryList({ children }: { children: ReactNode }) {
+  return (
+    <ul className="-mx-1 flex flex-1 flex-col gap-1 overflow-y-auto px-1">
+      {children}
+    </ul>
+  );
+}
+
+export function ChatHistoryHeading({ children }: { children: ReactNode }) {
+  return (
+    <li className="px-2 pt-2 text-[10px] font-semibold uppercase tracking-wide text-zinc-400 dark:text-zinc-500">
+      {children}
+    </li>
+  );
+}
+
+export function ChatHistoryEmpty({ children }: { children: ReactNode }) {
+  return <p className="px-2 text-xs text-zinc-400 dark:text-zinc-500">{children}</p>;
+}
+
+/**
+ * A saved chat. Leave out onRename and onDelete for read-only (shared) chats.
+ */
+export function ChatHistoryItem({
+  title,
+  updatedAt,
+  active,
+  sharedIn,
+  onSelect,
+  onRename,
+  onDelete,
+}: {
+  title: string;
+  updatedAt: string;
+  active?: boolean;
+  /** Name of the workspace the chat is shared in */
+  sharedIn?: string;
+  onSelect: () => void;
+  onRename?: (title: string) => void;
+  onDelete?: () => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(title);
+
+  const commit = () => {
+    setEditing(false);
+    const next = draft.trim();
+    if (next && next !== title) onRename?.(next);
+    else setDraft(title);
+  };
+
+  return (
+    <li
+      className={cn(
+        "group flex items-center gap-1 rounded-lg px-2 py-1.5 text-xs transition",
+        active
+          ? "bg-zinc-100 text-zinc-900 dark:bg-zinc-800 dark:text-zinc-100"
+          : "text-zinc-600 hover:bg-zinc-50 dark:text-zinc-300 dark:hover:bg-zinc-800/50",
+      )}
+    >
+      {editing ? (
+        <input
+          autoFocus
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          onBlur={commit}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") commit();
+            if (event.key === "Escape") {
+              setDraft(title);
+              setEditing(false);
+            }
+          }}
+          className="min-w-0 flex-1 rounded border border-zinc-300 bg-white px-1 py-0.5 outline-none dark:border-zinc-600 dark:bg-zinc-950"
+        />
+      ) : (
+        <button
+          type="button"
+          onClick={onSelect}
+          className="flex min-w-0 flex-1 flex-col text-left"
+        >
+          <span className="truncate font-medium">{title}</span>
+          <span className="flex items-center gap-1 text-[10px] text-zinc-400">
+            {sharedIn ? (
+              <>
+                <Users className="h-2.5 w-2.5 shrink-0" />
+                <span className="truncate">{sharedIn} ·</span>
+              </>
+            ) : null}
+            {new Date(updatedAt).toLocaleString()}
+          </span>
+        </button>
+      )}
+      {!editing && onRename && onDelete ? (
+        <div className="flex shrink-0 gap-1 opacity-0 transition group-hover:opacity-100">
+          <button
+            type="button"
+            onClick={() => {
+              setDraft(title);
+              setEditing(true);
+            }}
+            aria-label="Rename chat"
+            className="rounded p-1 text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-100"
+          >
+            <Pencil className="h-3 w-3" />
+          </button>
+          <button
+            type="button"
+            onClick={onDelete}
+            aria-label="Delete chat"
+            className="rounded p-1 text-zinc-400 hover:text-red-600"
+          >
+            <Trash2 className="h-3 w-3" />
+          </button>
+        </div>
+      ) : null}
+    </li>
+  );
+}
+
+export function ChatHistoryAccount({
+  email,
+  name,
+  onSignOut,
+}: {
+  email: string;
+  name?: string;
+  onSignOut: () => void;
+}) {
+  return (
+    <div className="flex items-center gap-2 border-t border-zinc-200 pt-3 text-xs dark:border-zinc-800">
+      <div className="flex min-w-0 flex-1 flex-col">
+        {name ? <span className="truncate font-medium">{name}</span> : null}
+        <span className="truncate text-zinc-400">{email}</span>
+      </div>
+      <button
+        type="button"
+        onClick={onSignOut}
+        aria-label="Sign out"
+        title="Sign out"
+        className="rounded p-1 text-zinc-400 transition hover:text-zinc-700 dark:hover:text-zinc-100"
+      >
+        <LogOut className="h-3.5 w-3.5" />
+      </button>
+    </div>
+  );
+}
@@ -1,9 +1,30 @@
 'use client';
 
-import type { ReactNode } from "react";
+import { createContext, useContext, type ReactNode } from "react";
 
 import { cn } from "@/lib/utils";
 
+type ConfirmationContextValue = {
+  state: string;
+  approval?: { id: string; approved?: boolean; reason?: string };
+};
+
+const ConfirmationContext = createContext<ConfirmationContextValue | null>(
+  null,
+);
+
+function useConfirmationContext(): ConfirmationContextValue {
+  const ctx = useContext(ConfirmationContext);
+  if (!ctx) {
+    throw new Error("Confirmation components must be used within <Confirmation>");
+  }
+  return ctx;
+}
+
+function isRejected({ state, approval }: ConfirmationContextValue) {
+  return approval?.approved === false || state === "output-denied";
+}
+
 export function Confirmation({
   children,
   state,
@@ -21,9 +42,11 @@ export function Confirmation({
         : "border-emerald-200 bg-emerald-50 text-emerald-700 dark:border-emerald-700 dark:bg-emerald-950/30 dark:text-emerald-200";
 
   return (
-    <div className={cn("rounded-lg border p-3 text-xs", tone)} data-state={state}>
-      {children}
-    </div>
+    <ConfirmationContext.Provider value={{ state, approval }}>
+      <div className={cn("rounded-lg border p-3 text-xs", tone)} data-state={state}>
+        {children}
+      </div>
+    </ConfirmationContext.Provider>
   );
 }
 
@@ -32,19 +55,49 @@ export function ConfirmationTitle({ children }: { children: ReactNode }) {
 }
 
 export function ConfirmationRequest({ children }: { children: ReactNode }) {
+  const ctx = useConfirmationContext();
+  if (ctx.state !== "approval-requested") return null;
   return <p>{children}</p>;
 }
 
 export function ConfirmationAccepted({ children }: { children: ReactNode }) {
+  const ctx = useConfirmationContext();
+  if (ctx.state === "approval-requested" || ctx.approval?.approved !== true) {
+    return null;
+  }
   return <div className="flex items-center gap-2 text-xs">{children}</div>;
 }
 
 export function ConfirmationRejected({ children }: { children: ReactNode }) {
+  const ctx = useConfirmationContext();
+  if (ctx.state === "approval-requested" || !isRejected(ctx)) return null;
   return <div className="flex items-center gap-2 text-xs">{children}</div>;
 }
 
 export function ConfirmationActions({ children }: { children: ReactNode }) {
-  return <div className="mt-3 flex gap-2">{children}</div>;
+  const ctx = useConfirmationContext();
+  if (ctx.state !== "approval-requested") return null;
+  return <div className="mt-3 flex flex-wrap gap-2">{children}</div>;
+}
+
+export function ConfirmationReasonInput({
+  value,
+  onChange,
+  placeholder = "Reason (optional)",
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}) {
+  return (
+    <input
+      type="text"
+      value={value}
+      onChange={(event) => onChange(event.target.value)}
+      placeholder={placeholder}
+      className="min-w-0 flex-1 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-xs text-zinc-700 outline-none focus:border-black dark:border-zinc-700 dark:bg-zinc-950 dark:text-zinc-200 dark:focus:border-zinc-100"
+    />
+  );
 }
 
 export function ConfirmationAction({
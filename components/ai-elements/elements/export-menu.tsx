@@ -0,0 +1,47 @@
+'use client';
+
+import type { ReactNode } from "react";
+import { Download } from "lucide-react";
+
+export function ExportMenu({
+  children,
+  label = "Export",
+}: {
+  children: ReactNode;
+  label?: string;
+}) {
+  return (
+    <details className="group relative">
+      <summary className="flex cursor-pointer list-none items-center gap-1.5 rounded-xl border border-zinc-200 px-3 py-2 text-xs text-zinc-500 transition hover:border-zinc-300 hover:text-zinc-700 dark:border-zinc-700 dark:text-zinc-300 dark:hover:border-zinc-500 [&::-webkit-details-marker]:hidden">
+        <Download className="h-3.5 w-3.5" />
+        {label}
+      </summary>
+      <div className="absolute bottom-full left-0 z-20 mb-2 flex w-44 flex-col rounded-xl border border-zinc-200 bg-white p-1 shadow-lg dark:border-zinc-700 dark:bg-zinc-900">
+        {children}
+      </div>
+    </details>
+  );
+}
+
+export function ExportMenuItem({
+  href,
+  download,
+  children,
+}: {
+  href: string;
+  /** Save the response as a file instead of opening it in a new tab */
+  download?: boolean;
+  children: ReactNode;
+}) {
+  return (
+    <a
+      href={href}
+      download={download || undefined}
+      target={download ? undefined : "_blank"}
+      rel={download ? undefined : "noreferrer"}
+      className="rounded-lg px-3 py-1.5 text-xs text-zinc-600 transition hover:bg-zinc-100 dark:text-zinc-300 dark:hover:bg-zinc-800"
+    >
+      {children}
+    </a>
+  );
+}
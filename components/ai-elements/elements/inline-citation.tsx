@@ -0,0 +1,78 @@
+'use client';
+
+import type { ReactNode } from "react";
+
+import { cn } from "@/lib/utils";
+
+export function InlineCitation({
+  number,
+  url,
+  title,
+  quote,
+}: {
+  number: number;
+  url?: string;
+  title?: string;
+  quote?: string;
+}) {
+  // A number the model made up: flag it instead of linking nowhere
+  if (!url) {
+    return (
+      <span
+        title={`[${number}] doesn't match any source fetched in this turn`}
+        className="mx-0.5 inline-flex items-center rounded bg-red-100 px-1 align-super text-[10px] font-semibold text-red-700 line-through decoration-red-400 dark:bg-red-950/60 dark:text-red-300"
+      >
+        {number}
+      </span>
+    );
+  }
+
+  return (
+    <span className="group/citation relative inline-block">
+      <a
+        href={url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="mx-0.5 inline-flex items-center rounded bg-zinc-100 px-1 align-super text-[10px] font-semibold text-zinc-600 no-underline transition hover:bg-blue-100 hover:text-blue-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-blue-950 dark:hover:text-blue-300"
+      >
+        {number}
+      </a>
+      <InlineCitationCard>
+        <span className="block font-semibold text-zinc-900 dark:text-zinc-100">
+          {title || hostOf(url)}
+        </span>
+        <span className="block truncate text-[11px] text-blue-600 dark:text-blue-400">
+          {url}
+        </span>
+        {quote ? (
+          <span className="mt-2 block border-l-2 border-zinc-200 pl-2 text-zinc-600 italic dark:border-zinc-700 dark:text-zinc-300">
+            {quote}
+          </span>
+        ) : null}
+      </InlineCitationCard>
+    </span>
+  );
+}
+
+function InlineCitationCard({ children }: { children: ReactNode }) {
+  return (
+    <span
+      role="tooltip"
+      className={cn(
+        "pointer-events-none invisible absolute bottom-full left-1/2 z-20 mb-1 block w-72 -translate-x-1/2 rounded-lg border border-zinc-200 bg-white p-3 text-left text-xs font-normal leading-5 opacity-0 shadow-lg transition",
+        "group-hover/citation:pointer-events-auto group-hover/citation:visible group-hover/citation:opacity-100 group-focus-within/citation:visible group-focus-within/citation:opacity-100",
+        "dark:border-zinc-700 dark:bg-zinc-900",
+      )}
+    >
+      {children}
+    </span>
+  );
+}
+
+function hostOf(url: string) {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,146 @@
+'use client';
+
+import { useState } from "react";
+
+import type { DiffLine, HunkLine } from "@/lib/markdown-diff";
+import { cn } from "@/lib/utils";
+
+type DiffMode = "unified" | "split";
+
+type SplitRow =
+  | { type: "skipped"; count: number }
+  | { type: "pair"; left?: DiffLine; right?: DiffLine };
+
+const lineClass: Record<DiffLine["type"], string> = {
+  equal: "text-zinc-600 dark:text-zinc-300",
+  added: "bg-green-50 text-green-800 dark:bg-green-950/40 dark:text-green-300",
+  removed: "bg-red-50 text-red-800 dark:bg-red-950/40 dark:text-red-300",
+};
+
+const markers: Record<DiffLine["type"], string> = {
+  equal: " ",
+  added: "+",
+  removed: "-",
+};
+
+/**
+ * A line diff shown unified (one column of +/- lines) or side by side, with
+ * long unchanged runs collapsed.
+ */
+export function DiffView({
+  lines,
+  className,
+}: {
+  lines: HunkLine[];
+  className?: string;
+}) {
+  const [mode, setMode] = useState<DiffMode>("unified");
+
+  return (
+    <div className={cn("flex flex-col gap-1", className)}>
+      <div className="flex gap-1 self-end text-[11px]">
+        {(["unified", "split"] as const).map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setMode(option)}
+            className={cn(
+              "rounded px-1.5 py-0.5",
+              mode === option
+                ? "bg-zinc-200 text-zinc-800 dark:bg-zinc-700 dark:text-zinc-100"
+                : "text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200",
+            )}
+          >
+            {option === "unified" ? "Unified" : "Side by side"}
+          </button>
+        ))}
+      </div>
+      <div className="max-h-96 overflow-auto rounded-lg border border-zinc-200 font-mono text-[11px] dark:border-zinc-700">
+        {mode === "unified" ? (
+          lines.map((line, index) =>
+            line.type === "skipped" ? (
+              <SkippedRow key={index} count={line.count} />
+            ) : (
+              <div
+                key={index}
+                className={cn("flex gap-2 px-2 whitespace-pre-wrap", lineClass[line.type])}
+              >
+                <span className="select-none text-zinc-400">{markers[line.type]}</span>
+                <span className="wrap-break-word min-w-0">{line.text}</span>
+              </div>
+            ),
+          )
+        ) : (
+          <div className="grid grid-cols-2">
+            {toSplitRows(lines).map((row, index) =>
+              row.type === "skipped" ? (
+                <div key={index} className="col-span-2">
+                  <SkippedRow count={row.count} />
+                </div>
+              ) : (
+                <div key={index} className="contents">
+                  <SplitCell line={row.left} />
+                  <SplitCell line={row.right} className="border-l border-zinc-200 dark:border-zinc-700" />
+                </div>
+              ),
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SkippedRow({ count }: { count: number }) {
+  return (
+    <div className="bg-zinc-50 px-2 py-0.5 text-zinc-400 dark:bg-zinc-800/60">
+      ⋯ {count} unchanged line{count === 1 ? "" : "s"}
+    </div>
+  );
+}
+
+function SplitCell({ line, className }: { line?: DiffLine; className?: string }) {
+  return (
+    <div
+      className={cn(
+        "min-w-0 px-2 whitespace-pre-wrap wrap-break-word",
+        line ? lineClass[line.type] : "bg-zinc-50 dark:bg-zinc-900",
+        className,
+      )}
+    >
+      {line?.text ?? ""}
+    </div>
+  );
+}
+
+/**
+ * Pairs each run of removed lines with the added lines that follow it, so
+ * replaced lines sit next to each other.
+ */
+function toSplitRows(lines: HunkLine[]): SplitRow[] {
+  const rows: SplitRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let index = 0; index < Math.max(removed.length, added.length); index += 1) {
+      rows.push({ type: "pair", left: removed[index], right: added[index] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === "removed") {
+      if (added.length) flush();
+      removed.push(line);
+    } else if (line.type === "added") {
+      added.push(line);
+    } else {
+      flush();
+      rows.push(line.type === "skipped" ? line : { type: "pair", left: line, right: line });
+    }
+  }
+  flush();
+  return rows;
+}
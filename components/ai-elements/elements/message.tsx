@@ -2,6 +2,7 @@
 
 import Image from "next/image";
 import { ReactNode } from "react";
+import { FileText } from "lucide-react";
 
 import { cn } from "@/lib/utils";
 
@@ -57,3 +58,57 @@ export function MessageContent({ children }: { children: ReactNode }) {
     </div>
   );
 }
+
+export function MessageAttachments({ children }: { children: ReactNode }) {
+  return <div className="flex flex-wrap gap-2">{children}</div>;
+}
+
+export function MessageAttachment({
+  url,
+  mediaType,
+  filename,
+}: {
+  /** Missing once the file was replaced by its extracted text */
+  url?: string;
+  mediaType: string;
+  filename?: string;
+}) {
+  const name = filename ?? 'attachment';
+  const chipClassName =
+    'flex max-w-56 items-center gap-2 rounded-lg border border-zinc-200 bg-zinc-50 px-2 py-1.5 text-xs text-zinc-600 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300';
+
+  if (!url) {
+    return (
+      <span className={chipClassName} title={name}>
+        <FileText className="h-4 w-4 shrink-0 text-zinc-400" />
+        <span className="truncate">{name}</span>
+      </span>
+    );
+  }
+
+  if (mediaType.startsWith('image/')) {
+    return (
+      <a href={url} target="_blank" rel="noreferrer" title={name}>
+        <Image
+          src={url}
+          alt={name}
+          width={80}
+          height={80}
+          unoptimized
+          className="h-20 w-20 rounded-lg border border-zinc-200 object-cover dark:border-zinc-700"
+        />
+      </a>
+    );
+  }
+
+  return (
+    <a
+      href={url}
+      download={name}
+      className={cn(chipClassName, 'hover:border-zinc-300')}
+    >
+      <FileText className="h-4 w-4 shrink-0 text-zinc-400" />
+      <span className="truncate">{name}</span>
+    </a>
+  );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Bell } from "lucide-react";
+
+import type { MonitorNotification } from "@/lib/monitors";
+import { cn } from "@/lib/utils";
+
+const POLL_INTERVAL_MS = 60_000;
+
+/**
+ * Change notifications from monitored pages, polled in the background. Opening
+ * the list marks everything in it as read.
+ */
+export function Notifications() {
+  const [notifications, setNotifications] = useState<MonitorNotification[]>([]);
+  const [unread, setUnread] = useState(0);
+
+  const load = useCallback(() => {
+    fetch("/api/notifications")
+      .then(async (response) => {
+        if (!response.ok) return;
+        const data: { notifications: MonitorNotification[]; unread: number } =
+          await response.json();
+        setNotifications(data.notifications);
+        setUnread(data.unread);
+      })
+      .catch(() => undefined);
+  }, []);
+
+  useEffect(() => {
+    load();
+    const interval = setInterval(load, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [load]);
+
+  const markRead = () => {
+    if (unread === 0) return;
+    setUnread(0);
+    fetch("/api/notifications", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        ids: notifications.filter((item) => !item.readAt).map((item) => item.id),
+      }),
+    }).catch(() => undefined);
+  };
+
+  return (
+    <details
+      className="group border-t border-zinc-200 pt-3 text-xs dark:border-zinc-800"
+      onToggle={(event) => {
+        if (event.currentTarget.open) markRead();
+      }}
+    >
+      <summary className="flex cursor-pointer list-none items-center gap-1.5 text-[10px] font-semibold uppercase tracking-wide text-zinc-400 [&::-webkit-details-marker]:hidden">
+        <Bell className="h-3 w-3" />
+        Page changes
+        {unread ? (
+          <span className="ml-auto rounded-full bg-blue-600 px-1.5 text-[10px] font-medium normal-case tracking-normal text-white">
+            {unread}
+          </span>
+        ) : null}
+      </summary>
+      <div className="mt-2 flex max-h-64 flex-col gap-2 overflow-y-auto">
+        {notifications.length === 0 ? (
+          <p className="text-[11px] text-zinc-400">
+            No changes yet. Ask the assistant to watch a page, or add one on
+            the monitors page.
+          </p>
+        ) : null}
+        {notifications.map((notification) => (
+          <div
+            key={notification.id}
+            className={cn(
+              "flex flex-col gap-1 rounded-lg px-2 py-1.5",
+              notification.readAt
+                ? "bg-zinc-50 dark:bg-zinc-800/50"
+                : "bg-blue-50 dark:bg-blue-950/40",
+            )}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <a
+                href={notification.url}
+                target="_blank"
+                rel="noreferrer"
+                className="truncate font-medium hover:underline"
+                title={notification.url}
+              >
+                {hostAndPath(notification.url)}
+              </a>
+              <span className="shrink-0 text-[10px] text-zinc-400">
+                {new Date(notification.createdAt).toLocaleDateString()}
+              </span>
+            </div>
+            <p className="text-[11px] text-zinc-600 dark:text-zinc-300">
+              {notification.summary}
+            </p>
+            <span className="text-[10px] text-zinc-400">
+              +{notification.added} −{notification.removed} lines
+            </span>
+          </div>
+        ))}
+        <Link
+          href="/monitors"
+          className="text-[11px] text-zinc-500 hover:text-zinc-800 hover:underline dark:hover:text-zinc-100"
+        >
+          Manage monitors
+        </Link>
+      </div>
+    </details>
+  );
+}
+
+function hostAndPath(url: string) {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.hostname.replace(/^www\./, "")}${parsed.pathname === "/" ? "" : parsed.pathname}`;
+  } catch {
+    return url;
+  }
+}
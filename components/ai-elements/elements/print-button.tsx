@@ -0,0 +1,16 @@
+'use client';
+
+import { Printer } from "lucide-react";
+
+export function PrintButton({ label = "Print / Save as PDF" }: { label?: string }) {
+  return (
+    <button
+      type="button"
+      onClick={() => window.print()}
+      className="flex shrink-0 items-center gap-2 rounded-xl border border-zinc-200 px-3 py-2 text-xs text-zinc-600 transition hover:border-zinc-300 hover:text-zinc-800 print:hidden"
+    >
+      <Printer className="h-4 w-4" />
+      {label}
+    </button>
+  );
+}
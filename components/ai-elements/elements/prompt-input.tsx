@@ -1,6 +1,20 @@
 'use client';
 
-import { FormEvent, ReactNode } from "react";
+import Image from "next/image";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  type ChangeEvent,
+  type DragEvent,
+  type FormEvent,
+  type ReactNode,
+} from "react";
+import type { FileUIPart } from "ai";
+import { FileText, Paperclip, X } from "lucide-react";
 
 import { cn } from "@/lib/utils";
 
@@ -9,14 +23,139 @@ export type PromptInputMessage = {
   files?: File[];
 };
 
+export type PromptInputAttachment = {
+  id: string;
+  file: File;
+  /** Object URL used to preview image attachments */
+  previewUrl?: string;
+};
+
 type PromptInputProps = {
   children: ReactNode;
   onSubmit?: (message: PromptInputMessage) => void;
+  /** Accept files dropped anywhere on the page, not just on the form */
   globalDrop?: boolean;
   multiple?: boolean;
+  /** Value for the file picker's accept attribute; drops are filtered the same way */
+  accept?: string;
+  maxFiles?: number;
+  /** Per-file size limit in bytes */
+  maxFileSize?: number;
+  onError?: (message: string) => void;
 };
 
-export function PromptInput({ children, onSubmit }: PromptInputProps) {
+type PromptInputContextValue = {
+  attachments: PromptInputAttachment[];
+  addFiles: (files: FileList | File[]) => void;
+  removeAttachment: (id: string) => void;
+  openFileDialog: () => void;
+};
+
+const PromptInputContext = createContext<PromptInputContextValue | null>(null);
+
+export function usePromptInputAttachments(): PromptInputContextValue {
+  const ctx = useContext(PromptInputContext);
+  if (!ctx) {
+    throw new Error("PromptInput components must be used within <PromptInput>");
+  }
+  return ctx;
+}
+
+export function PromptInput({
+  children,
+  onSubmit,
+  globalDrop = false,
+  multiple = true,
+  accept,
+  maxFiles,
+  maxFileSize,
+  onError,
+}: PromptInputProps) {
+  const [attachments, setAttachments] = useState<PromptInputAttachment[]>([]);
+  const [dragging, setDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Release preview URLs for attachments that are gone
+  const previewUrls = useRef(new Set<string>());
+  useEffect(() => {
+    const current = new Set(
+      attachments.flatMap((attachment) =>
+        attachment.previewUrl ? [attachment.previewUrl] : [],
+      ),
+    );
+    previewUrls.current.forEach((url) => {
+      if (!current.has(url)) URL.revokeObjectURL(url);
+    });
+    previewUrls.current = current;
+  }, [attachments]);
+
+  const addFiles = useCallback(
+    (incoming: FileList | File[]) => {
+      const files = Array.from(incoming);
+      const accepted = files.filter((file) => matchesAccept(file, accept));
+      if (accepted.length < files.length) {
+        onError?.("Some files were skipped because their type isn't supported.");
+      }
+
+      const sized = accepted.filter(
+        (file) => !maxFileSize || file.size <= maxFileSize,
+      );
+      if (sized.length < accepted.length) {
+        onError?.(
+          `Files larger than ${formatBytes(maxFileSize ?? 0)} were skipped.`,
+        );
+      }
+
+      setAttachments((previous) => {
+        const base = multiple ? previous : [];
+        const room = maxFiles ? Math.max(maxFiles - base.length, 0) : sized.length;
+        const next = (multiple ? sized : sized.slice(0, 1)).slice(0, room);
+        if (next.length < (multiple ? sized.length : Math.min(sized.length, 1))) {
+          onError?.(`You can attach up to ${maxFiles} files.`);
+        }
+        return [
+          ...base,
+          ...next.map((file) => ({
+            id: `${file.name}-${file.size}-${file.lastModified}-${Math.random().toString(36).slice(2, 8)}`,
+            file,
+            previewUrl: file.type.startsWith("image/")
+              ? URL.createObjectURL(file)
+              : undefined,
+          })),
+        ];
+      });
+    },
+    [accept, maxFileSize, maxFiles, multiple, onError],
+  );
+
+  const removeAttachment = useCallback((id: string) => {
+    setAttachments((previous) =>
+      previous.filter((attachment) => attachment.id !== id),
+    );
+  }, []);
+
+  const openFileDialog = useCallback(() => fileInputRef.current?.click(), []);
+
+  useEffect(() => {
+    if (!globalDrop) return;
+
+    const handleDragOver = (event: globalThis.DragEvent) => {
+      if (event.dataTransfer?.types.includes("Files")) event.preventDefault();
+    };
+    const handleDrop = (event: globalThis.DragEvent) => {
+      if (!event.dataTransfer?.files.length) return;
+      event.preventDefault();
+      addFiles(event.dataTransfer.files);
+    };
+
+    document.addEventListener("dragover", handleDragOver);
+    document.addEventListener("drop", handleDrop);
+    return () => {
+      document.removeEventListener("dragover", handleDragOver);
+      document.removeEventListener("drop", handleDrop);
+    };
+  }, [addFiles, globalDrop]);
+
   const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     const form = event.currentTarget;
@@ -24,32 +163,204 @@ export function PromptInput({ children, onSubmit }: PromptInputProps) {
       | HTMLTextAreaElement
       | null;
     const text = textArea?.value ?? "";
-    const files: File[] = [];
+    const files = attachments.map((attachment) => attachment.file);
 
     onSubmit?.({ text, files });
+    setAttachments([]);
+  };
+
+  const handleDragOver = (event: DragEvent<HTMLFormElement>) => {
+    if (!event.dataTransfer.types.includes("Files")) return;
+    event.preventDefault();
+    setDragging(true);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLFormElement>) => {
+    setDragging(false);
+    if (!event.dataTransfer.files.length) return;
+    event.preventDefault();
+    // Stop the document-level handler from adding the same files again
+    event.stopPropagation();
+    addFiles(event.dataTransfer.files);
+  };
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    if (event.target.files) addFiles(event.target.files);
+    // Allow picking the same file again after removing it
+    event.target.value = "";
   };
 
   return (
-    <form
-      onSubmit={handleSubmit}
-      className="flex w-full flex-col gap-3 rounded-2xl border border-zinc-200 bg-white p-4 shadow-sm dark:border-zinc-800 dark:bg-zinc-900"
+    <PromptInputContext.Provider
+      value={{ attachments, addFiles, removeAttachment, openFileDialog }}
     >
-      {children}
-    </form>
+      <form
+        onSubmit={handleSubmit}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        className={cn(
+          "flex w-full flex-col gap-3 rounded-2xl border border-zinc-200 bg-white p-4 shadow-sm transition dark:border-zinc-800 dark:bg-zinc-900",
+          dragging &&
+            "border-dashed border-zinc-400 bg-zinc-50 dark:border-zinc-500 dark:bg-zinc-800/60",
+        )}
+      >
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={accept}
+          multiple={multiple}
+          onChange={handleFileChange}
+          className="hidden"
+          aria-hidden
+          tabIndex={-1}
+        />
+        {children}
+      </form>
+    </PromptInputContext.Provider>
   );
 }
 
 export function PromptInputHeader({ children }: { children: ReactNode }) {
-  return <div className="flex flex-wrap gap-2">{children}</div>;
+  return <div className="flex flex-wrap gap-2 empty:hidden">{children}</div>;
 }
 
 export function PromptInputAttachments({
   children,
 }: {
-  children: (attachment: File) => ReactNode;
+  children: (attachment: PromptInputAttachment) => ReactNode;
+}) {
+  const { attachments } = usePromptInputAttachments();
+  if (attachments.length === 0) return null;
+  return (
+    <>
+      {attachments.map((attachment) => (
+        <div key={attachment.id}>{children(attachment)}</div>
+      ))}
+    </>
+  );
+}
+
+export function PromptInputAttachmentChip({
+  data,
+}: {
+  data: PromptInputAttachment;
+}) {
+  const { removeAttachment } = usePromptInputAttachments();
+  return (
+    <div className="group flex max-w-56 items-center gap-2 rounded-lg border border-zinc-200 bg-zinc-50 py-1 pl-1 pr-2 text-xs text-zinc-600 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300">
+      {data.previewUrl ? (
+        <Image
+          src={data.previewUrl}
+          alt={data.file.name}
+          width={32}
+          height={32}
+          unoptimized
+          className="h-8 w-8 shrink-0 rounded object-cover"
+        />
+      ) : (
+        <span className="flex h-8 w-8 shrink-0 items-center justify-center rounded bg-white dark:bg-zinc-900">
+          <FileText className="h-4 w-4 text-zinc-400" />
+        </span>
+      )}
+      <span className="flex min-w-0 flex-col">
+        <span className="truncate font-medium">{data.file.name}</span>
+        <span className="text-[10px] text-zinc-400">
+          {formatBytes(data.file.size)}
+        </span>
+      </span>
+      <button
+        type="button"
+        onClick={() => removeAttachment(data.id)}
+        aria-label={`Remove ${data.file.name}`}
+        className="ml-1 rounded p-0.5 text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-100"
+      >
+        <X className="h-3 w-3" />
+      </button>
+    </div>
+  );
+}
+
+export function PromptInputAddAttachments({
+  label = "Attach files",
+}: {
+  label?: string;
 }) {
-  void children;
-  return null;
+  const { openFileDialog } = usePromptInputAttachments();
+  return (
+    <button
+      type="button"
+      onClick={openFileDialog}
+      aria-label={label}
+      title={label}
+      className="rounded-xl border border-zinc-200 px-3 py-2 text-xs text-zinc-500 transition hover:border-zinc-300 hover:text-zinc-700 dark:border-zinc-700 dark:text-zinc-300 dark:hover:border-zinc-500"
+    >
+      <Paperclip className="h-4 w-4" />
+    </button>
+  );
+}
+
+/**
+ * Reads attachments into data-URL file parts for `sendMessage`.
+ */
+export async function filesToFileUIParts(files: File[]): Promise<FileUIPart[]> {
+  return Promise.all(
+    files.map(
+      (file) =>
+        new Promise<FileUIPart>((resolve, reject) => {
+          const reader = new FileReader();
+          reader.onload = () =>
+            resolve({
+              type: "file",
+              mediaType: file.type || guessMediaType(file.name),
+              filename: file.name,
+              url: reader.result as string,
+            });
+          reader.onerror = () => reject(reader.error);
+          reader.readAsDataURL(file);
+        }),
+    ),
+  );
+}
+
+function matchesAccept(file: File, accept?: string) {
+  if (!accept) return true;
+  const name = file.name.toLowerCase();
+  const type = file.type.toLowerCase();
+  return accept
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .some((entry) =>
+      entry.startsWith(".")
+        ? name.endsWith(entry)
+        : entry.endsWith("/*")
+          ? type.startsWith(entry.slice(0, -1))
+          : type === entry,
+    );
+}
+
+// Browsers leave File.type empty for some extensions (notably .csv on Windows)
+function guessMediaType(name: string) {
+  const extension = name.toLowerCase().split(".").pop();
+  switch (extension) {
+    case "csv":
+      return "text/csv";
+    case "htm":
+    case "html":
+      return "text/html";
+    case "md":
+      return "text/markdown";
+    case "pdf":
+      return "application/pdf";
+    default:
+      return "text/plain";
+  }
+}
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
 
 export function PromptInputBody({ children }: { children: ReactNode }) {
@@ -80,22 +391,87 @@ export function PromptInputTextarea({
   );
 }
 
+export type PromptInputModelOption = {
+  id: string;
+  label: string;
+  disabled?: boolean;
+};
+
+export function PromptInputModelSelect({
+  value,
+  onChange,
+  options,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  options: PromptInputModelOption[];
+}) {
+  if (options.length === 0) return null;
+  return (
+    <select
+      value={value}
+      onChange={(event) => onChange(event.target.value)}
+      aria-label="Model"
+      className="max-w-48 truncate rounded-xl border border-zinc-200 bg-white px-2 py-2 text-xs text-zinc-500 outline-none transition hover:border-zinc-300 focus:border-black dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-300 dark:hover:border-zinc-500 dark:focus:border-zinc-100"
+    >
+      {options.map((option) => (
+        <option key={option.id} value={option.id} disabled={option.disabled}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export function PromptInputToggle({
+  pressed,
+  onPressedChange,
+  children,
+  title,
+}: {
+  pressed: boolean;
+  onPressedChange: (pressed: boolean) => void;
+  children: ReactNode;
+  title?: string;
+}) {
+  return (
+    <button
+      type="button"
+      aria-pressed={pressed}
+      title={title}
+      onClick={() => onPressedChange(!pressed)}
+      className={cn(
+        "flex items-center gap-1.5 rounded-xl border px-3 py-2 text-xs transition",
+        pressed
+          ? "border-blue-500 bg-blue-50 text-blue-700 dark:border-blue-400 dark:bg-blue-950/40 dark:text-blue-200"
+          : "border-zinc-200 text-zinc-500 hover:border-zinc-300 hover:text-zinc-700 dark:border-zinc-700 dark:text-zinc-300 dark:hover:border-zinc-500",
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
 export function PromptInputFooter({ children }: { children: ReactNode }) {
   return <div className="flex items-center justify-between gap-2">{children}</div>;
 }
 
 export function PromptInputSubmit({
   disabled,
+  empty,
   status,
 }: {
   disabled?: boolean;
+  /** No text typed; the button stays enabled if files are attached */
+  empty?: boolean;
   status: "submitted" | "streaming" | "ready" | "error";
 }) {
+  const { attachments } = usePromptInputAttachments();
   const loading = status === "submitted" || status === "streaming";
   return (
     <button
       type="submit"
-      disabled={disabled || loading}
+      disabled={disabled || loading || (empty && attachments.length === 0)}
       className="rounded-xl bg-black px-4 py-2 text-sm font-semibold text-white transition hover:bg-zinc-800 disabled:cursor-not-allowed disabled:bg-zinc-400 dark:bg-white dark:text-black dark:hover:bg-zinc-200 dark:disabled:bg-zinc-700/60"
     >
       {loading ? "Sending…" : "Send"}
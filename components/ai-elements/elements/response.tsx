@@ -6,15 +6,28 @@ import remarkGfm from "remark-gfm";
 import remarkMath from "remark-math";
 import rehypeKatex from "rehype-katex";
 
+import { InlineCitation } from "@/components/ai-elements/elements/inline-citation";
+import {
+  linkCitations,
+  quoteForCitation,
+  type MessageSource,
+} from "@/lib/citations";
+
 export function Response({
   children,
-  className
+  className,
+  sources,
 }: {
   children: ReactNode;
   className?: string;
+  /** When set, [n] markers render as citations of these sources */
+  sources?: MessageSource[];
 }) {
   // Convert children to string if it's a single string
-  const content = typeof children === "string" ? children : children?.toString() ?? "";
+  const raw = typeof children === "string" ? children : children?.toString() ?? "";
+  const { text: content, markers } = sources
+    ? linkCitations(raw)
+    : { text: raw, markers: [] };
 
   return (
     <div className={`prose prose-sm dark:prose-invert max-w-none [&>*:last-child]:mb-0 ${className ?? ""}`}>
@@ -74,17 +87,37 @@ export function Response({
             );
           },
           // Customize links to open in new tab
-          a: ({ href, children, ...props }) => (
-            <a
-              href={href}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-blue-600 dark:text-blue-400 hover:underline font-medium"
-              {...props}
-            >
-              {children}
-            </a>
-          ),
+          a: ({ href, children, ...props }) => {
+            const citation = /^#cite-(\d+)-(\d+)$/.exec(href ?? "");
+            if (citation) {
+              const number = Number(citation[1]);
+              const marker = markers[Number(citation[2])];
+              const source = sources?.find((item) => item.id === number);
+              return (
+                <InlineCitation
+                  number={number}
+                  url={source?.url}
+                  title={source?.title}
+                  quote={
+                    source && marker
+                      ? quoteForCitation(marker.sentence, source)
+                      : undefined
+                  }
+                />
+              );
+            }
+            return (
+              <a
+                href={href}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-600 dark:text-blue-400 hover:underline font-medium"
+                {...props}
+              >
+                {children}
+              </a>
+            );
+          },
           // Customize strong/bold
           strong: ({ children, ...props }) => (
             <strong className="font-bold text-zinc-900 dark:text-zinc-100" {...props}>
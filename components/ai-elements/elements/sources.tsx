@@ -0,0 +1,61 @@
+'use client';
+
+import type { ReactNode } from "react";
+import { TriangleAlert } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+
+export function Sources({ children }: { children: ReactNode }) {
+  return (
+    <div className="flex flex-col gap-2 border-t border-zinc-200 pt-3 text-xs dark:border-zinc-800">
+      <p className="font-semibold text-zinc-500 uppercase tracking-wide text-[10px]">
+        Sources
+      </p>
+      <ol className="flex flex-col gap-1">{children}</ol>
+    </div>
+  );
+}
+
+export function SourcesItem({
+  number,
+  url,
+  title,
+  cited,
+}: {
+  number: number;
+  url: string;
+  title?: string;
+  cited?: boolean;
+}) {
+  return (
+    <li
+      id={`source-${number}`}
+      className={cn("flex gap-2", !cited && "opacity-60")}
+    >
+      <span className="w-5 shrink-0 text-right font-mono text-zinc-400">
+        [{number}]
+      </span>
+      <a
+        href={url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="min-w-0 break-all text-blue-600 underline-offset-4 hover:underline dark:text-blue-400"
+      >
+        {title && title !== url ? `${title} — ` : ""}
+        {url}
+      </a>
+      {!cited ? (
+        <span className="shrink-0 text-[10px] text-zinc-400">not cited</span>
+      ) : null}
+    </li>
+  );
+}
+
+export function SourcesWarning({ children }: { children: ReactNode }) {
+  return (
+    <p className="flex items-center gap-1.5 text-red-600 dark:text-red-400">
+      <TriangleAlert className="h-3 w-3 shrink-0" />
+      {children}
+    </p>
+  );
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import { Coins } from "lucide-react";
+
+import {
+  formatCost,
+  formatTokens,
+  type ConversationUsage,
+  type TurnUsage,
+} from "@/lib/turn-usage";
+import { cn } from "@/lib/utils";
+
+/**
+ * Footer under an assistant message with the turn's model, tokens, estimated
+ * cost and Firecrawl credits.
+ */
+export function MessageUsage({
+  usage,
+  className,
+}: {
+  usage: TurnUsage;
+  className?: string;
+}) {
+  const items = [
+    usage.model,
+    `${formatTokens(usage.inputTokens)} in`,
+    `${formatTokens(usage.outputTokens)} out` +
+      (usage.reasoningTokens
+        ? ` (${formatTokens(usage.reasoningTokens)} reasoning)`
+        : ""),
+    usage.costUsd !== undefined ? `≈ ${formatCost(usage.costUsd)}` : null,
+    usage.firecrawlCredits
+      ? `${usage.firecrawlCredits} credit${usage.firecrawlCredits === 1 ? "" : "s"}`
+      : null,
+  ].filter(Boolean);
+
+  return (
+    <div
+      title={
+        usage.cachedInputTokens
+          ? `${usage.cachedInputTokens} input tokens read from the prompt cache`
+          : undefined
+      }
+      className={cn(
+        "border-t border-zinc-100 pt-2 text-[11px] text-zinc-400 dark:border-zinc-800 dark:text-zinc-500",
+        className,
+      )}
+    >
+      {items.join(" · ")}
+    </div>
+  );
+}
+
+/**
+ * Conversation totals, summarized as the estimated cost with a breakdown on
+ * open.
+ */
+export function ConversationUsagePanel({ usage }: { usage: ConversationUsage }) {
+  if (usage.turns === 0) return null;
+
+  const rows = [
+    ["Answers", String(usage.turns)],
+    ["Input tokens", usage.inputTokens.toLocaleString()],
+    ["Output tokens", usage.outputTokens.toLocaleString()],
+    ["Reasoning tokens", usage.reasoningTokens.toLocaleString()],
+    ["Firecrawl credits", usage.firecrawlCredits.toLocaleString()],
+    ["Estimated cost", formatCost(usage.costUsd)],
+  ];
+
+  return (
+    <details className="group relative">
+      <summary className="flex cursor-pointer list-none items-center gap-1.5 text-xs text-zinc-400 hover:text-zinc-600 dark:text-zinc-500 dark:hover:text-zinc-300 [&::-webkit-details-marker]:hidden">
+        <Coins className="h-3.5 w-3.5 shrink-0" />
+        {formatCost(usage.costUsd)} ·{" "}
+        {formatTokens(usage.inputTokens + usage.outputTokens)} tokens
+      </summary>
+      <div className="absolute bottom-full right-0 z-20 mb-2 w-56 rounded-xl border border-zinc-200 bg-white p-3 text-xs shadow-lg dark:border-zinc-700 dark:bg-zinc-900">
+        <p className="mb-2 font-medium text-zinc-700 dark:text-zinc-200">
+          This conversation
+        </p>
+        <dl className="grid grid-cols-[1fr_auto] gap-x-3 gap-y-1 text-zinc-500 dark:text-zinc-400">
+          {rows.map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt>{label}</dt>
+              <dd className="text-right tabular-nums text-zinc-700 dark:text-zinc-200">
+                {value}
+              </dd>
+            </div>
+          ))}
+        </dl>
+        {usage.unpricedTurns ? (
+          <p className="mt-2 text-[11px] text-zinc-400">
+            {usage.unpricedTurns} answer{usage.unpricedTurns === 1 ? "" : "s"}{" "}
+            used a model without a price and {usage.unpricedTurns === 1 ? "is" : "are"}{" "}
+            left out of the cost. Add it to MODEL_PRICES.
+          </p>
+        ) : null}
+      </div>
+    </details>
+  );
+}
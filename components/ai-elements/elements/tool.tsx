@@ -3,6 +3,7 @@
 import {
   createContext,
   useContext,
+  useEffect,
   useMemo,
   useState,
   type Dispatch,
@@ -10,6 +11,11 @@ import {
   type SetStateAction,
 } from "react";
 
+import { Gauge, LoaderCircle, ShieldBan } from "lucide-react";
+
+import type { ToolProgress } from "@/lib/tool-progress";
+import type { BudgetExhausted } from "@/lib/usage-limits";
+import type { PolicyDenial } from "@/lib/url-policy";
 import { cn } from "@/lib/utils";
 
 const stateLabels: Record<string, string> = {
@@ -20,6 +26,17 @@ const stateLabels: Record<string, string> = {
   "output-available": "Completed",
   "output-error": "Error",
   "output-denied": "Denied",
+  "policy-denied": "Blocked by policy",
+  "budget-exhausted": "Over budget",
+};
+
+const policyRuleLabels: Record<string, string> = {
+  "invalid-url": "Unsupported URL",
+  "private-host": "Private network address",
+  denylist: "Blocked domain",
+  "not-allowlisted": "Not on the allowed list",
+  robots: "Disallowed by robots.txt",
+  "policy-file": "Policy unavailable",
 };
 
 export function Tool({
@@ -55,10 +72,14 @@ export function ToolHeader({
   state,
   type,
   title,
+  cached,
+  fetchedAt,
 }: {
   state: string;
   type: string;
   title?: string;
+  cached?: boolean;
+  fetchedAt?: string;
 }) {
   const ctx = useToolContext();
   const label = stateLabels[state] ?? state;
@@ -72,13 +93,62 @@ export function ToolHeader({
         <span className="text-xs font-medium uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
           {title ?? type}
         </span>
-        <span>{label}</span>
+        <span className="flex items-center gap-2">
+          {label}
+          {cached ? (
+            <span
+              title={fetchedAt ? `Fetched ${new Date(fetchedAt).toLocaleString()}` : undefined}
+              className="rounded-full bg-emerald-100 px-2 py-0.5 text-[10px] font-medium uppercase tracking-wide text-emerald-700 dark:bg-emerald-500/15 dark:text-emerald-300"
+            >
+              cached
+            </span>
+          ) : null}
+        </span>
       </div>
       <span className="text-xs text-zinc-500 dark:text-zinc-400">{ctx.open ? "−" : "+"}</span>
     </button>
   );
 }
 
+/**
+ * The latest status a running tool streamed, with the time since it started.
+ * Shown under the header whether or not the card is open.
+ */
+export function ToolProgressLine({ progress }: { progress: ToolProgress }) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const elapsedSeconds = Math.max(
+    0,
+    Math.round((now - Date.parse(progress.startedAt)) / 1000),
+  );
+  const step =
+    progress.current !== undefined
+      ? progress.total
+        ? ` · ${progress.current}/${progress.total}`
+        : ` · ${progress.current}`
+      : "";
+
+  return (
+    <div className="flex items-center gap-2 border-t border-zinc-100 px-4 py-1.5 text-xs text-zinc-500 dark:border-zinc-800 dark:text-zinc-400">
+      <LoaderCircle className="h-3 w-3 shrink-0 animate-spin" />
+      <span className="min-w-0 flex-1 truncate">
+        {progress.status}
+        {step}
+      </span>
+      <span className="shrink-0 tabular-nums">
+        {elapsedSeconds < 60
+          ? `${elapsedSeconds}s`
+          : `${Math.floor(elapsedSeconds / 60)}m ${elapsedSeconds % 60}s`}
+      </span>
+    </div>
+  );
+}
+
 export function ToolContent({ children }: { children: ReactNode }) {
   const ctx = useToolContext();
   if (!ctx.open) return null;
@@ -101,10 +171,50 @@ export function ToolInput({ input }: { input: unknown }) {
 export function ToolOutput({
   output,
   errorText,
+  policyDenial,
+  budgetExhausted,
 }: {
   output?: ReactNode;
   errorText?: string;
+  /** Set when the URL policy blocked the call; shown instead of the output */
+  policyDenial?: PolicyDenial;
+  /** Set when the usage budget refused the call; shown instead of the output */
+  budgetExhausted?: BudgetExhausted;
 }) {
+  if (budgetExhausted) {
+    return (
+      <div className="flex gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800 dark:border-amber-800 dark:bg-amber-950/40 dark:text-amber-200">
+        <Gauge className="mt-0.5 h-4 w-4 shrink-0" />
+        <div className="flex min-w-0 flex-col gap-1">
+          <p className="font-semibold">
+            {budgetExhausted.limit === "credits"
+              ? "Daily Firecrawl credit budget exhausted"
+              : "Tool call limit reached"}
+          </p>
+          <p>{budgetExhausted.reason}</p>
+          {budgetExhausted.resetsAt ? (
+            <p className="text-amber-600 dark:text-amber-400">
+              Resets {new Date(budgetExhausted.resetsAt).toLocaleString()}
+            </p>
+          ) : null}
+        </div>
+      </div>
+    );
+  }
+  if (policyDenial) {
+    return (
+      <div className="flex gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800 dark:border-amber-800 dark:bg-amber-950/40 dark:text-amber-200">
+        <ShieldBan className="mt-0.5 h-4 w-4 shrink-0" />
+        <div className="flex min-w-0 flex-col gap-1">
+          <p className="font-semibold">
+            {policyRuleLabels[policyDenial.rule] ?? "Blocked by URL policy"}
+          </p>
+          <p className="break-all font-mono">{policyDenial.url}</p>
+          <p>{policyDenial.reason}</p>
+        </div>
+      </div>
+    );
+  }
   if (!output && !errorText) return null;
   return (
     <div
@@ -0,0 +1,166 @@
+'use client';
+
+import { useCallback, useEffect, useState } from "react";
+import { Activity, RefreshCw } from "lucide-react";
+
+import type { SpanRecord } from "@/lib/tracing";
+import { cn } from "@/lib/utils";
+
+type SpanRow = SpanRecord & { depth: number };
+
+/**
+ * The spans recorded for a message's requests as an indented waterfall. Each
+ * span opens to show its attributes and error.
+ */
+export function TraceView({ traceIds }: { traceIds: string[] }) {
+  const [spans, setSpans] = useState<SpanRecord[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const traceKey = traceIds.join(",");
+
+  const load = useCallback(() => {
+    Promise.all(
+      traceKey.split(",").map(async (id) => {
+        const response = await fetch(`/api/traces/${id}`);
+        if (!response.ok) return [];
+        const data: { spans: SpanRecord[] } = await response.json();
+        return data.spans;
+      }),
+    )
+      .then((results) => {
+        setSpans(results.flat());
+        setError(null);
+      })
+      .catch(() => setError("Could not load the trace."));
+  }, [traceKey]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const rows = spans ? orderSpans(spans) : [];
+  const start = Math.min(...rows.map((row) => nanosToMs(row.startTimeUnixNano)));
+  const end = Math.max(...rows.map((row) => nanosToMs(row.endTimeUnixNano)));
+  const total = Math.max(end - start, 1);
+
+  return (
+    <div className="rounded-xl border border-dashed border-zinc-200 p-2 text-[11px] dark:border-zinc-700">
+      <div className="mb-1 flex items-center justify-between gap-2 text-zinc-500 dark:text-zinc-400">
+        <span className="flex items-center gap-1.5 font-medium">
+          <Activity className="h-3 w-3" />
+          Trace
+          <span className="font-mono font-normal text-zinc-400">
+            {traceIds[traceIds.length - 1]?.slice(0, 8)}
+          </span>
+        </span>
+        <button
+          type="button"
+          onClick={load}
+          aria-label="Reload trace"
+          className="rounded p-0.5 hover:text-zinc-800 dark:hover:text-zinc-100"
+        >
+          <RefreshCw className="h-3 w-3" />
+        </button>
+      </div>
+      {error ? <p className="text-red-500">{error}</p> : null}
+      {spans && rows.length === 0 ? (
+        <p className="text-zinc-400">
+          No spans recorded yet. Traces are kept in memory for recent requests
+          and in the trace file when the JSONL exporter is on.
+        </p>
+      ) : null}
+      <ul className="flex flex-col">
+        {rows.map((row) => (
+          <li key={row.spanId}>
+            <details className="group">
+              <summary className="grid cursor-pointer list-none grid-cols-[minmax(0,1fr)_8rem_3.5rem] items-center gap-2 rounded px-1 py-0.5 hover:bg-zinc-50 dark:hover:bg-zinc-800/60 [&::-webkit-details-marker]:hidden">
+                <span
+                  className={cn(
+                    "truncate font-mono",
+                    row.status.code === "ERROR"
+                      ? "text-red-600 dark:text-red-400"
+                      : "text-zinc-700 dark:text-zinc-200",
+                  )}
+                  style={{ paddingLeft: `${row.depth * 12}px` }}
+                  title={row.name}
+                >
+                  {row.name}
+                </span>
+                <span className="relative h-1.5 rounded bg-zinc-100 dark:bg-zinc-800">
+                  <span
+                    className={cn(
+                      "absolute inset-y-0 rounded",
+                      row.status.code === "ERROR" ? "bg-red-400" : "bg-blue-400",
+                    )}
+                    style={{
+                      left: `${((nanosToMs(row.startTimeUnixNano) - start) / total) * 100}%`,
+                      width: `${Math.max((row.durationMs / total) * 100, 1)}%`,
+                    }}
+                  />
+                </span>
+                <span className="text-right tabular-nums text-zinc-400">
+                  {formatMs(row.durationMs)}
+                </span>
+              </summary>
+              <dl
+                className="mb-1 grid grid-cols-[auto_minmax(0,1fr)] gap-x-3 rounded bg-zinc-50 px-2 py-1 font-mono text-[10px] text-zinc-500 dark:bg-zinc-800/60 dark:text-zinc-400"
+                style={{ marginLeft: `${row.depth * 12 + 4}px` }}
+              >
+                {row.status.message ? (
+                  <>
+                    <dt>status</dt>
+                    <dd className="break-words text-red-600 dark:text-red-400">
+                      {row.status.message}
+                    </dd>
+                  </>
+                ) : null}
+                {Object.entries(row.attributes).map(([key, value]) => (
+                  <div key={key} className="contents">
+                    <dt>{key}</dt>
+                    <dd className="break-all text-zinc-700 dark:text-zinc-200">
+                      {String(value)}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </details>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Orders spans depth-first under their parents, oldest first at each level.
+ * Spans whose parent wasn't recorded (yet) are shown at the top level.
+ */
+function orderSpans(spans: SpanRecord[]): SpanRow[] {
+  const ids = new Set(spans.map((span) => span.spanId));
+  const children = new Map<string | undefined, SpanRecord[]>();
+  for (const span of spans) {
+    const parent =
+      span.parentSpanId && ids.has(span.parentSpanId) ? span.parentSpanId : undefined;
+    children.set(parent, [...(children.get(parent) ?? []), span]);
+  }
+
+  const rows: SpanRow[] = [];
+  const visit = (parent: string | undefined, depth: number) => {
+    const level = [...(children.get(parent) ?? [])].sort(
+      (a, b) => nanosToMs(a.startTimeUnixNano) - nanosToMs(b.startTimeUnixNano),
+    );
+    for (const span of level) {
+      rows.push({ ...span, depth });
+      visit(span.spanId, depth + 1);
+    }
+  };
+  visit(undefined, 0);
+  return rows;
+}
+
+function nanosToMs(nanos: string) {
+  return Number(nanos.slice(0, -6) || "0");
+}
+
+function formatMs(ms: number) {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import { Gauge } from "lucide-react";
+
+import type { UsageSummary } from "@/lib/usage-limits";
+import { cn } from "@/lib/utils";
+
+/**
+ * Remaining Firecrawl credits and tool calls. Limits of 0 are turned off and
+ * left out.
+ */
+export function UsageMeter({
+  usage,
+  className,
+}: {
+  usage: UsageSummary;
+  className?: string;
+}) {
+  const { credits, toolCalls, requests } = usage;
+  const items = [
+    credits.limit
+      ? { label: "credits", remaining: credits.remaining, limit: credits.limit }
+      : null,
+    toolCalls.limit
+      ? { label: "tool calls", remaining: toolCalls.remaining, limit: toolCalls.limit }
+      : null,
+  ].filter((item): item is { label: string; remaining: number; limit: number } =>
+    Boolean(item),
+  );
+  if (items.length === 0) return null;
+
+  const low = items.some((item) => item.remaining <= item.limit * 0.1);
+  const title = [
+    credits.limit
+      ? `${credits.used} of ${credits.limit} Firecrawl credits used today; resets ${new Date(credits.resetsAt).toLocaleString()}`
+      : null,
+    toolCalls.limit
+      ? `${toolCalls.used} of ${toolCalls.limit} tool calls used in this chat`
+      : null,
+    requests.limit ? `${requests.remaining} of ${requests.limit} requests left this minute` : null,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  return (
+    <span
+      title={title}
+      className={cn(
+        "flex items-center gap-1.5 text-xs",
+        low ? "text-amber-600 dark:text-amber-400" : "text-zinc-400 dark:text-zinc-500",
+        className,
+      )}
+    >
+      <Gauge className="h-3.5 w-3.5 shrink-0" />
+      {items
+        .map((item) => `${item.remaining}/${item.limit} ${item.label}`)
+        .join(" · ")}
+    </span>
+  );
+}
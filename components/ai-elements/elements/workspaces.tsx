@@ -0,0 +1,148 @@
+'use client';
+
+import { useState, type ReactNode } from "react";
+import { Plus, UserPlus, Users } from "lucide-react";
+
+export function Workspaces({
+  children,
+  onCreate,
+}: {
+  children: ReactNode;
+  onCreate: (name: string) => void;
+}) {
+  const [name, setName] = useState("");
+
+  return (
+    <details className="group border-t border-zinc-200 pt-3 text-xs dark:border-zinc-800">
+      <summary className="flex cursor-pointer list-none items-center gap-1.5 text-[10px] font-semibold uppercase tracking-wide text-zinc-400 [&::-webkit-details-marker]:hidden">
+        <Users className="h-3 w-3" />
+        Workspaces
+      </summary>
+      <div className="mt-2 flex max-h-48 flex-col gap-2 overflow-y-auto">
+        {children}
+        <form
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (!name.trim()) return;
+            onCreate(name.trim());
+            setName("");
+          }}
+          className="flex gap-1"
+        >
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="New workspace…"
+            className="min-w-0 flex-1 rounded-lg border border-zinc-200 bg-white px-2 py-1 outline-none focus:border-black dark:border-zinc-700 dark:bg-zinc-950 dark:focus:border-zinc-100"
+          />
+          <button
+            type="submit"
+            aria-label="Create workspace"
+            className="rounded-lg border border-zinc-200 px-1.5 text-zinc-500 hover:text-zinc-800 dark:border-zinc-700 dark:hover:text-zinc-100"
+          >
+            <Plus className="h-3 w-3" />
+          </button>
+        </form>
+      </div>
+    </details>
+  );
+}
+
+/**
+ * A workspace and its members. Owners can invite existing users by email;
+ * everyone else can leave.
+ */
+export function WorkspaceItem({
+  name,
+  members,
+  isOwner,
+  onAddMember,
+  onLeave,
+}: {
+  name: string;
+  members: { id: string; email: string; name?: string }[];
+  isOwner: boolean;
+  onAddMember: (email: string) => void;
+  onLeave: () => void;
+}) {
+  const [email, setEmail] = useState("");
+
+  return (
+    <div className="flex flex-col gap-1 rounded-lg bg-zinc-50 px-2 py-1.5 dark:bg-zinc-800/50">
+      <div className="flex items-center justify-between gap-2">
+        <span className="truncate font-medium">{name}</span>
+        {!isOwner ? (
+          <button
+            type="button"
+            onClick={onLeave}
+            className="shrink-0 text-[10px] text-zinc-400 hover:text-red-600"
+          >
+            Leave
+          </button>
+        ) : null}
+      </div>
+      <p className="truncate text-[10px] text-zinc-400" title={members.map((member) => member.email).join(", ")}>
+        {members.map((member) => member.name ?? member.email).join(", ")}
+      </p>
+      {isOwner ? (
+        <form
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (!email.trim()) return;
+            onAddMember(email.trim());
+            setEmail("");
+          }}
+          className="flex gap-1"
+        >
+          <input
+            type="email"
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            placeholder="Add member by email"
+            className="min-w-0 flex-1 rounded border border-zinc-200 bg-white px-1.5 py-0.5 text-[11px] outline-none focus:border-black dark:border-zinc-700 dark:bg-zinc-950 dark:focus:border-zinc-100"
+          />
+          <button
+            type="submit"
+            aria-label="Add member"
+            className="rounded px-1 text-zinc-400 hover:text-zinc-800 dark:hover:text-zinc-100"
+          >
+            <UserPlus className="h-3 w-3" />
+          </button>
+        </form>
+      ) : null}
+    </div>
+  );
+}
+
+/**
+ * Picks the workspace a conversation is shared with, read-only.
+ */
+export function ShareSelect({
+  value,
+  workspaces,
+  onChange,
+}: {
+  value?: string;
+  workspaces: { id: string; name: string }[];
+  onChange: (workspaceId: string | null) => void;
+}) {
+  if (workspaces.length === 0) return null;
+  return (
+    <label className="flex items-center gap-1.5 rounded-xl border border-zinc-200 px-2 py-1.5 text-xs text-zinc-500 dark:border-zinc-700 dark:text-zinc-300">
+      <Users className="h-3.5 w-3.5 shrink-0" />
+      <select
+        value={value ?? ""}
+        onChange={(event) => onChange(event.target.value || null)}
+        aria-label="Share with workspace"
+        className="bg-transparent outline-none"
+      >
+        <option value="">Private</option>
+        {workspaces.map((workspace) => (
+          <option key={workspace.id} value={workspace.id}>
+            Shared: {workspace.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
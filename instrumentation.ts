@@ -0,0 +1,12 @@
+/**
+ * Server startup
+ *
+ * Starts the background monitor scheduler once the Node.js server boots.
+ */
+
+export async function register() {
+  // The scheduler uses the filesystem and timers, so skip the edge runtime
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  const { startMonitorScheduler } = await import("@/lib/monitor-scheduler");
+  startMonitorScheduler();
+}
@@ -0,0 +1,106 @@
+import type { UIMessage } from "ai";
+
+export type AgentStepTool = {
+  toolCallId: string;
+  toolName: string;
+  /** Time spent in the tool's execute, when it ran on the server */
+  durationMs?: number;
+};
+
+/**
+ * Timing of one step of the agent loop, streamed as a `data-step` part that
+ * is written when the step starts and updated when it finishes. `stepNumber`
+ * counts the message's `step-start` parts, so continued turns keep numbering.
+ */
+export type AgentStep = {
+  stepNumber: number;
+  status: "running" | "finished";
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  finishReason?: string;
+  toolCalls: AgentStepTool[];
+};
+
+/**
+ * Number of steps already in a message, used to continue numbering when an
+ * assistant turn is resumed (e.g. after an approval).
+ */
+export function countSteps(message: UIMessage | undefined) {
+  if (!message || message.role !== "assistant") return 0;
+  return message.parts.filter((part) => part.type === "step-start").length;
+}
+
+export type MessageStep = {
+  stepNumber: number;
+  timing?: AgentStep;
+  toolCallIds: string[];
+};
+
+/**
+ * Groups a message's tool calls by the step they were made in, using the
+ * `step-start` boundaries, and attaches the streamed step timings. Tool calls
+ * streamed before the first step (e.g. resolved approvals) join step 0.
+ */
+export function messageSteps(message: UIMessage): MessageStep[] {
+  const timings = new Map<number, AgentStep>();
+  for (const part of message.parts) {
+    if (part.type === "data-step") {
+      const step = (part as { data: AgentStep }).data;
+      timings.set(step.stepNumber, step);
+    }
+  }
+
+  const steps: MessageStep[] = [];
+  let current: MessageStep | undefined;
+  let stepNumber = -1;
+
+  for (const part of message.parts) {
+    if (part.type === "step-start") {
+      stepNumber += 1;
+      current = undefined;
+      continue;
+    }
+    if (
+      (!part.type.startsWith("tool-") && part.type !== "dynamic-tool") ||
+      !("toolCallId" in part)
+    ) {
+      continue;
+    }
+
+    if (!current) {
+      const number = Math.max(stepNumber, 0);
+      current = { stepNumber: number, timing: timings.get(number), toolCallIds: [] };
+      steps.push(current);
+    }
+    current.toolCallIds.push(part.toolCallId);
+  }
+
+  return steps;
+}
+
+/**
+ * Domains of the pages a tool returned, for the timeline's result chips.
+ */
+export function resultDomains(output: unknown): string[] {
+  if (typeof output !== "object" || output === null) return [];
+  const value = output as {
+    sources?: { url?: string }[];
+    finalUrl?: string;
+    url?: string;
+  };
+
+  const urls = Array.isArray(value.sources)
+    ? value.sources.map((source) => source.url)
+    : [value.finalUrl ?? value.url];
+
+  const domains = urls.flatMap((url) => {
+    if (typeof url !== "string") return [];
+    try {
+      return [new URL(url).hostname.replace(/^www\./, "")];
+    } catch {
+      return [];
+    }
+  });
+  return Array.from(new Set(domains));
+}
@@ -0,0 +1,144 @@
+import type { UIMessage } from "ai";
+
+export type ApprovalState =
+  | "approval-requested"
+  | "approval-responded"
+  | "output-available"
+  | "output-denied";
+
+/**
+ * Approval status attached to a tool output. While a call waits for the user
+ * the output holds nothing else; once approved it is merged into the real result.
+ */
+export type ToolApproval = {
+  id: string;
+  state: ApprovalState;
+  approved?: boolean;
+  reason?: string;
+};
+
+/**
+ * A tool call the server paused for approval, kept with the conversation.
+ * Approving a call runs this stored input, never what the client sends back.
+ */
+export type PendingApproval = {
+  id: string;
+  toolCallId: string;
+  toolName: string;
+  input: unknown;
+};
+
+export type ApprovalPolicy = {
+  /** Hosts (and their subdomains) that can be fetched without asking */
+  domainAllowlist: string[];
+  /** Crawls above this many pages need approval */
+  crawlPageThreshold: number;
+};
+
+/**
+ * Reads the approval policy from environment configuration:
+ * - APPROVAL_DOMAIN_ALLOWLIST: comma-separated hosts; empty means every domain is allowed
+ * - APPROVAL_CRAWL_PAGE_THRESHOLD: crawl page limit that triggers approval (default 25)
+ */
+export function createApprovalPolicy(
+  env: NodeJS.ProcessEnv = process.env,
+): ApprovalPolicy {
+  const threshold = Number(env.APPROVAL_CRAWL_PAGE_THRESHOLD ?? 25);
+  return {
+    domainAllowlist: (env.APPROVAL_DOMAIN_ALLOWLIST ?? "")
+      .split(",")
+      .map((host) => host.trim().toLowerCase())
+      .filter(Boolean),
+    crawlPageThreshold: Number.isFinite(threshold) ? threshold : 25,
+  };
+}
+
+/**
+ * Returns why a tool call needs the user's approval, or null if it can run.
+ */
+export function approvalReason(
+  policy: ApprovalPolicy,
+  toolName: string,
+  input: unknown,
+): string | null {
+  const args = (input ?? {}) as { url?: unknown; urls?: unknown; limit?: unknown };
+
+  if (
+    toolName === "crawlWebsite" &&
+    typeof args.limit === "number" &&
+    args.limit > policy.crawlPageThreshold
+  ) {
+    return `Crawling ${args.limit} pages exceeds the ${policy.crawlPageThreshold}-page limit that runs without approval.`;
+  }
+
+  if (policy.domainAllowlist.length) {
+    const urls = [args.url, ...(Array.isArray(args.urls) ? args.urls : [])];
+    for (const url of urls) {
+      if (typeof url !== "string") continue;
+      const host = hostOf(url);
+      if (host && !isAllowedHost(host, policy.domainAllowlist)) {
+        return `${host} is not on the approved domain list.`;
+      }
+    }
+  }
+
+  return null;
+}
+
+export function getToolApproval(output: unknown): ToolApproval | undefined {
+  if (typeof output !== "object" || output === null) return undefined;
+  const approval = (output as { approval?: ToolApproval }).approval;
+  return approval && typeof approval.state === "string" ? approval : undefined;
+}
+
+type ToolPartLike = {
+  type: string;
+  toolCallId: string;
+  state: string;
+  input?: unknown;
+  output?: unknown;
+};
+
+/**
+ * Tool calls in the last assistant message that the user has approved or
+ * rejected but the server has not acted on yet.
+ */
+export function pendingApprovalResponses(messages: UIMessage[]) {
+  const message = messages[messages.length - 1];
+  if (!message || message.role !== "assistant") return [];
+
+  return (message.parts as ToolPartLike[]).filter(
+    (part) =>
+      part.type.startsWith("tool-") &&
+      getToolApproval(part.output)?.state === "approval-responded",
+  );
+}
+
+/**
+ * Ids of the tool calls in a message that are still waiting for the user.
+ */
+export function approvalRequestIds(message: UIMessage | undefined) {
+  if (!message || message.role !== "assistant") return [];
+
+  return (message.parts as ToolPartLike[])
+    .filter(
+      (part) =>
+        part.type.startsWith("tool-") &&
+        getToolApproval(part.output)?.state === "approval-requested",
+    )
+    .map((part) => part.toolCallId);
+}
+
+function hostOf(url: string) {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+function isAllowedHost(host: string, allowlist: string[]) {
+  return allowlist.some(
+    (allowed) => host === allowed || host.endsWith(`.${allowed}`),
+  );
+}
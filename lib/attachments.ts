@@ -0,0 +1,306 @@
+import type { FileUIPart, TextPart, UIMessage } from "ai";
+import { extractText, getDocumentProxy } from "unpdf";
+
+/**
+ * Maximum characters of extracted text passed to the model per attachment
+ */
+const ATTACHMENT_CHAR_LIMIT = 30000;
+
+/**
+ * Largest attachment read on the server, matching the limit the composer
+ * enforces before upload
+ */
+const ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+
+/**
+ * CSV attachments are turned into a Markdown table of at most this many rows
+ */
+const CSV_ROW_LIMIT = 200;
+
+type TextAttachmentKind = "pdf" | "csv" | "html" | "text";
+
+function textAttachmentKind(part: FileUIPart): TextAttachmentKind | null {
+  const mediaType = part.mediaType.toLowerCase();
+  const name = part.filename?.toLowerCase() ?? "";
+
+  if (mediaType === "application/pdf" || name.endsWith(".pdf")) return "pdf";
+  if (mediaType === "text/csv" || name.endsWith(".csv")) return "csv";
+  if (mediaType === "text/html" || /\.html?$/.test(name)) return "html";
+  if (mediaType.startsWith("text/")) return "text";
+  return null;
+}
+
+/**
+ * What was read from a PDF, CSV, HTML or plain-text attachment, stored as a
+ * `data-attachment` part in place of the file so the conversation keeps the
+ * text rather than the upload
+ */
+export type AttachmentText = {
+  filename?: string;
+  mediaType: string;
+  /** Extracted text, already truncated for the model */
+  text?: string;
+  /** Why the file could not be read */
+  error?: string;
+};
+
+/**
+ * Replaces PDF, CSV, HTML and plain-text file parts in user messages with a
+ * `data-attachment` part holding their extracted text, so any model can read
+ * them. Image parts are left untouched. Attachments that fail to parse, are
+ * too large or aren't inline data URLs keep only the error instead of failing
+ * the whole request.
+ *
+ * User messages already in `stored` are taken from there, so each file is
+ * extracted once, when its message first arrives, however often the client
+ * sends the history again.
+ */
+export async function extractAttachments(
+  messages: UIMessage[],
+  stored: UIMessage[] = [],
+): Promise<UIMessage[]> {
+  const storedUserMessages = new Map(
+    stored
+      .filter((message) => message.role === "user")
+      .map((message) => [message.id, message]),
+  );
+
+  return Promise.all(
+    messages.map(async (incoming) => {
+      const message =
+        incoming.role === "user"
+          ? (storedUserMessages.get(incoming.id) ?? incoming)
+          : incoming;
+      if (
+        message.role !== "user" ||
+        !message.parts.some((part) => part.type === "file")
+      ) {
+        return message;
+      }
+
+      const parts = await Promise.all(
+        message.parts.map(async (part) => {
+          if (part.type !== "file") return part;
+          const kind = textAttachmentKind(part);
+          const attachment = (data: Omit<AttachmentText, "filename" | "mediaType">) => ({
+            type: "data-attachment" as const,
+            data: {
+              filename: part.filename,
+              mediaType: part.mediaType,
+              ...data,
+            } satisfies AttachmentText,
+          });
+
+          try {
+            if (!kind) {
+              parseDataUrl(part.url);
+              return part;
+            }
+            return attachment({ text: truncate(await readAttachment(part, kind)) });
+          } catch (error) {
+            return attachment({ error: errorMessage(error) });
+          }
+        }),
+      );
+
+      return { ...message, parts };
+    }),
+  );
+}
+
+/**
+ * The text the model sees for a `data-attachment` part
+ */
+export function attachmentTextPart(attachment: AttachmentText): TextPart {
+  const label = attachment.filename ?? "attachment";
+  return {
+    type: "text",
+    text: attachment.error
+      ? `Attached file "${label}" could not be read: ${attachment.error}`
+      : `Attached file "${label}" (${attachment.mediaType}):\n\n${attachment.text || "(no text found)"}`,
+  };
+}
+
+async function readAttachment(part: FileUIPart, kind: TextAttachmentKind) {
+  const bytes = attachmentBytes(part.url);
+
+  switch (kind) {
+    case "pdf": {
+      const pdf = await getDocumentProxy(bytes);
+      const { totalPages, text } = await extractText(pdf, { mergePages: true });
+      return `${totalPages} page${totalPages === 1 ? "" : "s"}\n\n${text.trim()}`;
+    }
+    case "csv":
+      return csvToMarkdown(decode(bytes));
+    case "html":
+      return htmlToText(decode(bytes));
+    case "text":
+      return decode(bytes);
+  }
+}
+
+/**
+ * Splits a file part's data URL, refusing anything over the size limit.
+ * Files are only accepted inline: fetching any other URL from the server (or
+ * letting the model provider's download do it) would let a client read
+ * internal hosts.
+ */
+function parseDataUrl(url: string) {
+  const comma = url.indexOf(",");
+  if (!url.startsWith("data:") || comma < 0) {
+    throw new Error("Only files uploaded with the message can be read.");
+  }
+  const base64 = url.slice(5, comma).endsWith(";base64");
+  const payload = url.slice(comma + 1);
+
+  // Estimated from the encoded length so oversized files are never decoded
+  const size = base64 ? Math.floor((payload.length * 3) / 4) : payload.length;
+  if (size > ATTACHMENT_MAX_BYTES) {
+    throw new Error(`The file is larger than ${formatMegabytes(ATTACHMENT_MAX_BYTES)}.`);
+  }
+  return { base64, payload };
+}
+
+function attachmentBytes(url: string) {
+  const { base64, payload } = parseDataUrl(url);
+  return base64
+    ? new Uint8Array(Buffer.from(payload, "base64"))
+    : new TextEncoder().encode(decodeURIComponent(payload));
+}
+
+function formatMegabytes(bytes: number) {
+  return `${bytes / (1024 * 1024)} MB`;
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : "Unknown error.";
+}
+
+function decode(bytes: Uint8Array) {
+  return new TextDecoder().decode(bytes);
+}
+
+function truncate(text: string) {
+  return text.length > ATTACHMENT_CHAR_LIMIT
+    ? `${text.slice(0, ATTACHMENT_CHAR_LIMIT)}\n\n…(truncated)`
+    : text;
+}
+
+/**
+ * Renders CSV as a Markdown table, keeping the header and the first
+ * CSV_ROW_LIMIT rows.
+ */
+function csvToMarkdown(csv: string) {
+  const rows = parseCsv(csv).filter((row) => row.some((cell) => cell.trim()));
+  if (rows.length === 0) return "";
+
+  const [header, ...body] = rows;
+  const width = Math.max(...rows.map((row) => row.length));
+  const cell = (value = "") => value.replace(/\|/g, "\\|").replace(/\s+/g, " ").trim();
+  const line = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, index) => cell(row[index])).join(" | ")} |`;
+
+  const table = [
+    line(header),
+    `| ${Array.from({ length: width }, () => "---").join(" | ")} |`,
+    ...body.slice(0, CSV_ROW_LIMIT).map(line),
+  ];
+
+  const summary = `${body.length} row${body.length === 1 ? "" : "s"}, ${width} column${width === 1 ? "" : "s"}`;
+  const note =
+    body.length > CSV_ROW_LIMIT ? `\n\n(showing the first ${CSV_ROW_LIMIT} rows)` : "";
+  return `${summary}\n\n${table.join("\n")}${note}`;
+}
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes and newlines inside
+ * quotes. Detects semicolon- and tab-separated files from the first line.
+ */
+function parseCsv(csv: string) {
+  const firstLine = csv.split(/\r?\n/, 1)[0];
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length
+      ? candidate
+      : best,
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let index = 0; index < csv.length; index += 1) {
+    const char = csv[index];
+    if (quoted) {
+      if (char === '"' && csv[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && csv[index + 1] === "\n") index += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * Converts a saved HTML page to readable text: drops scripts, styles and
+ * markup, keeps headings, list items and paragraph breaks.
+ */
+function htmlToText(html: string) {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]?.trim();
+
+  const text = html
+    .replace(/<(script|style|noscript|svg|template|head)\b[\s\S]*?<\/\1>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<h([1-6])\b[^>]*>/gi, (_, level: string) => `\n\n${"#".repeat(Number(level))} `)
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|section|article|header|footer|h[1-6]|tr|table|ul|ol|blockquote)>/gi, "\n\n")
+    .replace(/<\/t[dh]>/gi, " | ")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(#x?[\da-f]+|\w+);/gi, (entity, code: string) => {
+      if (code.startsWith("#")) {
+        const value = code[1].toLowerCase() === "x"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+        return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .replace(/[ \t]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return title ? `# ${title}\n\n${text}` : text;
+}
@@ -0,0 +1,250 @@
+import { randomBytes } from "node:crypto";
+import { nanoid } from "nanoid";
+import { NextResponse } from "next/server";
+
+import {
+  claimUnownedConversations,
+  createConversationStore,
+} from "@/lib/conversations";
+import { logger } from "@/lib/logger";
+import { readCookie, SESSION_COOKIE, verifySessionToken } from "@/lib/session";
+import { usageTracker } from "@/lib/usage-limits";
+import {
+  createUserStore,
+  hashPassword,
+  normalizeEmail,
+  type User,
+  type UserStore,
+} from "@/lib/users";
+
+export type AuthMethod = "credentials" | "magic-link";
+
+export type AuthConfig = {
+  methods: AuthMethod[];
+  /** Whether new accounts can be created from the sign-in page */
+  allowSignup: boolean;
+  /** Where magic links are POSTed as `{ email, url }`; logged in development when unset */
+  magicLinkWebhook?: string;
+  /** Public origin magic links point to */
+  appUrl?: string;
+  /**
+   * Whether a reverse proxy in front of the app sets X-Forwarded-For, so the
+   * client IP can be read from it for rate limits
+   */
+  trustProxy: boolean;
+};
+
+/**
+ * Reads sign-in options from environment configuration:
+ * - AUTH_METHODS: comma-separated `credentials` and/or `magic-link` (default both)
+ * - AUTH_ALLOW_SIGNUP: set to "false" to stop new users from registering
+ * - AUTH_MAGIC_LINK_WEBHOOK: URL that delivers magic links (e.g. to an email service)
+ * - APP_URL (or NEXTAUTH_URL): public origin of the app, used in magic links
+ * - AUTH_TRUST_PROXY: set to "true" behind a reverse proxy that sets X-Forwarded-For
+ */
+export function createAuthConfig(env: NodeJS.ProcessEnv = process.env): AuthConfig {
+  const methods = (env.AUTH_METHODS ?? "credentials,magic-link")
+    .split(",")
+    .map((method) => method.trim())
+    .filter((method): method is AuthMethod =>
+      method === "credentials" || method === "magic-link",
+    );
+  return {
+    methods: methods.length ? methods : ["credentials"],
+    allowSignup: env.AUTH_ALLOW_SIGNUP !== "false",
+    magicLinkWebhook: env.AUTH_MAGIC_LINK_WEBHOOK || undefined,
+    appUrl: parseOrigin(env.APP_URL || env.NEXTAUTH_URL),
+    trustProxy: env.AUTH_TRUST_PROXY === "true",
+  };
+}
+
+/**
+ * The client's IP address as seen by the trusted proxy, or null without one.
+ * Clients can send any X-Forwarded-For they like, so only the last entry
+ * (added by the proxy itself) counts, and only when a proxy is configured.
+ */
+export function clientIp(req: Request, config: AuthConfig) {
+  if (!config.trustProxy) return null;
+  const forwarded = req.headers.get("x-forwarded-for")?.split(",").at(-1)?.trim();
+  return forwarded || req.headers.get("x-real-ip") || null;
+}
+
+/**
+ * Counts an attempt at an auth endpoint against per-minute limits for the
+ * email and, behind a trusted proxy, the client IP. Returns the 429 response
+ * to send when either is exceeded, or null.
+ */
+export function takeAuthAttempt(
+  req: Request,
+  config: AuthConfig,
+  {
+    action,
+    email,
+    perIp,
+    perEmail,
+  }: { action: string; email: string; perIp: number; perEmail: number },
+) {
+  const now = Date.now();
+  const ip = clientIp(req, config);
+  const results = [
+    ...(ip ? [usageTracker.takeRequest(`${action}:ip:${ip}`, now, perIp)] : []),
+    usageTracker.takeRequest(`${action}:email:${normalizeEmail(email)}`, now, perEmail),
+  ];
+  for (const rateLimit of results) {
+    if (!rateLimit.ok) {
+      return NextResponse.json(
+        { error: rateLimit.reason },
+        {
+          status: 429,
+          headers: { "Retry-After": String(rateLimit.retryAfterSeconds) },
+        },
+      );
+    }
+  }
+  return null;
+}
+
+/**
+ * The origin to build magic links on. The request's own origin comes from
+ * its Host header, which a client can forge to have a victim's link point at
+ * another host, so outside development only the configured APP_URL is used.
+ * Returns null when it isn't set.
+ */
+export function magicLinkOrigin(req: Request, config: AuthConfig) {
+  if (config.appUrl) return config.appUrl;
+  return process.env.NODE_ENV === "development" ? new URL(req.url).origin : null;
+}
+
+function parseOrigin(value: string | undefined) {
+  if (!value) return undefined;
+  try {
+    return new URL(value).origin;
+  } catch {
+    return undefined;
+  }
+}
+
+// Route handlers can be bundled separately, so share one store (and its
+// write queue) and the pending magic links per process
+const globalForAuth = globalThis as {
+  userStore?: UserStore;
+  magicLinks?: Map<string, { email: string; expiresAt: number }>;
+};
+
+export const userStore =
+  globalForAuth.userStore ?? (globalForAuth.userStore = createUserStore());
+
+const magicLinks =
+  globalForAuth.magicLinks ?? (globalForAuth.magicLinks = new Map());
+
+const MAGIC_LINK_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * The signed-in user for a session token, or null when the token is missing,
+ * invalid, expired or belongs to a deleted user.
+ */
+export async function sessionUserFromToken(token: string | undefined) {
+  const userId = verifySessionToken(token);
+  return userId ? userStore.getUser(userId) : null;
+}
+
+export function getSessionUser(req: Request) {
+  return sessionUserFromToken(readCookie(req, SESSION_COOKIE));
+}
+
+/**
+ * Resolves the signed-in user, or the 401 response a route should return.
+ */
+export async function requireUser(
+  req: Request,
+): Promise<{ user: User; response?: undefined } | { user?: undefined; response: NextResponse }> {
+  const user = await getSessionUser(req);
+  if (!user) {
+    return {
+      response: NextResponse.json({ error: "Sign in required." }, { status: 401 }),
+    };
+  }
+  return { user };
+}
+
+/**
+ * Creates a user, or returns the existing one with `created: false` when the
+ * email is taken. The first account also takes over conversations saved
+ * before sign-in was added.
+ */
+export async function createAccount({
+  email,
+  name,
+  password,
+}: {
+  email: string;
+  name?: string;
+  password?: string;
+}) {
+  const { user, created, first } = await userStore.createUser({
+    id: nanoid(),
+    email: normalizeEmail(email),
+    name: name?.trim() || undefined,
+    passwordHash: password ? await hashPassword(password) : undefined,
+    createdAt: new Date().toISOString(),
+    settings: {},
+  });
+
+  if (first) {
+    await claimUnownedConversations(createConversationStore(), user.id);
+  }
+  return { user, created };
+}
+
+/**
+ * Ids of the workspaces a user belongs to.
+ */
+export async function workspaceIdsOf(userId: string) {
+  return (await userStore.listWorkspaces(userId)).map((workspace) => workspace.id);
+}
+
+/**
+ * Creates a single-use sign-in link for an email address and hands it to the
+ * configured delivery. Returns the link so development builds can show it.
+ */
+export async function sendMagicLink(email: string, origin: string, config: AuthConfig) {
+  for (const [pending, link] of magicLinks) {
+    if (link.expiresAt <= Date.now()) magicLinks.delete(pending);
+  }
+
+  const token = randomBytes(32).toString("base64url");
+  magicLinks.set(token, {
+    email: normalizeEmail(email),
+    expiresAt: Date.now() + MAGIC_LINK_TTL_MS,
+  });
+
+  const url = `${origin}/api/auth/magic-link/verify?token=${token}`;
+  if (config.magicLinkWebhook) {
+    const response = await fetch(config.magicLinkWebhook, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ email, url }),
+    });
+    if (!response.ok) {
+      throw new Error(`Magic link delivery failed with status ${response.status}.`);
+    }
+  } else if (process.env.NODE_ENV === "development") {
+    logger.info("Magic sign-in link created", { email, url });
+  } else {
+    // The link is a credential, so it is never logged outside development
+    magicLinks.delete(token);
+    throw new Error("Magic link delivery is not configured.");
+  }
+  return url;
+}
+
+/**
+ * Returns the email a magic link was sent to and invalidates it, or null for
+ * unknown and expired links.
+ */
+export function consumeMagicLink(token: string) {
+  const link = magicLinks.get(token);
+  magicLinks.delete(token);
+  if (!link || link.expiresAt <= Date.now()) return null;
+  return link.email;
+}
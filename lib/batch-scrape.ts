@@ -0,0 +1,32 @@
+/**
+ * Outcome of one URL in a batchScrape call.
+ */
+export type BatchScrapeRow = {
+  url: string;
+  status: "queued" | "scraping" | "done" | "failed";
+  title?: string;
+  description?: string;
+  /** Characters of markdown the page returned, before clipping */
+  contentLength?: number;
+  cached?: boolean;
+  fetchedAt?: string;
+  error?: string;
+};
+
+/**
+ * Progress of a batchScrape call, streamed as a `data-batch` part that is
+ * updated in place each time a URL starts or finishes.
+ */
+export type BatchScrapeProgress = {
+  toolCallId: string;
+  rows: BatchScrapeRow[];
+};
+
+/**
+ * Counts of finished and failed rows, for progress headers.
+ */
+export function batchCounts(rows: BatchScrapeRow[]) {
+  const done = rows.filter((row) => row.status === "done").length;
+  const failed = rows.filter((row) => row.status === "failed").length;
+  return { done, failed, finished: done + failed, total: rows.length };
+}
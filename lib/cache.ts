@@ -0,0 +1,201 @@
+import { createHash, randomBytes } from "node:crypto";
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export type CacheEntry<T = unknown> = {
+  value: T;
+  fetchedAt: number;
+  expiresAt: number;
+};
+
+/**
+ * Storage backend for cached tool results. Implementations only need to
+ * persist entries by key; expiry is handled by {@link ResultCache}.
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * In-process cache. Oldest entries are evicted once `maxEntries` is reached.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries = 500) {}
+
+  async get(key: string) {
+    return this.entries.get(key);
+  }
+
+  async set(key: string, entry: CacheEntry) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Stores one JSON file per entry in a directory. Suitable for single-node
+ * deployments where results should survive a restart.
+ */
+export class FileCacheStore implements CacheStore {
+  constructor(private directory: string) {}
+
+  async get(key: string) {
+    try {
+      const raw = await readFile(this.filePath(key), "utf8");
+      return JSON.parse(raw) as CacheEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry) {
+    await mkdir(this.directory, { recursive: true });
+    // Write to a temp file first so a crash or a concurrent read never sees
+    // half an entry; the unique name keeps parallel sets of a key apart
+    const file = this.filePath(key);
+    const temp = `${file}.${randomBytes(6).toString("hex")}.tmp`;
+    await writeFile(temp, JSON.stringify(entry), "utf8");
+    await rename(temp, file);
+  }
+
+  async delete(key: string) {
+    await rm(this.filePath(key), { force: true });
+  }
+
+  private filePath(key: string) {
+    return path.join(this.directory, `${hashKey(key)}.json`);
+  }
+}
+
+export type CachedResult<T> = {
+  value: T;
+  cached: boolean;
+  fetchedAt: string;
+};
+
+/**
+ * Read-through cache with a fixed TTL. Failed fetches are never stored.
+ */
+export class ResultCache {
+  constructor(
+    private store: CacheStore | null,
+    private ttlMs: number,
+  ) {}
+
+  async wrap<T>(
+    key: string,
+    fetcher: () => Promise<T>,
+    { fresh = false }: { fresh?: boolean } = {},
+  ): Promise<CachedResult<T>> {
+    if (this.store && !fresh) {
+      const entry = await this.store.get(key).catch(() => undefined);
+      if (entry && entry.expiresAt > Date.now()) {
+        return {
+          value: entry.value as T,
+          cached: true,
+          fetchedAt: new Date(entry.fetchedAt).toISOString(),
+        };
+      }
+    }
+
+    const value = await fetcher();
+    const fetchedAt = Date.now();
+
+    if (this.store) {
+      await this.store
+        .set(key, { value, fetchedAt, expiresAt: fetchedAt + this.ttlMs })
+        .catch(() => undefined);
+    }
+
+    return {
+      value,
+      cached: false,
+      fetchedAt: new Date(fetchedAt).toISOString(),
+    };
+  }
+}
+
+/**
+ * Builds the cache from environment configuration:
+ * - FIRECRAWL_CACHE_BACKEND: "memory" (default), "file" or "off"
+ * - FIRECRAWL_CACHE_DIR: directory for the file backend (default ".cache/firecrawl")
+ * - FIRECRAWL_CACHE_TTL_SECONDS: entry lifetime (default 3600)
+ */
+export function createResultCache(env: NodeJS.ProcessEnv = process.env) {
+  const ttlSeconds = Number(env.FIRECRAWL_CACHE_TTL_SECONDS ?? 3600);
+  const ttlMs =
+    (Number.isFinite(ttlSeconds) && ttlSeconds > 0 ? ttlSeconds : 3600) * 1000;
+
+  switch (env.FIRECRAWL_CACHE_BACKEND) {
+    case "off":
+      return new ResultCache(null, ttlMs);
+    case "file":
+      return new ResultCache(
+        new FileCacheStore(env.FIRECRAWL_CACHE_DIR ?? ".cache/firecrawl"),
+        ttlMs,
+      );
+    default:
+      return new ResultCache(new MemoryCacheStore(), ttlMs);
+  }
+}
+
+/**
+ * Builds a cache key from an operation name, a normalized target (URL or
+ * query) and the request options.
+ */
+export function cacheKey(operation: string, target: string, options: unknown) {
+  return `${operation}:${target}:${stableStringify(options ?? {})}`;
+}
+
+/**
+ * Lowercases the host, drops the fragment and default ports, sorts query
+ * parameters and trims trailing slashes so equivalent URLs share an entry.
+ */
+export function normalizeUrl(raw: string) {
+  try {
+    const url = new URL(raw);
+    url.hash = "";
+    url.hostname = url.hostname.toLowerCase();
+    url.searchParams.sort();
+    const pathname = url.pathname.replace(/\/+$/, "");
+    return `${url.protocol}//${url.host}${pathname}${url.search}`;
+  } catch {
+    return raw.trim();
+  }
+}
+
+export function normalizeQuery(query: string) {
+  return query.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries
+      .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function hashKey(key: string) {
+  return createHash("sha256").update(key).digest("hex");
+}
@@ -0,0 +1,302 @@
+import type { UIMessage } from "ai";
+
+import { RELEVANT_SECTIONS_HEADING } from "@/lib/context-window";
+
+/**
+ * A fetched page the model can cite as `[id]`. Ids are assigned per turn, in
+ * the order tools return sources, and shared across all tool calls of that turn.
+ */
+export type CitationSource = {
+  id: number;
+  url: string;
+  title?: string;
+  snippet?: string;
+};
+
+type SourceCandidate = Omit<CitationSource, "id">;
+
+const SNIPPET_CHAR_LIMIT = 280;
+
+/** Heading of the citation key appended to tool content */
+export const SOURCE_KEY_HEADING = "## Sources (cite as [n])";
+
+/**
+ * Hands out citation numbers for one assistant turn. Seed it with the sources
+ * already in the turn when continuing it (e.g. after an approval) so numbers
+ * stay stable.
+ */
+export class SourceRegistry {
+  private byUrl = new Map<string, CitationSource>();
+
+  constructor(seed: CitationSource[] = []) {
+    seed.forEach((source) => this.byUrl.set(sourceKey(source.url), source));
+  }
+
+  register(candidates: SourceCandidate[]): CitationSource[] {
+    const registered = candidates.map((candidate) => {
+      const key = sourceKey(candidate.url);
+      const existing = this.byUrl.get(key);
+      if (existing) return existing;
+
+      const source = { id: this.byUrl.size + 1, ...candidate };
+      this.byUrl.set(key, source);
+      return source;
+    });
+    return uniqueById(registered);
+  }
+}
+
+/**
+ * Pulls the citable pages out of a tool output. Tools that don't fetch page
+ * content (like mapWebsite), failed, or were refused by the URL policy or the
+ * usage budget return no sources.
+ */
+export function sourcesFromToolOutput(
+  toolName: string,
+  output: unknown,
+): SourceCandidate[] {
+  if (typeof output !== "object" || output === null) return [];
+  const value = output as Record<string, unknown>;
+  if (value.error || value.policy || value.budget) return [];
+
+  switch (toolName) {
+    case "scrapeWebsite": {
+      const url = (value.finalUrl ?? value.url) as string | undefined;
+      if (!url || typeof value.content !== "string") return [];
+      if (value.content.startsWith("Scrape error:")) return [];
+      return [
+        {
+          url,
+          title: value.title as string | undefined,
+          snippet: snippetOf(
+            (value.description as string | undefined) ?? markdownBody(value.content),
+          ),
+        },
+      ];
+    }
+    case "searchWeb":
+      return asArray<{ url?: string; title?: string; snippet?: string }>(value.results)
+        .filter((result) => result.url)
+        .map((result) => ({
+          url: result.url!,
+          title: result.title,
+          snippet: snippetOf(result.snippet),
+        }));
+    case "crawlWebsite":
+      return asArray<{ url: string; title?: string; markdown?: string }>(value.pages).map(
+        (page) => ({
+          url: page.url,
+          title: page.title,
+          snippet: snippetOf(page.markdown),
+        }),
+      );
+    case "batchScrape":
+      return asArray<{ url: string; status?: string; title?: string; description?: string }>(
+        value.batch,
+      )
+        .filter((row) => row.status === "done")
+        .map((row) => ({
+          url: row.url,
+          title: row.title,
+          snippet: snippetOf(row.description),
+        }));
+    case "readSection": {
+      const sections = asArray<{ text: string }>(value.sections);
+      if (!value.url || sections.length === 0) return [];
+      return [
+        {
+          url: value.url as string,
+          title: value.title as string | undefined,
+          snippet: snippetOf(sections[0].text),
+        },
+      ];
+    }
+    case "extractStructuredData":
+      return asArray<{ url: string; valid?: boolean; data?: unknown }>(value.rows)
+        .filter((row) => row.valid)
+        .map((row) => ({
+          url: row.url,
+          snippet: snippetOf(JSON.stringify(row.data)),
+        }));
+    default:
+      return [];
+  }
+}
+
+/**
+ * The lines appended to a tool's content so the model knows which number to
+ * cite for each page.
+ */
+export function formatSourceKey(sources: CitationSource[]) {
+  return [
+    SOURCE_KEY_HEADING,
+    ...sources.map(
+      (source) =>
+        `[${source.id}] ${source.title && source.title !== source.url ? `${source.title} — ` : ""}${source.url}`,
+    ),
+  ].join("\n");
+}
+
+export type MessageSource = CitationSource & {
+  /** Full text fetched for the source, used to find the quoted passage */
+  text?: string;
+};
+
+/**
+ * Every source registered by the tool calls in a message, ordered by id.
+ */
+export function collectSources(message: UIMessage | undefined): MessageSource[] {
+  if (!message || message.role !== "assistant") return [];
+
+  const sources = new Map<number, MessageSource>();
+  for (const part of message.parts) {
+    if (!part.type.startsWith("tool-") || !("output" in part)) continue;
+    const output = part.output as Record<string, unknown> | undefined;
+    if (!output || typeof output !== "object") continue;
+
+    for (const source of asArray<CitationSource>(output.sources)) {
+      if (sources.has(source.id)) continue;
+      sources.set(source.id, { ...source, text: sourceText(output, source.url) });
+    }
+  }
+
+  return Array.from(sources.values()).sort((a, b) => a.id - b.id);
+}
+
+export type CitationMarker = {
+  id: number;
+  /** The sentence the marker is attached to, with markers removed */
+  sentence: string;
+};
+
+const CITATION_PATTERN = /\[(\d{1,3}(?:\s*,\s*\d{1,3})*)\](?![(:])/g;
+
+/**
+ * Rewrites `[n]` and `[n, m]` markers as Markdown links to `#cite-<n>-<k>`,
+ * where k indexes the returned markers, so a renderer can swap them for
+ * citation components. Code spans and fenced blocks are left alone.
+ */
+export function linkCitations(markdown: string) {
+  const markers: CitationMarker[] = [];
+
+  const text = markdown
+    .split(/(```[\s\S]*?(?:```|$)|`[^`\n]*`)/g)
+    .map((segment, index) => {
+      if (index % 2 === 1) return segment;
+      return segment.replace(CITATION_PATTERN, (match, list: string, offset: number) => {
+        const sentence = sentenceBefore(segment, offset);
+        return list
+          .split(",")
+          .map((value) => {
+            const id = Number(value.trim());
+            markers.push({ id, sentence });
+            return `[\\[${id}\\]](#cite-${id}-${markers.length - 1})`;
+          })
+          .join("");
+      });
+    })
+    .join("");
+
+  return { text, markers };
+}
+
+/**
+ * Finds the passage of the source that best supports a sentence, by counting
+ * shared words. Falls back to the source snippet when nothing overlaps enough.
+ */
+export function quoteForCitation(sentence: string, source: MessageSource) {
+  const fallback = source.snippet;
+  if (!source.text) return fallback;
+
+  const wanted = new Set(significantWords(sentence));
+  if (wanted.size === 0) return fallback;
+
+  let best = { score: 0, passage: "" };
+  for (const passage of splitSentences(source.text)) {
+    const score = significantWords(passage).filter((word) => wanted.has(word)).length;
+    if (score > best.score) best = { score, passage };
+  }
+
+  return best.score >= 2 ? snippetOf(best.passage) : fallback;
+}
+
+function sourceText(output: Record<string, unknown>, url: string) {
+  const key = sourceKey(url);
+  const items = [
+    ...asArray<Record<string, unknown>>(output.results),
+    ...asArray<Record<string, unknown>>(output.pages),
+    ...asArray<Record<string, unknown>>(output.rows),
+  ];
+  const item = items.find(
+    (entry) => typeof entry.url === "string" && sourceKey(entry.url) === key,
+  );
+
+  if (item) {
+    const text = item.markdown ?? item.snippet ?? item.data;
+    return typeof text === "string" ? text : JSON.stringify(text);
+  }
+  return typeof output.content === "string" ? output.content : undefined;
+}
+
+function sentenceBefore(text: string, offset: number) {
+  const before = text.slice(0, offset);
+  const start = Math.max(
+    before.lastIndexOf(". "),
+    before.lastIndexOf("\n"),
+    before.lastIndexOf("! "),
+    before.lastIndexOf("? "),
+  );
+  return before
+    .slice(start + 1)
+    .replace(CITATION_PATTERN, "")
+    .trim();
+}
+
+function splitSentences(text: string) {
+  return markdownBody(text)
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.replace(/[#>*_`]/g, "").trim())
+    .filter((sentence) => sentence.length > 20);
+}
+
+function significantWords(text: string) {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 3 || /\d/.test(word));
+}
+
+function markdownBody(markdown: string) {
+  // A condensed long page leads with a note and contents; its sections are the body
+  const [, sections] = markdown.split(`\n${RELEVANT_SECTIONS_HEADING}\n`);
+  if (sections !== undefined) return sections.replace(/^\s*#{1,6} .*\n+/, "");
+  // Drop the "# Title" line tools prepend to their content
+  return markdown.replace(/^# .*\n+/, "");
+}
+
+function snippetOf(text: string | undefined) {
+  if (!text) return undefined;
+  const clean = text.replace(/\s+/g, " ").trim();
+  return clean.length > SNIPPET_CHAR_LIMIT
+    ? `${clean.slice(0, SNIPPET_CHAR_LIMIT - 1)}…`
+    : clean;
+}
+
+function sourceKey(url: string) {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.host.toLowerCase()}${parsed.pathname.replace(/\/+$/, "")}${parsed.search}`;
+  } catch {
+    return url.trim();
+  }
+}
+
+function asArray<T>(value: unknown): T[] {
+  return Array.isArray(value) ? (value as T[]) : [];
+}
+
+function uniqueById(sources: CitationSource[]) {
+  return sources.filter(
+    (source, index) => sources.findIndex((other) => other.id === source.id) === index,
+  );
+}
@@ -0,0 +1,256 @@
+/**
+ * A heading-delimited piece of a page. Ids are assigned in document order, so
+ * chunking the same markdown again gives the same ids.
+ */
+export type PageChunk = {
+  /** "s0" for text before the first heading, then "s1", "s2", …; long sections split into "s4.2", "s4.3", … */
+  id: string;
+  /** Heading path, e.g. "Pricing › Team"; empty before the first heading */
+  heading: string;
+  level: number;
+  text: string;
+};
+
+export type TocEntry = {
+  id: string;
+  heading: string;
+  level: number;
+  chars: number;
+};
+
+export type CondensedPage = {
+  content: string;
+  toc: TocEntry[];
+  /** Ids of the chunks included in `content`, in document order */
+  shownIds: string[];
+  totalChars: number;
+};
+
+export type ContextWindowConfig = {
+  /** Pages up to this many characters are passed to the model whole */
+  pageCharLimit: number;
+  /** Sections of a long page included for the model */
+  topK: number;
+};
+
+/**
+ * Reads context-window limits from environment configuration:
+ * - CONTEXT_PAGE_CHAR_LIMIT: longest page returned whole; longer pages are condensed (default 8000)
+ * - CONTEXT_TOP_K: sections of a condensed page returned for the question (default 4)
+ */
+export function createContextWindowConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): ContextWindowConfig {
+  return {
+    pageCharLimit: positiveInt(env.CONTEXT_PAGE_CHAR_LIMIT, 8000),
+    topK: positiveInt(env.CONTEXT_TOP_K, 4),
+  };
+}
+
+/** Heading above the sections a condensed page includes */
+export const RELEVANT_SECTIONS_HEADING = "## Relevant sections";
+
+/** Longest chunk; longer sections are split on paragraph boundaries */
+const MAX_CHUNK_CHARS = 2000;
+
+/** Table of contents entries listed for the model */
+const MAX_TOC_ENTRIES = 80;
+
+/**
+ * Splits markdown into chunks at headings (ignoring `#` lines inside code
+ * fences). Each chunk keeps its heading line so it reads on its own.
+ */
+export function chunkMarkdown(markdown: string): PageChunk[] {
+  const sections: { heading: string; level: number; lines: string[] }[] = [
+    { heading: "", level: 0, lines: [] },
+  ];
+  const path: { level: number; text: string }[] = [];
+  let inFence = false;
+
+  for (const line of markdown.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const heading = inFence ? null : /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    if (!heading) {
+      sections[sections.length - 1].lines.push(line);
+      continue;
+    }
+    const level = heading[1].length;
+    while (path.length && path[path.length - 1].level >= level) path.pop();
+    path.push({ level, text: heading[2] });
+    sections.push({
+      heading: path.map((part) => part.text).join(" › "),
+      level,
+      lines: [line],
+    });
+  }
+
+  const chunks: PageChunk[] = [];
+  sections.forEach((section, index) => {
+    const text = section.lines.join("\n").trim();
+    if (!text) return;
+    splitLongText(text).forEach((part, partIndex) => {
+      chunks.push({
+        id: partIndex === 0 ? `s${index}` : `s${index}.${partIndex + 1}`,
+        heading:
+          partIndex === 0 ? section.heading : `${section.heading} (part ${partIndex + 1})`,
+        level: section.level,
+        text: part,
+      });
+    });
+  });
+  return chunks;
+}
+
+/**
+ * Scores chunks against a query with Okapi BM25, counting heading words
+ * twice. Returns every chunk, best first; ties keep document order.
+ */
+export function rankChunks(chunks: PageChunk[], query: string) {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const documents = chunks.map((chunk) => {
+    const terms = [...tokenize(chunk.heading), ...tokenize(chunk.heading), ...tokenize(chunk.text)];
+    const frequencies = new Map<string, number>();
+    for (const term of terms) frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+    return { length: terms.length, frequencies };
+  });
+
+  const averageLength =
+    documents.reduce((sum, document) => sum + document.length, 0) /
+    Math.max(documents.length, 1);
+  const idf = new Map(
+    queryTerms.map((term) => {
+      const containing = documents.filter((document) => document.frequencies.has(term)).length;
+      return [
+        term,
+        Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5)),
+      ];
+    }),
+  );
+
+  const k1 = 1.2;
+  const b = 0.75;
+  return chunks
+    .map((chunk, index) => {
+      const { length, frequencies } = documents[index];
+      const score = queryTerms.reduce((sum, term) => {
+        const frequency = frequencies.get(term) ?? 0;
+        if (!frequency) return sum;
+        return (
+          sum +
+          (idf.get(term) ?? 0) *
+            ((frequency * (k1 + 1)) /
+              (frequency + k1 * (1 - b + (b * length) / (averageLength || 1))))
+        );
+      }, 0);
+      return { chunk, score, index };
+    })
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+}
+
+/**
+ * Shrinks a long page to a table of contents plus the sections that best
+ * match the question, within the page character limit. Returns null when the
+ * page is short enough to pass through whole.
+ */
+export function condensePage(
+  markdown: string,
+  question: string,
+  { url, title }: { url: string; title?: string },
+  config: ContextWindowConfig,
+): CondensedPage | null {
+  if (markdown.length <= config.pageCharLimit) return null;
+  const chunks = chunkMarkdown(markdown);
+  if (chunks.length === 0) return null;
+
+  const ranked = rankChunks(chunks, question);
+  // Without any matching words, the start of the page is the best guess
+  const candidates = ranked[0].score > 0 ? ranked.filter((item) => item.score > 0) : ranked;
+
+  const toc = chunks.map(({ id, heading, level, text }) => ({
+    id,
+    heading,
+    level,
+    chars: text.length,
+  }));
+  const tocText = [
+    ...toc
+      .slice(0, MAX_TOC_ENTRIES)
+      .map((entry) => `- [${entry.id}] ${entry.heading || "(top of page)"} (${formatChars(entry.chars)})`),
+    ...(toc.length > MAX_TOC_ENTRIES ? [`- … ${toc.length - MAX_TOC_ENTRIES} more sections`] : []),
+  ].join("\n");
+
+  // Spend what the table of contents leaves of the limit on the best sections
+  let budget = Math.max(config.pageCharLimit - tocText.length, MAX_CHUNK_CHARS);
+  const selected: { chunk: PageChunk; index: number }[] = [];
+  for (const item of candidates) {
+    if (selected.length >= config.topK) break;
+    if (item.chunk.text.length > budget && selected.length > 0) continue;
+    selected.push(item);
+    budget -= item.chunk.text.length;
+    if (budget <= 0) break;
+  }
+  selected.sort((a, b) => a.index - b.index);
+
+  const sections = selected.map(
+    ({ chunk }) => `### [${chunk.id}] ${chunk.heading || "(top of page)"}\n\n${chunk.text}`,
+  );
+  return {
+    content: [
+      `# ${title || url}`,
+      `This page is long (${formatChars(markdown.length)} in ${chunks.length} sections), so only the ${selected.length} section${selected.length === 1 ? "" : "s"} most relevant to the question ${selected.length === 1 ? "is" : "are"} included. Call readSection with this URL and ids from the contents to read other sections.`,
+      `## Contents\n${tocText}`,
+      `${RELEVANT_SECTIONS_HEADING}\n\n${sections.join("\n\n")}`,
+    ].join("\n\n"),
+    toc,
+    shownIds: selected.map(({ chunk }) => chunk.id),
+    totalChars: markdown.length,
+  };
+}
+
+/**
+ * Splits text over the chunk size on blank lines, then hard-wraps any
+ * paragraph that is still too long.
+ */
+function splitLongText(text: string) {
+  if (text.length <= MAX_CHUNK_CHARS) return [text];
+
+  const parts: string[] = [];
+  let current = "";
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const pieces =
+      paragraph.length > MAX_CHUNK_CHARS
+        ? (paragraph.match(new RegExp(`[\\s\\S]{1,${MAX_CHUNK_CHARS}}`, "g")) ?? [])
+        : [paragraph];
+    for (const piece of pieces) {
+      if (current && current.length + piece.length + 2 > MAX_CHUNK_CHARS) {
+        parts.push(current);
+        current = "";
+      }
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+const STOPWORDS = new Set(
+  "a an and are as at be but by can do does for from has have how i if in is it its me my of on or our so that the their them they this to was we what when where which who why will with you your".split(
+    " ",
+  ),
+);
+
+function tokenize(text: string) {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter((term) => term.length > 1 && !STOPWORDS.has(term))
+    // Fold plain plurals so "costs" matches "cost"
+    .map((term) => (term.length > 3 && /[^s]s$/.test(term) ? term.slice(0, -1) : term));
+}
+
+function formatChars(chars: number) {
+  return chars < 1000 ? `${chars} chars` : `${(chars / 1000).toFixed(1)}k chars`;
+}
+
+function positiveInt(value: string | undefined, fallback: number) {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
@@ -0,0 +1,207 @@
+import { randomBytes } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { UIMessage } from "ai";
+
+import type { PendingApproval } from "@/lib/approval";
+
+export type ConversationSummary = {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  /** User who created the conversation and can continue, rename or delete it */
+  ownerId?: string;
+  /** Workspace whose members can read the conversation */
+  workspaceId?: string;
+};
+
+export type Conversation = Omit<ConversationSummary, "messageCount"> & {
+  messages: UIMessage[];
+  /** Tool calls waiting for the owner's approval, as the server requested them */
+  pendingApprovals?: PendingApproval[];
+};
+
+/**
+ * Persistence backend for chat history.
+ */
+export interface ConversationStore {
+  list(options?: { query?: string }): Promise<ConversationSummary[]>;
+  get(id: string): Promise<Conversation | null>;
+  save(conversation: Conversation): Promise<void>;
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Stores each conversation as `<id>.json` in a directory.
+ */
+export class JsonConversationStore implements ConversationStore {
+  constructor(private directory: string) {}
+
+  async list({ query }: { query?: string } = {}) {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const needle = query?.trim().toLowerCase();
+    const conversations = await Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => this.get(file.replace(/\.json$/, ""))),
+    );
+
+    return conversations
+      .filter((conversation): conversation is Conversation => {
+        if (!conversation) return false;
+        if (!needle) return true;
+        return (
+          conversation.title.toLowerCase().includes(needle) ||
+          conversation.messages.some((message) =>
+            messageText(message).toLowerCase().includes(needle),
+          )
+        );
+      })
+      .map(toSummary)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async get(id: string) {
+    if (!isValidConversationId(id)) return null;
+    try {
+      const raw = await readFile(this.filePath(id), "utf8");
+      return JSON.parse(raw) as Conversation;
+    } catch {
+      return null;
+    }
+  }
+
+  async save(conversation: Conversation) {
+    if (!isValidConversationId(conversation.id)) {
+      throw new Error(`Invalid conversation id "${conversation.id}"`);
+    }
+    await mkdir(this.directory, { recursive: true });
+    // Write to a temp file first so a crash or a concurrent read never sees a
+    // truncated conversation; the unique name keeps parallel saves apart
+    const file = this.filePath(conversation.id);
+    const temp = `${file}.${randomBytes(6).toString("hex")}.tmp`;
+    await writeFile(temp, JSON.stringify(conversation), "utf8");
+    await rename(temp, file);
+  }
+
+  async delete(id: string) {
+    if (!(await this.get(id))) return false;
+    await rm(this.filePath(id), { force: true });
+    return true;
+  }
+
+  private filePath(id: string) {
+    return path.join(this.directory, `${id}.json`);
+  }
+}
+
+/**
+ * Builds the store from CONVERSATIONS_DIR (default ".data/conversations").
+ */
+export function createConversationStore(env: NodeJS.ProcessEnv = process.env) {
+  return new JsonConversationStore(
+    env.CONVERSATIONS_DIR ?? ".data/conversations",
+  );
+}
+
+/**
+ * Conversation ids come from the client, so only allow characters that are
+ * safe to use as a file name.
+ */
+export function isValidConversationId(id: unknown): id is string {
+  return typeof id === "string" && /^[\w-]{1,64}$/.test(id);
+}
+
+/**
+ * Saves the latest messages for a conversation, creating it on first save.
+ * The title defaults to the opening user message. Pending approvals are only
+ * replaced when given.
+ */
+export async function saveConversationMessages(
+  store: ConversationStore,
+  id: string,
+  messages: UIMessage[],
+  ownerId: string,
+  pendingApprovals?: PendingApproval[],
+) {
+  const existing = await store.get(id);
+  const now = new Date().toISOString();
+
+  await store.save({
+    ...existing,
+    id,
+    title: existing?.title || deriveTitle(messages),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    ownerId: existing?.ownerId ?? ownerId,
+    messages,
+    pendingApprovals: pendingApprovals ?? existing?.pendingApprovals,
+  });
+}
+
+export type ConversationAccess = "owner" | "viewer";
+
+/**
+ * What a user may do with a conversation: owners can continue and manage it,
+ * members of the workspace it is shared with can read it. Returns null when
+ * the user has no access.
+ */
+export function conversationAccess(
+  conversation: Pick<ConversationSummary, "ownerId" | "workspaceId">,
+  userId: string,
+  workspaceIds: string[],
+): ConversationAccess | null {
+  if (conversation.ownerId === userId) return "owner";
+  if (conversation.workspaceId && workspaceIds.includes(conversation.workspaceId)) {
+    return "viewer";
+  }
+  return null;
+}
+
+/**
+ * Gives conversations saved before sign-in existed to a user. Called when the
+ * first account is created so existing history isn't lost.
+ */
+export async function claimUnownedConversations(
+  store: ConversationStore,
+  ownerId: string,
+) {
+  for (const summary of await store.list()) {
+    if (summary.ownerId) continue;
+    const conversation = await store.get(summary.id);
+    if (conversation) await store.save({ ...conversation, ownerId });
+  }
+}
+
+export function toSummary(conversation: Conversation): ConversationSummary {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    messageCount: conversation.messages.length,
+    ownerId: conversation.ownerId,
+    workspaceId: conversation.workspaceId,
+  };
+}
+
+function deriveTitle(messages: UIMessage[]) {
+  const firstUserMessage = messages.find((message) => message.role === "user");
+  const text = firstUserMessage ? messageText(firstUserMessage).trim() : "";
+  if (!text) return "New chat";
+  return text.length > 60 ? `${text.slice(0, 57)}…` : text;
+}
+
+function messageText(message: UIMessage) {
+  return message.parts
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join(" ");
+}
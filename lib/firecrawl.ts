@@ -0,0 +1,47 @@
+import FirecrawlApp from "@mendable/firecrawl-js";
+
+import { logger } from "@/lib/logger";
+import {
+  errorType,
+  jsonByteLength,
+  tracer,
+  type SpanAttributes,
+} from "@/lib/tracing";
+
+// Initialize Firecrawl client if API key is available
+export const firecrawl = process.env.FIRECRAWL_API_KEY
+  ? new FirecrawlApp({ apiKey: process.env.FIRECRAWL_API_KEY })
+  : null;
+
+/**
+ * Runs a Firecrawl SDK call in a client span recording the target, latency,
+ * response size and, when it throws, the error class. Failures are logged
+ * here because the tools turn them into error results for the model.
+ */
+export function traceFirecrawl<T>(
+  operation: string,
+  attributes: SpanAttributes,
+  call: () => Promise<T>,
+) {
+  return tracer.withSpan(
+    `firecrawl.${operation}`,
+    {
+      kind: "client",
+      attributes: { "firecrawl.operation": operation, ...attributes },
+    },
+    async (span) => {
+      try {
+        const result = await call();
+        span.setAttributes({ "firecrawl.response.bytes": jsonByteLength(result) });
+        return result;
+      } catch (error) {
+        logger.error(`Firecrawl ${operation} failed`, {
+          ...attributes,
+          errorType: errorType(error),
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    },
+  );
+}
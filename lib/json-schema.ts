@@ -0,0 +1,110 @@
+import { z, type ZodTypeAny } from "zod";
+
+export type JsonSchema = {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  [key: string]: unknown;
+};
+
+/**
+ * Converts a (subset of) JSON Schema into a zod validator.
+ * Supports primitive types, objects, arrays, enums, type unions and anyOf/oneOf.
+ * Keywords it does not understand are ignored rather than rejected.
+ */
+export function jsonSchemaToZod(schema: JsonSchema): ZodTypeAny {
+  if (schema.enum?.length) {
+    return unionOf(
+      schema.enum.map((value) =>
+        z.literal(value as string | number | boolean | null),
+      ),
+    );
+  }
+
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants?.length) {
+    return unionOf(variants.map(jsonSchemaToZod));
+  }
+
+  if (Array.isArray(schema.type)) {
+    return unionOf(
+      schema.type.map((type) => jsonSchemaToZod({ ...schema, type })),
+    );
+  }
+
+  switch (schema.type) {
+    case "string":
+      return z.string();
+    case "number":
+      return z.number();
+    case "integer":
+      return z.number().int();
+    case "boolean":
+      return z.boolean();
+    case "null":
+      return z.null();
+    case "array":
+      return z.array(schema.items ? jsonSchemaToZod(schema.items) : z.unknown());
+    case "object": {
+      const required = new Set(schema.required ?? []);
+      const shape = Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, property]) => {
+          const validator = jsonSchemaToZod(property);
+          // Extractors return null for fields they could not find on the page
+          return [
+            key,
+            required.has(key) ? validator : validator.nullable().optional(),
+          ];
+        }),
+      );
+      return z.object(shape).passthrough();
+    }
+    default:
+      return schema.properties
+        ? jsonSchemaToZod({ ...schema, type: "object" })
+        : z.unknown();
+  }
+}
+
+/**
+ * Builds an object schema from plain-language field names such as
+ * "pricing tiers" or "contact emails". Property keys are camelCased and the
+ * original wording is kept as the description for the extractor.
+ */
+export function schemaFromFields(fields: string[]): JsonSchema {
+  return {
+    type: "object",
+    properties: Object.fromEntries(
+      fields.map((field) => [toFieldKey(field), { description: field }]),
+    ),
+  };
+}
+
+function toFieldKey(field: string) {
+  const words = field
+    .trim()
+    .replace(/[^a-zA-Z0-9]+/g, " ")
+    .split(" ")
+    .filter(Boolean);
+
+  return (
+    words
+      .map((word, index) =>
+        index === 0
+          ? word.toLowerCase()
+          : word[0].toUpperCase() + word.slice(1).toLowerCase(),
+      )
+      .join("") || "field"
+  );
+}
+
+function unionOf(validators: ZodTypeAny[]): ZodTypeAny {
+  return validators.length === 1
+    ? validators[0]
+    : z.union(validators as [ZodTypeAny, ZodTypeAny, ...ZodTypeAny[]]);
+}
@@ -0,0 +1,43 @@
+import { tracer } from "@/lib/tracing";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/**
+ * Creates a logger that writes one JSON object per line, tagged with the
+ * active span's trace and span ids so log lines can be matched to traces.
+ *
+ * LOG_LEVEL sets the lowest level written (default `info`).
+ */
+export function createLogger(env: NodeJS.ProcessEnv = process.env) {
+  const minimum =
+    LEVELS[(env.LOG_LEVEL as LogLevel | undefined) ?? "info"] ?? LEVELS.info;
+
+  const write = (level: LogLevel, message: string, fields: LogFields = {}) => {
+    if (LEVELS[level] < minimum) return;
+    const span = tracer.activeSpan();
+    const line = JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      message,
+      traceId: span?.traceId,
+      spanId: span?.spanId,
+      ...fields,
+    });
+    if (level === "error") console.error(line);
+    else if (level === "warn") console.warn(line);
+    else console.log(line);
+  };
+
+  return {
+    debug: (message: string, fields?: LogFields) => write("debug", message, fields),
+    info: (message: string, fields?: LogFields) => write("info", message, fields),
+    warn: (message: string, fields?: LogFields) => write("warn", message, fields),
+    error: (message: string, fields?: LogFields) => write("error", message, fields),
+  };
+}
+
+export const logger = createLogger();
@@ -0,0 +1,237 @@
+export type DiffLine = {
+  type: "equal" | "added" | "removed";
+  text: string;
+};
+
+export type MarkdownDiff = {
+  lines: DiffLine[];
+  added: number;
+  removed: number;
+};
+
+/**
+ * Largest before × after line grid compared exactly. Bigger inputs fall back
+ * to marking the whole differing middle as removed and re-added.
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Line diff of two markdown documents. Blank lines and trailing whitespace
+ * are ignored so reflowed paragraphs don't show up as changes.
+ */
+export function diffMarkdown(before: string, after: string): MarkdownDiff {
+  const a = toLines(before);
+  const b = toLines(after);
+
+  // Pages usually change in one place, so trim the shared start and end first
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const middle = diffMiddle(
+    a.slice(prefix, a.length - suffix),
+    b.slice(prefix, b.length - suffix),
+  );
+  const lines: DiffLine[] = [
+    ...a.slice(0, prefix).map((text) => ({ type: "equal" as const, text })),
+    ...middle,
+    ...a.slice(a.length - suffix).map((text) => ({ type: "equal" as const, text })),
+  ];
+
+  return {
+    lines,
+    added: lines.filter((line) => line.type === "added").length,
+    removed: lines.filter((line) => line.type === "removed").length,
+  };
+}
+
+/**
+ * A diff line, or a run of unchanged lines left out between hunks.
+ */
+export type HunkLine = DiffLine | { type: "skipped"; count: number };
+
+/**
+ * Keeps `context` unchanged lines around each change and replaces longer
+ * unchanged runs with a `skipped` marker.
+ */
+export function collapseUnchanged(diff: MarkdownDiff, context = 2): HunkLine[] {
+  const keep = new Set<number>();
+  diff.lines.forEach((line, index) => {
+    if (line.type === "equal") return;
+    for (let offset = -context; offset <= context; offset += 1) {
+      keep.add(index + offset);
+    }
+  });
+
+  const output: HunkLine[] = [];
+  let skipped = 0;
+  diff.lines.forEach((line, index) => {
+    if (!keep.has(index)) {
+      skipped += 1;
+      return;
+    }
+    if (skipped) output.push({ type: "skipped", count: skipped });
+    skipped = 0;
+    output.push(line);
+  });
+  if (skipped && output.length) output.push({ type: "skipped", count: skipped });
+  return output;
+}
+
+/**
+ * Renders a diff as unified-diff text: changed lines prefixed with + or -,
+ * with `context` unchanged lines around each change and "…" between hunks.
+ */
+export function unifiedDiff(diff: MarkdownDiff, context = 2) {
+  const lines = collapseUnchanged(diff, context);
+  return lines
+    .filter((line, index) => line.type !== "skipped" || (index > 0 && index < lines.length - 1))
+    .map((line) => {
+      if (line.type === "skipped") return "…";
+      const marker = line.type === "added" ? "+" : line.type === "removed" ? "-" : " ";
+      return `${marker} ${line.text}`;
+    })
+    .join("\n");
+}
+
+export type MarkdownSection = {
+  /** Heading path, e.g. "Pricing › Team"; empty for text before the first heading */
+  heading: string;
+  lines: string[];
+};
+
+export type SectionChange = {
+  heading: string;
+  added: string[];
+  removed: string[];
+};
+
+export type SectionDiff = {
+  added: MarkdownSection[];
+  removed: MarkdownSection[];
+  changed: SectionChange[];
+};
+
+/**
+ * Splits markdown into sections keyed by their heading path. Repeated paths
+ * get a " (2)", " (3)", … suffix so every key is unique.
+ */
+export function splitSections(markdown: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = [{ heading: "", lines: [] }];
+  const path: { level: number; text: string }[] = [];
+  const seen = new Map<string, number>();
+
+  for (const line of toLines(markdown)) {
+    const heading = /^(#{1,6})\s+(.*?)\s*#*$/.exec(line.trim());
+    if (!heading) {
+      sections[sections.length - 1].lines.push(line);
+      continue;
+    }
+    const level = heading[1].length;
+    while (path.length && path[path.length - 1].level >= level) path.pop();
+    path.push({ level, text: heading[2] });
+
+    const key = path.map((part) => part.text).join(" › ");
+    const count = (seen.get(key) ?? 0) + 1;
+    seen.set(key, count);
+    sections.push({ heading: count > 1 ? `${key} (${count})` : key, lines: [] });
+  }
+
+  return sections.filter((section) => section.heading || section.lines.length);
+}
+
+/**
+ * Compares two markdown documents section by section: sections only in
+ * `after` are added, sections only in `before` are removed, and sections in
+ * both whose text differs are changed, with their added and removed lines.
+ */
+export function diffSections(before: string, after: string): SectionDiff {
+  const a = splitSections(before);
+  const b = splitSections(after);
+  const previous = new Map(a.map((section) => [section.heading, section]));
+  const next = new Set(b.map((section) => section.heading));
+
+  const changed: SectionChange[] = [];
+  const added: MarkdownSection[] = [];
+  for (const section of b) {
+    const old = previous.get(section.heading);
+    if (!old) {
+      added.push(section);
+      continue;
+    }
+    const diff = diffMarkdown(old.lines.join("\n"), section.lines.join("\n"));
+    if (diff.added || diff.removed) {
+      changed.push({
+        heading: section.heading,
+        added: diff.lines.filter((line) => line.type === "added").map((line) => line.text),
+        removed: diff.lines.filter((line) => line.type === "removed").map((line) => line.text),
+      });
+    }
+  }
+
+  return {
+    added,
+    removed: a.filter((section) => !next.has(section.heading)),
+    changed,
+  };
+}
+
+function toLines(markdown: string) {
+  return markdown
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .filter((line) => line.trim() !== "");
+}
+
+/**
+ * Longest-common-subsequence diff of the lines that differ.
+ */
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map((text) => ({ type: "removed" as const, text })),
+      ...b.map((text) => ({ type: "added" as const, text })),
+    ];
+  }
+
+  // lengths[i * width + j] = LCS length of a[i:] and b[j:]
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "equal", text: a[i] });
+      i += 1;
+      j += 1;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      lines.push({ type: "removed", text: a[i] });
+      i += 1;
+    } else {
+      lines.push({ type: "added", text: b[j] });
+      j += 1;
+    }
+  }
+  while (i < a.length) lines.push({ type: "removed", text: a[i++] });
+  while (j < b.length) lines.push({ type: "added", text: b[j++] });
+  return lines;
+}
@@ -0,0 +1,140 @@
+import { anthropic } from "@ai-sdk/anthropic";
+import { azure } from "@ai-sdk/azure";
+import { openai } from "@ai-sdk/openai";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import type { LanguageModel } from "ai";
+
+export type ProviderId = "openai" | "anthropic" | "azure" | "openai-compatible";
+
+type ProviderDefinition = {
+  label: string;
+  /** Environment variables that must all be set for this provider to work */
+  requiredEnv: string[];
+  create: (modelId: string) => LanguageModel;
+};
+
+const providers: Record<ProviderId, ProviderDefinition> = {
+  openai: {
+    label: "OpenAI",
+    requiredEnv: ["OPENAI_API_KEY"],
+    create: (modelId) => openai(modelId),
+  },
+  anthropic: {
+    label: "Anthropic",
+    requiredEnv: ["ANTHROPIC_API_KEY"],
+    create: (modelId) => anthropic(modelId),
+  },
+  azure: {
+    label: "Azure OpenAI",
+    requiredEnv: ["AZURE_API_KEY", "AZURE_RESOURCE_NAME"],
+    // Azure model ids are deployment names
+    create: (modelId) => azure(modelId),
+  },
+  "openai-compatible": {
+    label: "OpenAI-compatible",
+    requiredEnv: ["OPENAI_COMPATIBLE_BASE_URL"],
+    create: (modelId) =>
+      createOpenAICompatible({
+        name: process.env.OPENAI_COMPATIBLE_NAME ?? "local",
+        baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL ?? "",
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+      })(modelId),
+  },
+};
+
+export type ModelOption = {
+  /** Allowlisted id in the form "provider:model", e.g. "openai:gpt-5-mini" */
+  id: string;
+  provider: ProviderId;
+  providerLabel: string;
+  modelId: string;
+  available: boolean;
+};
+
+const DEFAULT_MODELS = "openai:gpt-5-mini";
+
+/**
+ * Reads the model allowlist from CHAT_MODELS (comma-separated "provider:model"
+ * entries). Entries with an unknown provider are ignored.
+ */
+export function listModels(env: NodeJS.ProcessEnv = process.env): ModelOption[] {
+  const entries = (env.CHAT_MODELS ?? DEFAULT_MODELS)
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  const models: ModelOption[] = [];
+  for (const entry of entries) {
+    const separator = entry.indexOf(":");
+    const provider = entry.slice(0, separator) as ProviderId;
+    const modelId = entry.slice(separator + 1);
+    if (separator < 1 || !modelId || !(provider in providers)) continue;
+
+    models.push({
+      id: entry,
+      provider,
+      providerLabel: providers[provider].label,
+      modelId,
+      available: missingEnv(provider, env).length === 0,
+    });
+  }
+
+  return models;
+}
+
+/**
+ * The model used when a request does not pick one: CHAT_DEFAULT_MODEL if it is
+ * allowlisted, otherwise the first available model in the allowlist.
+ */
+export function getDefaultModel(env: NodeJS.ProcessEnv = process.env) {
+  const models = listModels(env);
+  return (
+    models.find((model) => model.id === env.CHAT_DEFAULT_MODEL) ??
+    models.find((model) => model.available) ??
+    models[0]
+  );
+}
+
+export type ResolvedModel =
+  | { ok: true; option: ModelOption; model: LanguageModel }
+  | { ok: false; error: string };
+
+/**
+ * Resolves a requested model id against the allowlist and checks that the
+ * selected provider's credentials are configured.
+ */
+export function resolveModel(
+  requested?: string,
+  env: NodeJS.ProcessEnv = process.env,
+): ResolvedModel {
+  const option = requested
+    ? listModels(env).find((model) => model.id === requested)
+    : getDefaultModel(env);
+
+  if (!option) {
+    return {
+      ok: false,
+      error: requested
+        ? `Model "${requested}" is not enabled. Add it to CHAT_MODELS.`
+        : "No models configured. Set CHAT_MODELS.",
+    };
+  }
+
+  const missing = missingEnv(option.provider, env);
+  if (missing.length) {
+    return {
+      ok: false,
+      error: `Set ${missing.join(" and ")} to use ${option.providerLabel} models.`,
+    };
+  }
+
+  return {
+    ok: true,
+    option,
+    model: providers[option.provider].create(option.modelId),
+  };
+}
+
+function missingEnv(provider: ProviderId, env: NodeJS.ProcessEnv) {
+  return providers[provider].requiredEnv.filter((name) => !env[name]);
+}
@@ -0,0 +1,476 @@
+import { generateText } from "ai";
+import { nanoid } from "nanoid";
+
+import { firecrawl, traceFirecrawl } from "@/lib/firecrawl";
+import { logger } from "@/lib/logger";
+import { diffMarkdown, unifiedDiff } from "@/lib/markdown-diff";
+import { resolveModel } from "@/lib/models";
+import {
+  isMonitorSchedule,
+  monitorStore,
+  MONITOR_SCHEDULES,
+  nextCheckAt,
+  scopeMarkdown,
+  type Monitor,
+  type MonitorNotification,
+  type MonitorSnapshot,
+} from "@/lib/monitors";
+import { tracer } from "@/lib/tracing";
+import { createUrlPolicy, UrlPolicy } from "@/lib/url-policy";
+import { usageTracker } from "@/lib/usage-limits";
+
+export type MonitorConfig = {
+  /** Run due checks in the background */
+  schedulerEnabled: boolean;
+  /** How often the scheduler looks for due monitors */
+  tickMs: number;
+  /** Monitors one user can register; 0 disables the limit */
+  maxPerUser: number;
+  /** Webhook for monitors that don't set their own */
+  defaultWebhookUrl?: string;
+  /** Allowlisted model id that writes change summaries; defaults to the chat default */
+  summaryModel?: string;
+};
+
+/**
+ * Reads monitoring options from environment configuration:
+ * - MONITOR_SCHEDULER: set to "off" to stop background checks
+ * - MONITOR_TICK_SECONDS: how often due monitors are looked for (default 60)
+ * - MONITOR_MAX_PER_USER: monitors per user (default 20, 0 for no limit)
+ * - MONITOR_WEBHOOK_URL: webhook notified of every change unless a monitor sets its own
+ * - MONITOR_SUMMARY_MODEL: allowlisted model id that summarizes changes
+ */
+export function createMonitorConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): MonitorConfig {
+  const tickSeconds = Number(env.MONITOR_TICK_SECONDS ?? 60);
+  const maxPerUser = Number(env.MONITOR_MAX_PER_USER ?? 20);
+  return {
+    schedulerEnabled: env.MONITOR_SCHEDULER !== "off",
+    tickMs:
+      (Number.isFinite(tickSeconds) && tickSeconds >= 5 ? tickSeconds : 60) * 1000,
+    maxPerUser: Number.isInteger(maxPerUser) && maxPerUser >= 0 ? maxPerUser : 20,
+    defaultWebhookUrl: env.MONITOR_WEBHOOK_URL || undefined,
+    summaryModel: env.MONITOR_SUMMARY_MODEL || undefined,
+  };
+}
+
+const monitorConfig = createMonitorConfig();
+const urlPolicy = createUrlPolicy();
+// Webhooks only need to stay off private networks; the fetch allow and deny
+// lists are about which pages may be scraped
+const webhookPolicy = new UrlPolicy({
+  allow: [],
+  deny: [],
+  blockPrivateHosts: process.env.URL_POLICY_ALLOW_PRIVATE_HOSTS !== "true",
+  checkRobots: false,
+  robotsUserAgent: "",
+});
+
+export type MonitorInput = {
+  url?: unknown;
+  schedule?: unknown;
+  selectors?: unknown;
+  section?: unknown;
+  webhookUrl?: unknown;
+};
+
+/**
+ * Validates monitor settings from the API or the watchWebsite tool. Fields
+ * left out keep the values from `existing`.
+ */
+export async function validateMonitorInput(
+  input: MonitorInput,
+  existing?: Monitor,
+): Promise<
+  | { ok: true; value: Pick<Monitor, "url" | "schedule" | "selectors" | "section" | "webhookUrl"> }
+  | { ok: false; error: string }
+> {
+  const url = input.url ?? existing?.url;
+  if (typeof url !== "string") return { ok: false, error: "A URL is required." };
+  const denial = await urlPolicy.check(url);
+  if (denial) return { ok: false, error: `Blocked by URL policy: ${denial.reason}` };
+
+  const schedule = input.schedule ?? existing?.schedule ?? "daily";
+  if (!isMonitorSchedule(schedule)) {
+    return {
+      ok: false,
+      error: `Schedule must be one of ${Object.keys(MONITOR_SCHEDULES).join(", ")}.`,
+    };
+  }
+
+  const selectors =
+    input.selectors === undefined
+      ? existing?.selectors
+      : Array.isArray(input.selectors)
+        ? input.selectors
+            .filter((selector): selector is string => typeof selector === "string")
+            .map((selector) => selector.trim())
+            .filter(Boolean)
+            .slice(0, 10)
+        : undefined;
+
+  const section =
+    input.section === undefined
+      ? existing?.section
+      : typeof input.section === "string" && input.section.trim()
+        ? input.section.trim().slice(0, 200)
+        : undefined;
+
+  const webhookUrl =
+    input.webhookUrl === undefined
+      ? existing?.webhookUrl
+      : typeof input.webhookUrl === "string" && input.webhookUrl.trim()
+        ? input.webhookUrl.trim()
+        : undefined;
+  if (webhookUrl) {
+    const webhookDenial = await webhookPolicy.check(webhookUrl);
+    if (webhookDenial) {
+      return { ok: false, error: `Webhook URL rejected: ${webhookDenial.reason}` };
+    }
+  }
+
+  return {
+    ok: true,
+    value: {
+      url,
+      schedule,
+      selectors: selectors?.length ? selectors : undefined,
+      section,
+      webhookUrl,
+    },
+  };
+}
+
+/**
+ * Registers a monitor for a user. Watching the same URL and scope again
+ * updates the existing monitor instead of adding a duplicate.
+ */
+export async function registerMonitor(
+  ownerId: string,
+  input: MonitorInput,
+): Promise<{ ok: true; monitor: Monitor; created: boolean } | { ok: false; error: string }> {
+  const validated = await validateMonitorInput(input);
+  if (!validated.ok) return validated;
+  const { value } = validated;
+
+  const mine = await monitorStore.listMonitors(ownerId);
+  const existing = mine.find(
+    (monitor) =>
+      monitor.url === value.url &&
+      monitor.section === value.section &&
+      (monitor.selectors ?? []).join(",") === (value.selectors ?? []).join(","),
+  );
+  const updated =
+    existing &&
+    (await monitorStore.updateMonitor(existing.id, (current) => ({
+      ...current,
+      ...value,
+      status: "active",
+    })));
+  if (updated) return { ok: true, monitor: updated, created: false };
+
+  if (monitorConfig.maxPerUser && mine.length >= monitorConfig.maxPerUser) {
+    return {
+      ok: false,
+      error: `You already watch ${mine.length} pages, the most allowed. Delete one on the monitors page first.`,
+    };
+  }
+
+  const now = new Date().toISOString();
+  const monitor: Monitor = {
+    id: nanoid(),
+    ownerId,
+    ...value,
+    status: "active",
+    createdAt: now,
+    nextCheckAt: now,
+  };
+  await monitorStore.saveMonitor(monitor);
+  return { ok: true, monitor, created: true };
+}
+
+export type MonitorCheckResult =
+  | { status: "baseline"; snapshot: MonitorSnapshot }
+  | { status: "unchanged"; snapshot: MonitorSnapshot }
+  | { status: "changed"; snapshot: MonitorSnapshot; notification: MonitorNotification }
+  | { status: "error"; error: string };
+
+/** Longest diff kept on a notification and sent to the summary model */
+const DIFF_CHAR_LIMIT = 8000;
+
+/**
+ * Re-scrapes a monitored page, stores the snapshot and, if its scoped
+ * markdown changed since the last one, notifies the owner in-app and by
+ * webhook with a summary of the change. The check counts against the owner's
+ * Firecrawl credit budget unless the caller already booked it (`budgeted`).
+ */
+export async function checkMonitor(
+  monitor: Monitor,
+  { budgeted = false }: { budgeted?: boolean } = {},
+): Promise<MonitorCheckResult> {
+  return tracer.withSpan(
+    "monitor.check",
+    {
+      parent: null,
+      baggage: { "enduser.id": monitor.ownerId, "app.monitor.id": monitor.id },
+      attributes: { "url.full": monitor.url, "app.monitor.schedule": monitor.schedule },
+    },
+    async (span) => {
+      const checkedAt = new Date();
+      const result = await runCheck(monitor, checkedAt, budgeted);
+      span.setAttributes({ "app.monitor.result": result.status });
+      if (result.status === "error") span.setError("MonitorCheckError", result.error);
+
+      // Apply to the stored copy: edits made during the check are kept, and a
+      // monitor deleted meanwhile stays deleted
+      await monitorStore.updateMonitor(monitor.id, (latest) => ({
+        ...latest,
+        lastCheckedAt: checkedAt.toISOString(),
+        nextCheckAt: nextCheckAt(latest.schedule, checkedAt),
+        lastChangedAt:
+          result.status === "changed" ? checkedAt.toISOString() : latest.lastChangedAt,
+        lastError: result.status === "error" ? result.error : undefined,
+      }));
+      return result;
+    },
+  );
+}
+
+async function runCheck(
+  monitor: Monitor,
+  checkedAt: Date,
+  budgeted: boolean,
+): Promise<MonitorCheckResult> {
+  if (!firecrawl) {
+    return { status: "error", error: "FIRECRAWL_API_KEY is not configured." };
+  }
+  const denial = await urlPolicy.check(monitor.url);
+  if (denial) return { status: "error", error: `Blocked by URL policy: ${denial.reason}` };
+
+  const reservation = budgeted
+    ? { ok: true as const, settle: () => undefined }
+    : usageTracker.reserveToolCall(monitor.ownerId, undefined, 1, checkedAt);
+  if (!reservation.ok) return { status: "error", error: reservation.exhausted.reason };
+
+  let markdown: string;
+  let title: string | undefined;
+  try {
+    const page = (await traceFirecrawl("scrape", { "url.full": monitor.url }, () =>
+      firecrawl!.scrape(monitor.url, {
+        formats: ["markdown"],
+        onlyMainContent: true,
+        includeTags: monitor.selectors,
+      }),
+    )) as { markdown?: string; metadata?: { title?: string } };
+    reservation.settle(1);
+    markdown = page.markdown ?? "";
+    title = page.metadata?.title;
+  } catch (error) {
+    reservation.settle(0);
+    return {
+      status: "error",
+      error: error instanceof Error ? error.message : "Unknown Firecrawl error.",
+    };
+  }
+
+  if (monitor.section) {
+    const scoped = scopeMarkdown(markdown, monitor.section);
+    if (scoped === null) {
+      return {
+        status: "error",
+        error: `No heading containing "${monitor.section}" was found on the page.`,
+      };
+    }
+    markdown = scoped;
+  }
+
+  const snapshots = await monitorStore.listSnapshots(monitor.id);
+  const previous = snapshots[snapshots.length - 1];
+  const snapshot: MonitorSnapshot = {
+    id: nanoid(),
+    monitorId: monitor.id,
+    url: monitor.url,
+    fetchedAt: checkedAt.toISOString(),
+    title,
+    markdown,
+  };
+
+  if (!previous) {
+    await monitorStore.addSnapshot(snapshot);
+    return { status: "baseline", snapshot };
+  }
+
+  const diff = diffMarkdown(previous.markdown, markdown);
+  if (diff.added === 0 && diff.removed === 0) {
+    return { status: "unchanged", snapshot: previous };
+  }
+  await monitorStore.addSnapshot(snapshot);
+
+  const diffText = unifiedDiff(diff).slice(0, DIFF_CHAR_LIMIT);
+  const notification: MonitorNotification = {
+    id: nanoid(),
+    userId: monitor.ownerId,
+    monitorId: monitor.id,
+    url: monitor.url,
+    createdAt: checkedAt.toISOString(),
+    summary: await summarizeChange(monitor, diffText, diff.added, diff.removed),
+    added: diff.added,
+    removed: diff.removed,
+    diff: diffText,
+  };
+  await monitorStore.addNotification(notification);
+  await sendWebhook(monitor, notification);
+  return { status: "changed", snapshot, notification };
+}
+
+/**
+ * Asks the model what changed; falls back to line counts when no model is
+ * available or the call fails.
+ */
+async function summarizeChange(
+  monitor: Monitor,
+  diffText: string,
+  added: number,
+  removed: number,
+) {
+  const fallback = `${added} line${added === 1 ? "" : "s"} added and ${removed} removed on ${monitor.url}.`;
+  const resolved = resolveModel(monitorConfig.summaryModel);
+  if (!resolved.ok) return fallback;
+
+  try {
+    const { text } = await generateText({
+      model: resolved.model,
+      system: [
+        "You summarize changes to monitored web pages for a sales team.",
+        "Given a unified diff of the page's markdown (+ added, - removed), say in two or three sentences what changed and why it might matter, e.g. new prices, renamed plans or removed features.",
+        "Ignore changes to timestamps, counters and other noise unless nothing else changed.",
+      ].join("\n"),
+      prompt: `Page: ${monitor.url}${monitor.section ? ` (section "${monitor.section}")` : ""}\n\n${diffText}`,
+      maxOutputTokens: 300,
+    });
+    return text.trim() || fallback;
+  } catch (error) {
+    logger.warn("Change summary failed", {
+      monitorId: monitor.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return fallback;
+  }
+}
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+async function sendWebhook(monitor: Monitor, notification: MonitorNotification) {
+  const webhookUrl = monitor.webhookUrl ?? monitorConfig.defaultWebhookUrl;
+  if (!webhookUrl) return;
+  // Re-check at send time in case the host now resolves to a private address
+  const denial = await webhookPolicy.check(webhookUrl);
+  if (denial) {
+    logger.warn("Monitor webhook blocked", { monitorId: monitor.id, reason: denial.reason });
+    return;
+  }
+
+  try {
+    const response = await fetch(webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        type: "monitor.changed",
+        monitorId: monitor.id,
+        url: monitor.url,
+        section: monitor.section,
+        selectors: monitor.selectors,
+        checkedAt: notification.createdAt,
+        summary: notification.summary,
+        added: notification.added,
+        removed: notification.removed,
+        diff: notification.diff,
+      }),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      // The policy only checked this URL, so a redirect (which could point
+      // at a private host) counts as a failed delivery
+      redirect: "manual",
+    });
+    if (!response.ok) {
+      logger.warn("Monitor webhook failed", { monitorId: monitor.id, status: response.status });
+    }
+  } catch (error) {
+    logger.warn("Monitor webhook failed", {
+      monitorId: monitor.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Checks every active monitor that is due, one at a time. A check that
+ * throws is logged and rescheduled, so one failing monitor can't stop the
+ * rest of the round or be retried on every tick.
+ */
+export async function runDueMonitors(now = new Date()) {
+  const due = (await monitorStore.listMonitors()).filter(
+    (monitor) => monitor.status === "active" && Date.parse(monitor.nextCheckAt) <= now.getTime(),
+  );
+  for (const monitor of due) {
+    let result: MonitorCheckResult;
+    try {
+      result = await checkMonitor(monitor);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error("Monitor check failed", {
+        monitorId: monitor.id,
+        url: monitor.url,
+        error: message,
+      });
+      const failedAt = new Date();
+      await monitorStore
+        .updateMonitor(monitor.id, (latest) => ({
+          ...latest,
+          nextCheckAt: nextCheckAt(latest.schedule, failedAt),
+          lastError: message,
+        }))
+        .catch((updateError) =>
+          logger.error("Rescheduling monitor failed", {
+            monitorId: monitor.id,
+            error: updateError instanceof Error ? updateError.message : String(updateError),
+          }),
+        );
+      continue;
+    }
+    logger.info("Monitor checked", {
+      monitorId: monitor.id,
+      url: monitor.url,
+      result: result.status,
+      error: result.status === "error" ? result.error : undefined,
+    });
+  }
+}
+
+const globalForScheduler = globalThis as { monitorScheduler?: NodeJS.Timeout };
+
+/**
+ * Starts the background scheduler once per process. Ticks never overlap: a
+ * slow round of checks delays the next one.
+ */
+export function startMonitorScheduler(config: MonitorConfig = monitorConfig) {
+  if (!config.schedulerEnabled || globalForScheduler.monitorScheduler) return;
+
+  let running = false;
+  globalForScheduler.monitorScheduler = setInterval(() => {
+    if (running) return;
+    running = true;
+    runDueMonitors()
+      .catch((error) =>
+        logger.error("Monitor scheduler tick failed", {
+          error: error instanceof Error ? error.message : String(error),
+        }),
+      )
+      .finally(() => {
+        running = false;
+      });
+  }, config.tickMs);
+  // Don't keep the process alive just for the scheduler
+  globalForScheduler.monitorScheduler.unref?.();
+  logger.info("Monitor scheduler started", { tickSeconds: config.tickMs / 1000 });
+}
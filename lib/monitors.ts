@@ -0,0 +1,308 @@
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export type MonitorSchedule = "hourly" | "every-6-hours" | "daily" | "weekly";
+
+export const MONITOR_SCHEDULES: Record<
+  MonitorSchedule,
+  { label: string; minutes: number }
+> = {
+  hourly: { label: "Every hour", minutes: 60 },
+  "every-6-hours": { label: "Every 6 hours", minutes: 360 },
+  daily: { label: "Every day", minutes: 1440 },
+  weekly: { label: "Every week", minutes: 10_080 },
+};
+
+export function isMonitorSchedule(value: unknown): value is MonitorSchedule {
+  return typeof value === "string" && value in MONITOR_SCHEDULES;
+}
+
+/**
+ * A URL that is re-scraped on a schedule; changes to its (scoped) markdown
+ * raise a notification for the owner.
+ */
+export type Monitor = {
+  id: string;
+  ownerId: string;
+  url: string;
+  schedule: MonitorSchedule;
+  /** CSS selectors Firecrawl keeps when scraping, e.g. [".pricing"] */
+  selectors?: string[];
+  /** Only compare the markdown under the first heading containing this text */
+  section?: string;
+  /** Receives a POST for every change, in addition to the in-app notification */
+  webhookUrl?: string;
+  status: "active" | "paused";
+  createdAt: string;
+  nextCheckAt: string;
+  lastCheckedAt?: string;
+  lastChangedAt?: string;
+  /** Why the last check failed, cleared by the next successful one */
+  lastError?: string;
+};
+
+/**
+ * The scoped markdown of a monitored page at one point in time.
+ */
+export type MonitorSnapshot = {
+  id: string;
+  monitorId: string;
+  url: string;
+  fetchedAt: string;
+  title?: string;
+  markdown: string;
+};
+
+/**
+ * An in-app alert that a monitored page changed.
+ */
+export type MonitorNotification = {
+  id: string;
+  userId: string;
+  monitorId: string;
+  url: string;
+  createdAt: string;
+  /** The model's summary of what changed */
+  summary: string;
+  added: number;
+  removed: number;
+  /** Unified diff of the change, clipped */
+  diff: string;
+  readAt?: string;
+};
+
+/**
+ * Persistence backend for monitors, their snapshots and notifications.
+ */
+export interface MonitorStore {
+  listMonitors(ownerId?: string): Promise<Monitor[]>;
+  getMonitor(id: string): Promise<Monitor | null>;
+  saveMonitor(monitor: Monitor): Promise<void>;
+  /**
+   * Applies a change to the stored monitor in the same serialized write, so
+   * concurrent edits aren't lost. Returns null, writing nothing, if the
+   * monitor no longer exists.
+   */
+  updateMonitor(id: string, change: (monitor: Monitor) => Monitor): Promise<Monitor | null>;
+  deleteMonitor(id: string): Promise<void>;
+  /** Oldest first */
+  listSnapshots(monitorId: string): Promise<MonitorSnapshot[]>;
+  addSnapshot(snapshot: MonitorSnapshot): Promise<void>;
+  /** Newest first */
+  listNotifications(userId: string): Promise<MonitorNotification[]>;
+  addNotification(notification: MonitorNotification): Promise<void>;
+  markNotificationsRead(userId: string, ids?: string[]): Promise<void>;
+}
+
+type MonitorStoreData = {
+  monitors: Monitor[];
+  notifications: MonitorNotification[];
+};
+
+/** Snapshots kept per monitor; older ones are dropped */
+const MAX_SNAPSHOTS = 20;
+
+/** Notifications kept per user */
+const MAX_NOTIFICATIONS = 100;
+
+/**
+ * Keeps monitors and notifications in `monitors.json` and each monitor's
+ * snapshots in `snapshots/<id>.json` under a directory. Writes are
+ * serialized so the scheduler and API routes don't clobber each other.
+ */
+export class JsonMonitorStore implements MonitorStore {
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(private directory: string) {}
+
+  async listMonitors(ownerId?: string) {
+    const { monitors } = await this.read();
+    return ownerId
+      ? monitors.filter((monitor) => monitor.ownerId === ownerId)
+      : monitors;
+  }
+
+  async getMonitor(id: string) {
+    return (await this.read()).monitors.find((monitor) => monitor.id === id) ?? null;
+  }
+
+  async saveMonitor(monitor: Monitor) {
+    await this.update((data) => ({
+      ...data,
+      monitors: upsert(data.monitors, monitor),
+    }));
+  }
+
+  async updateMonitor(id: string, change: (monitor: Monitor) => Monitor) {
+    let updated: Monitor | null = null;
+    await this.update((data) => {
+      const current = data.monitors.find((monitor) => monitor.id === id);
+      if (!current) return data;
+      updated = change(current);
+      return { ...data, monitors: upsert(data.monitors, updated) };
+    });
+    return updated as Monitor | null;
+  }
+
+  async deleteMonitor(id: string) {
+    await this.update((data) => ({
+      monitors: data.monitors.filter((monitor) => monitor.id !== id),
+      notifications: data.notifications.filter(
+        (notification) => notification.monitorId !== id,
+      ),
+    }));
+    await rm(this.snapshotPath(id), { force: true });
+  }
+
+  async listSnapshots(monitorId: string) {
+    try {
+      const raw = await readFile(this.snapshotPath(monitorId), "utf8");
+      return JSON.parse(raw) as MonitorSnapshot[];
+    } catch {
+      return [];
+    }
+  }
+
+  async addSnapshot(snapshot: MonitorSnapshot) {
+    const write = this.writes.then(async () => {
+      const snapshots = [...(await this.listSnapshots(snapshot.monitorId)), snapshot];
+      await writeAtomically(
+        this.snapshotPath(snapshot.monitorId),
+        JSON.stringify(snapshots.slice(-MAX_SNAPSHOTS)),
+      );
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  async listNotifications(userId: string) {
+    return (await this.read()).notifications
+      .filter((notification) => notification.userId === userId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async addNotification(notification: MonitorNotification) {
+    await this.update((data) => {
+      const mine = data.notifications.filter(
+        (existing) => existing.userId === notification.userId,
+      );
+      const dropped = new Set(
+        mine
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+          .slice(MAX_NOTIFICATIONS - 1)
+          .map((existing) => existing.id),
+      );
+      return {
+        ...data,
+        notifications: [
+          ...data.notifications.filter((existing) => !dropped.has(existing.id)),
+          notification,
+        ],
+      };
+    });
+  }
+
+  async markNotificationsRead(userId: string, ids?: string[]) {
+    const readAt = new Date().toISOString();
+    await this.update((data) => ({
+      ...data,
+      notifications: data.notifications.map((notification) =>
+        notification.userId === userId &&
+        !notification.readAt &&
+        (!ids || ids.includes(notification.id))
+          ? { ...notification, readAt }
+          : notification,
+      ),
+    }));
+  }
+
+  private async read(): Promise<MonitorStoreData> {
+    try {
+      const raw = await readFile(path.join(this.directory, "monitors.json"), "utf8");
+      const data = JSON.parse(raw) as Partial<MonitorStoreData>;
+      return {
+        monitors: data.monitors ?? [],
+        notifications: data.notifications ?? [],
+      };
+    } catch {
+      return { monitors: [], notifications: [] };
+    }
+  }
+
+  private update(change: (data: MonitorStoreData) => MonitorStoreData) {
+    const write = this.writes.then(async () => {
+      const next = change(await this.read());
+      await writeAtomically(
+        path.join(this.directory, "monitors.json"),
+        JSON.stringify(next, null, 2),
+      );
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  private snapshotPath(monitorId: string) {
+    return path.join(this.directory, "snapshots", `${monitorId}.json`);
+  }
+}
+
+/**
+ * Builds the store from MONITORS_DIR (default ".data/monitors").
+ */
+export function createMonitorStore(env: NodeJS.ProcessEnv = process.env) {
+  return new JsonMonitorStore(env.MONITORS_DIR ?? ".data/monitors");
+}
+
+// Route handlers and the scheduler are bundled separately, so share one store
+// (and its write queue) per process
+const globalForMonitors = globalThis as { monitorStore?: MonitorStore };
+
+export const monitorStore =
+  globalForMonitors.monitorStore ??
+  (globalForMonitors.monitorStore = createMonitorStore());
+
+/**
+ * When a monitor checked at `from` is next due.
+ */
+export function nextCheckAt(schedule: MonitorSchedule, from = new Date()) {
+  return new Date(
+    from.getTime() + MONITOR_SCHEDULES[schedule].minutes * 60_000,
+  ).toISOString();
+}
+
+/**
+ * The markdown under the first heading whose text contains `section`
+ * (case-insensitive), up to the next heading of the same or a higher level.
+ * Returns null when no heading matches.
+ */
+export function scopeMarkdown(markdown: string, section: string) {
+  const lines = markdown.split("\n");
+  const wanted = section.trim().toLowerCase();
+  const start = lines.findIndex((line) => {
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line.trim());
+    return heading ? heading[2].toLowerCase().includes(wanted) : false;
+  });
+  if (start < 0) return null;
+
+  const level = /^#+/.exec(lines[start].trim())![0].length;
+  const end = lines.findIndex((line, index) => {
+    if (index <= start) return false;
+    const heading = /^(#{1,6})\s/.exec(line.trim());
+    return heading ? heading[1].length <= level : false;
+  });
+  return lines.slice(start, end < 0 ? undefined : end).join("\n").trim();
+}
+
+async function writeAtomically(file: string, contents: string) {
+  await mkdir(path.dirname(file), { recursive: true });
+  // Write to a temp file first so a crash never leaves a truncated file
+  const temp = `${file}.tmp`;
+  await writeFile(temp, contents, "utf8");
+  await rename(temp, file);
+}
+
+function upsert<T extends { id: string }>(items: T[], item: T) {
+  const index = items.findIndex((existing) => existing.id === item.id);
+  if (index < 0) return [...items, item];
+  return items.map((existing, position) => (position === index ? item : existing));
+}
@@ -0,0 +1,113 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { normalizeUrl } from "@/lib/cache";
+
+/**
+ * The markdown of a scraped page at one point in time.
+ */
+export type PageSnapshot = {
+  id: string;
+  /** Normalized URL the page was requested as */
+  url: string;
+  fetchedAt: string;
+  title?: string;
+  /**
+   * Scrape options that change what ends up in the markdown (tags, actions,
+   * mobile, …); only snapshots with the same scope are compared by default
+   */
+  scope?: string;
+  markdown: string;
+};
+
+/**
+ * Persistence backend for per-user page snapshots.
+ */
+export interface PageSnapshotStore {
+  /** Oldest first */
+  list(userId: string, url: string): Promise<PageSnapshot[]>;
+  add(userId: string, snapshot: PageSnapshot): Promise<void>;
+}
+
+/** Snapshots kept per user and URL; older ones are dropped */
+const MAX_SNAPSHOTS = 10;
+
+/** Longest markdown stored per snapshot */
+const MAX_MARKDOWN_CHARS = 200_000;
+
+/**
+ * Keeps each user's snapshots of a URL in `<userId>/<url hash>.json` under a
+ * directory. Writes are serialized so parallel scrapes don't drop snapshots.
+ */
+export class JsonPageSnapshotStore implements PageSnapshotStore {
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(private directory: string) {}
+
+  async list(userId: string, url: string) {
+    try {
+      const raw = await readFile(this.filePath(userId, url), "utf8");
+      return JSON.parse(raw) as PageSnapshot[];
+    } catch {
+      return [];
+    }
+  }
+
+  async add(userId: string, snapshot: PageSnapshot) {
+    const write = this.writes.then(async () => {
+      const existing = await this.list(userId, snapshot.url);
+      // Cached results come back with their original fetch time; keep one copy
+      if (
+        existing.some(
+          (item) =>
+            item.fetchedAt === snapshot.fetchedAt && item.scope === snapshot.scope,
+        )
+      ) {
+        return;
+      }
+      const snapshots = [
+        ...existing,
+        { ...snapshot, markdown: snapshot.markdown.slice(0, MAX_MARKDOWN_CHARS) },
+      ].sort((a, b) => a.fetchedAt.localeCompare(b.fetchedAt));
+
+      const file = this.filePath(userId, snapshot.url);
+      await mkdir(path.dirname(file), { recursive: true });
+      // Write to a temp file first so a crash never leaves a truncated file
+      const temp = `${file}.tmp`;
+      await writeFile(temp, JSON.stringify(snapshots.slice(-MAX_SNAPSHOTS)), "utf8");
+      await rename(temp, file);
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  private filePath(userId: string, url: string) {
+    const hash = createHash("sha256").update(normalizeUrl(url)).digest("hex");
+    return path.join(this.directory, userId, `${hash.slice(0, 32)}.json`);
+  }
+}
+
+/**
+ * Builds the store from SNAPSHOTS_DIR (default ".data/snapshots").
+ */
+export function createPageSnapshotStore(env: NodeJS.ProcessEnv = process.env) {
+  return new JsonPageSnapshotStore(env.SNAPSHOTS_DIR ?? ".data/snapshots");
+}
+
+/**
+ * Picks a snapshot by id, or the newest one taken at or before an ISO
+ * timestamp or date.
+ */
+export function findSnapshot(snapshots: PageSnapshot[], ref: string) {
+  const byId = snapshots.find((snapshot) => snapshot.id === ref);
+  if (byId) return byId;
+
+  const time = Date.parse(ref);
+  if (Number.isNaN(time)) return undefined;
+  // A bare date means any time that day
+  const cutoff = /^\d{4}-\d{2}-\d{2}$/.test(ref) ? time + 86_400_000 - 1 : time;
+  return [...snapshots]
+    .reverse()
+    .find((snapshot) => Date.parse(snapshot.fetchedAt) <= cutoff);
+}
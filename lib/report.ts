@@ -0,0 +1,236 @@
+import type { UIMessage } from "ai";
+
+import type { AttachmentText } from "@/lib/attachments";
+import { collectSources } from "@/lib/citations";
+
+/**
+ * Longest tool output included in an exported report, per tool call
+ */
+const REPORT_TOOL_OUTPUT_CHAR_LIMIT = 6000;
+
+export type ReportConversation = {
+  title: string;
+  createdAt?: string;
+  messages: UIMessage[];
+};
+
+export type ReportToolCall = {
+  name: string;
+  state: string;
+  input: unknown;
+  /** Markdown the model saw, or pretty-printed JSON for tools without one */
+  output?: string;
+  errorText?: string;
+};
+
+/**
+ * Tool calls of a message in the order they ran.
+ */
+export function reportToolCalls(message: UIMessage): ReportToolCall[] {
+  return message.parts.flatMap((part) => {
+    if (!part.type.startsWith("tool-") && part.type !== "dynamic-tool") {
+      return [];
+    }
+    const tool = part as {
+      type: string;
+      toolName?: string;
+      state: string;
+      input?: unknown;
+      output?: unknown;
+      errorText?: string;
+    };
+
+    return [
+      {
+        name: tool.toolName ?? tool.type.replace(/^tool-/, ""),
+        state: tool.state,
+        input: tool.input,
+        output: formatToolOutputText(tool.output),
+        errorText: tool.errorText,
+      },
+    ];
+  });
+}
+
+export function messageText(message: UIMessage) {
+  return message.parts
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join("")
+    .trim();
+}
+
+export type MessageAttachment = {
+  filename?: string;
+  mediaType: string;
+  url?: string;
+};
+
+/**
+ * Files attached to a message: uploads still carrying their data, and files
+ * already replaced by their extracted text. Only uploads have a `url`.
+ */
+export function messageAttachments(message: UIMessage) {
+  return message.parts.flatMap((part): MessageAttachment[] => {
+    if (part.type === "file") {
+      return [{ filename: part.filename, mediaType: part.mediaType, url: part.url }];
+    }
+    if (part.type === "data-attachment") {
+      const { filename, mediaType } = part.data as AttachmentText;
+      return [{ filename, mediaType }];
+    }
+    return [];
+  });
+}
+
+/**
+ * Renders a conversation as a Markdown research report: each answer with its
+ * sources, and tool inputs/outputs folded into `<details>` blocks.
+ */
+export function conversationToMarkdown(conversation: ReportConversation) {
+  const started = conversation.createdAt ? ` · started ${conversation.createdAt}` : "";
+  const lines: string[] = [
+    `# ${conversation.title}`,
+    "",
+    `_Exported ${new Date().toISOString()}${started}_`,
+    "",
+  ];
+
+  for (const message of conversation.messages) {
+    if (message.role === "system") continue;
+
+    if (message.role === "user") {
+      lines.push("## Question", "", blockquote(messageText(message) || "(no text)"));
+      const files = messageAttachments(message);
+      if (files.length) {
+        lines.push(
+          "",
+          `Attachments: ${files.map((file) => file.filename ?? file.mediaType).join(", ")}`,
+        );
+      }
+      lines.push("");
+      continue;
+    }
+
+    const toolCalls = reportToolCalls(message);
+    if (toolCalls.length) {
+      lines.push("### Research steps", "");
+      for (const call of toolCalls) {
+        lines.push(
+          "<details>",
+          `<summary>${escapeHtml(call.name)} (${call.state})</summary>`,
+          "",
+          "**Input**",
+          "",
+          fence(JSON.stringify(call.input ?? {}, null, 2), "json"),
+          "",
+          "**Output**",
+          "",
+          fence(call.errorText ?? call.output ?? "(no output)"),
+          "",
+          "</details>",
+          "",
+        );
+      }
+    }
+
+    lines.push("## Answer", "", messageText(message) || "_(no answer)_", "");
+
+    const sources = collectSources(message);
+    if (sources.length) {
+      lines.push("### Sources", "");
+      sources.forEach((source) => {
+        const label = source.title && source.title !== source.url ? source.title : source.url;
+        lines.push(`- [${source.id}] [${label}](${source.url})`);
+      });
+      lines.push("");
+    }
+  }
+
+  return `${lines.join("\n").trim()}\n`;
+}
+
+/**
+ * Accepts either a raw `UIMessage[]` dump or an object with `messages` (and
+ * optionally `title`). Returns null when the JSON isn't a conversation.
+ */
+export function parseConversationImport(
+  value: unknown,
+): { title?: string; messages: UIMessage[] } | null {
+  const candidate = Array.isArray(value)
+    ? { messages: value }
+    : typeof value === "object" && value !== null
+      ? (value as { title?: unknown; messages?: unknown })
+      : null;
+
+  if (!candidate || !isUIMessageArray(candidate.messages)) return null;
+  return {
+    title: typeof candidate.title === "string" ? candidate.title : undefined,
+    messages: candidate.messages,
+  };
+}
+
+export function isUIMessageArray(value: unknown): value is UIMessage[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (message) =>
+        typeof message === "object" &&
+        message !== null &&
+        typeof message.id === "string" &&
+        ["user", "assistant", "system"].includes(message.role) &&
+        Array.isArray(message.parts) &&
+        message.parts.every(
+          (part: unknown) =>
+            typeof part === "object" &&
+            part !== null &&
+            typeof (part as { type?: unknown }).type === "string",
+        ),
+    )
+  );
+}
+
+/**
+ * File name for a download, derived from the conversation title.
+ */
+export function exportFileName(title: string, extension: string) {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${slug || "conversation"}.${extension}`;
+}
+
+function formatToolOutputText(output: unknown) {
+  if (output === undefined) return undefined;
+  const text =
+    typeof output === "string"
+      ? output
+      : typeof output === "object" &&
+          output !== null &&
+          typeof (output as { content?: unknown }).content === "string"
+        ? (output as { content: string }).content
+        : JSON.stringify(output, null, 2);
+
+  return text.length > REPORT_TOOL_OUTPUT_CHAR_LIMIT
+    ? `${text.slice(0, REPORT_TOOL_OUTPUT_CHAR_LIMIT)}\n\n…(truncated)`
+    : text;
+}
+
+function fence(text: string, language = "") {
+  // Use a fence longer than any backtick run inside the text
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = "`".repeat(longest + 1);
+  return `${marker}${language}\n${text}\n${marker}`;
+}
+
+function blockquote(text: string) {
+  return text
+    .split("\n")
+    .map((line) => `> ${line}`)
+    .join("\n");
+}
+
+function escapeHtml(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
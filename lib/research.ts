@@ -0,0 +1,338 @@
+import {
+  generateObject,
+  streamText,
+  type LanguageModel,
+  type LanguageModelUsage,
+  type UIMessageStreamWriter,
+} from "ai";
+import { z } from "zod";
+
+import { SOURCE_KEY_HEADING } from "@/lib/citations";
+import { tracer, type Span } from "@/lib/tracing";
+
+export type ResearchStepStatus = "pending" | "active" | "complete" | "error";
+
+export type ResearchStep = {
+  id: string;
+  question: string;
+  query: string;
+  status: ResearchStepStatus;
+  /** Pages found or read for this sub-question */
+  results: { url: string; title?: string }[];
+  /** Tool calls made for this step, so the UI can fold them into the timeline */
+  toolCallIds: string[];
+  error?: string;
+};
+
+/**
+ * Progress of a research run, streamed as a `data-research` part that is
+ * updated in place.
+ */
+export type ResearchProgress = {
+  status: "planning" | "researching" | "writing" | "done" | "error";
+  question: string;
+  steps: ResearchStep[];
+  error?: string;
+};
+
+export type ResearchConfig = {
+  maxSubQuestions: number;
+  concurrency: number;
+  pagesPerQuestion: number;
+  reportMaxTokens: number;
+};
+
+/**
+ * Reads research limits from environment configuration:
+ * - RESEARCH_MAX_SUBQUESTIONS: sub-questions the planner may create (default 5)
+ * - RESEARCH_CONCURRENCY: sub-questions researched at once (default 3)
+ * - RESEARCH_PAGES_PER_QUESTION: search results scraped per sub-question (default 2)
+ * - RESEARCH_REPORT_MAX_TOKENS: output budget for the final report (default 6000)
+ */
+export function createResearchConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): ResearchConfig {
+  return {
+    maxSubQuestions: positiveInt(env.RESEARCH_MAX_SUBQUESTIONS, 5),
+    concurrency: positiveInt(env.RESEARCH_CONCURRENCY, 3),
+    pagesPerQuestion: positiveInt(env.RESEARCH_PAGES_PER_QUESTION, 2),
+    reportMaxTokens: positiveInt(env.RESEARCH_REPORT_MAX_TOKENS, 6000),
+  };
+}
+
+/**
+ * Runs a tool on behalf of the research run and returns its output. The
+ * caller is responsible for streaming the tool call to the client.
+ */
+export type ResearchToolRunner = (
+  toolName: "searchWeb" | "scrapeWebsite",
+  input: Record<string, unknown>,
+) => Promise<{ toolCallId: string; output: ResearchToolOutput }>;
+
+type ResearchToolOutput = {
+  content?: string;
+  error?: string;
+  note?: string;
+  /** Set when the URL policy blocked the call */
+  policy?: { reason: string };
+  /** Set when the usage budget refused the call */
+  budget?: { reason: string };
+  results?: { url?: string; title?: string }[];
+  title?: string;
+  finalUrl?: string;
+  url?: string;
+};
+
+/**
+ * Longest excerpt of a single tool result passed to the report writer
+ */
+const FINDING_CHAR_LIMIT = 4000;
+
+const planSchema = z.object({
+  subQuestions: z
+    .array(
+      z.object({
+        question: z.string().describe("A focused sub-question"),
+        query: z.string().describe("A web search query that answers it"),
+      }),
+    )
+    .min(1),
+});
+
+/**
+ * Deep research: plans sub-questions, researches them in parallel with
+ * bounded concurrency, then streams a long structured report that cites the
+ * pages it read.
+ */
+export async function runResearch({
+  question,
+  model,
+  writer,
+  runTool,
+  config,
+  isAllowedUrl = () => true,
+  onUsage,
+  parentSpan,
+}: {
+  question: string;
+  model: LanguageModel;
+  writer: UIMessageStreamWriter;
+  runTool: ResearchToolRunner;
+  config: ResearchConfig;
+  /** URLs the research run may scrape without asking the user */
+  isAllowedUrl?: (url: string) => boolean;
+  /** Receives the token usage of the planning call */
+  onUsage?: (usage: LanguageModelUsage) => void;
+  /** Span the planner and report model calls are traced under */
+  parentSpan?: Span;
+}) {
+  const modelAttributes = {
+    "gen_ai.operation.name": "chat",
+    "gen_ai.request.model": typeof model === "string" ? model : model.modelId,
+  };
+  const progress: ResearchProgress = { status: "planning", question, steps: [] };
+  const publish = () =>
+    writer.write({
+      type: "data-research",
+      id: "research",
+      data: structuredClone(progress),
+    });
+  publish();
+
+  try {
+    const { object: plan, usage } = await tracer.withSpan(
+      "ai.generateObject",
+      {
+        parent: parentSpan,
+        kind: "client",
+        attributes: { ...modelAttributes, "app.research.phase": "plan" },
+      },
+      async (span) => {
+        const planned = await generateObject({
+          model,
+          schema: planSchema,
+          system: [
+            "You plan web research.",
+            `Break the user's question into at most ${config.maxSubQuestions} focused, non-overlapping sub-questions that together answer it.`,
+            "Give each sub-question a concise web search query.",
+          ].join("\n"),
+          prompt: question,
+        });
+        span.setAttributes({
+          "gen_ai.usage.input_tokens": planned.usage.inputTokens,
+          "gen_ai.usage.output_tokens": planned.usage.outputTokens,
+          "ai.research.sub_questions": planned.object.subQuestions.length,
+        });
+        return planned;
+      },
+    );
+    onUsage?.(usage);
+
+    progress.steps = plan.subQuestions
+      .slice(0, config.maxSubQuestions)
+      .map((item, index) => ({
+        id: `step-${index + 1}`,
+        question: item.question,
+        query: item.query,
+        status: "pending",
+        results: [],
+        toolCallIds: [],
+      }));
+    progress.status = "researching";
+    publish();
+  } catch (error) {
+    progress.status = "error";
+    progress.error =
+      error instanceof Error ? error.message : "Planning the research failed.";
+    publish();
+    throw error;
+  }
+
+  const findings = await mapWithConcurrency(
+    progress.steps,
+    config.concurrency,
+    async (step) => {
+      step.status = "active";
+      publish();
+      try {
+        const notes = await researchStep(step, runTool, config, isAllowedUrl, publish);
+        step.status = "complete";
+        publish();
+        return notes;
+      } catch (error) {
+        step.status = "error";
+        step.error = error instanceof Error ? error.message : "Research step failed.";
+        publish();
+        return `No findings: ${step.error}`;
+      }
+    },
+  );
+
+  progress.status = "writing";
+  publish();
+
+  const reportSpan = tracer.startSpan("ai.streamText", {
+    parent: parentSpan,
+    kind: "client",
+    attributes: { ...modelAttributes, "app.research.phase": "report" },
+  });
+  const result = streamText({
+    model,
+    system: [
+      "You are a research analyst writing a thorough, well-structured report in Markdown.",
+      "Start with an executive summary, then one ## section per sub-question, then a ## Conclusion with open questions.",
+      "Use tables where they help compare things.",
+      "Back every fact with an inline citation like [1] or [2, 3], using only the numbers from the Sources lists in the findings.",
+      "If the findings don't cover something, say so instead of guessing. Don't add your own sources list.",
+    ].join("\n"),
+    prompt: [
+      `# Research question\n${question}`,
+      ...progress.steps.map(
+        (step, index) =>
+          `# Sub-question ${index + 1}: ${step.question}\n\n${findings[index]}`,
+      ),
+    ].join("\n\n"),
+    maxOutputTokens: config.reportMaxTokens,
+    onFinish: ({ totalUsage, finishReason }) => {
+      reportSpan
+        .setAttributes({
+          "gen_ai.usage.input_tokens": totalUsage.inputTokens,
+          "gen_ai.usage.output_tokens": totalUsage.outputTokens,
+          "gen_ai.response.finish_reasons": finishReason,
+        })
+        .end();
+      progress.status = "done";
+      publish();
+    },
+    onError: ({ error }) => {
+      reportSpan.recordError(error).end();
+      progress.status = "error";
+      progress.error =
+        error instanceof Error ? error.message : "Writing the report failed.";
+      publish();
+    },
+    onAbort: () => {
+      reportSpan.setAttributes({ "ai.aborted": true }).end();
+    },
+  });
+
+  return result;
+}
+
+async function researchStep(
+  step: ResearchStep,
+  runTool: ResearchToolRunner,
+  config: ResearchConfig,
+  isAllowedUrl: (url: string) => boolean,
+  publish: () => void,
+) {
+  const search = await runTool("searchWeb", { query: step.query, limit: 5 });
+  step.toolCallIds.push(search.toolCallId);
+  const refusal = search.output.error ?? search.output.note ?? search.output.budget?.reason;
+  if (refusal) throw new Error(refusal);
+
+  const hits = (search.output.results ?? []).filter(
+    (result): result is { url: string; title?: string } => Boolean(result.url),
+  );
+  step.results = hits.map(({ url, title }) => ({ url, title }));
+  publish();
+
+  const notes = [clip(search.output.content ?? "")];
+  const pages = hits
+    .filter((hit) => isAllowedUrl(hit.url))
+    .slice(0, config.pagesPerQuestion);
+
+  const scrapes = await Promise.all(
+    pages.map((page) => runTool("scrapeWebsite", { url: page.url })),
+  );
+  for (const scrape of scrapes) {
+    step.toolCallIds.push(scrape.toolCallId);
+    const { error, policy, budget } = scrape.output;
+    if (!error && !policy && !budget) notes.push(clip(scrape.output.content ?? ""));
+  }
+  publish();
+
+  return notes.filter(Boolean).join("\n\n---\n\n");
+}
+
+/**
+ * Maps over items running at most `limit` callbacks at a time, preserving order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const workers = Array.from(
+    { length: Math.min(Math.max(limit, 1), items.length) },
+    async () => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await fn(items[index], index);
+      }
+    },
+  );
+
+  await Promise.all(workers);
+  return results;
+}
+
+function clip(text: string) {
+  // Keep the trailing Sources key so the report writer knows the citation numbers
+  const sourcesAt = text.lastIndexOf(`\n${SOURCE_KEY_HEADING}`);
+  const body = sourcesAt >= 0 ? text.slice(0, sourcesAt) : text;
+  const key = sourcesAt >= 0 ? text.slice(sourcesAt) : "";
+  const clipped =
+    body.length > FINDING_CHAR_LIMIT
+      ? `${body.slice(0, FINDING_CHAR_LIMIT)}\n\n…(truncated)`
+      : body;
+  return `${clipped}${key}`;
+}
+
+function positiveInt(value: string | undefined, fallback: number) {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
@@ -0,0 +1,69 @@
+import { beforeAll, describe, expect, it } from "vitest";
+
+import {
+  createSessionToken,
+  readCookie,
+  verifySessionToken,
+} from "@/lib/session";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+beforeAll(() => {
+  process.env.AUTH_SECRET = "test-secret";
+});
+
+describe("session tokens", () => {
+  it("verifies a fresh token", () => {
+    const now = Date.now();
+    expect(verifySessionToken(createSessionToken("user-1", now), now)).toBe("user-1");
+  });
+
+  it("rejects expired tokens", () => {
+    const issued = Date.now();
+    const token = createSessionToken("user-1", issued);
+    expect(verifySessionToken(token, issued + 29 * DAY_MS)).toBe("user-1");
+    expect(verifySessionToken(token, issued + 30 * DAY_MS)).toBeNull();
+  });
+
+  it("rejects a payload signed for someone else", () => {
+    const [, signature] = createSessionToken("user-1").split(".");
+    const [body] = createSessionToken("admin").split(".");
+    expect(verifySessionToken(`${body}.${signature}`)).toBeNull();
+  });
+
+  it("rejects a forged payload with no valid signature", () => {
+    const body = Buffer.from(
+      JSON.stringify({ sub: "admin", exp: Math.floor(Date.now() / 1000) + 3600 }),
+    ).toString("base64url");
+    expect(verifySessionToken(`${body}.`)).toBeNull();
+    expect(verifySessionToken(`${body}.${"A".repeat(43)}`)).toBeNull();
+  });
+
+  it("rejects tokens signed with another secret", () => {
+    const token = createSessionToken("user-1");
+    process.env.AUTH_SECRET = "another-secret";
+    try {
+      expect(verifySessionToken(token)).toBeNull();
+    } finally {
+      process.env.AUTH_SECRET = "test-secret";
+    }
+  });
+
+  it.each([undefined, "", "garbage", "a.b.c", "."])("rejects %j", (token) => {
+    expect(verifySessionToken(token)).toBeNull();
+  });
+});
+
+describe("readCookie", () => {
+  const request = (cookie: string) =>
+    new Request("http://localhost/", { headers: { cookie } });
+
+  it("reads and decodes the named cookie", () => {
+    expect(readCookie(request("theme=dark; session=a%2Eb"), "session")).toBe("a.b");
+  });
+
+  it("returns undefined for a missing or malformed cookie", () => {
+    expect(readCookie(request("theme=dark"), "session")).toBeUndefined();
+    expect(readCookie(request("session=%E0"), "session")).toBeUndefined();
+  });
+});
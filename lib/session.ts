@@ -0,0 +1,114 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+
+import { logger } from "@/lib/logger";
+
+/** Name of the cookie holding the signed session token */
+export const SESSION_COOKIE = "session";
+
+const SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+type SessionPayload = {
+  /** User id */
+  sub: string;
+  /** Expiry, in seconds since the epoch */
+  exp: number;
+};
+
+/**
+ * Signs a session token for a user: a base64url JSON payload and its
+ * HMAC-SHA256 signature, joined by a dot.
+ */
+export function createSessionToken(userId: string, now = Date.now()) {
+  const payload: SessionPayload = {
+    sub: userId,
+    exp: Math.floor(now / 1000) + SESSION_TTL_SECONDS,
+  };
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${body}.${sign(body)}`;
+}
+
+/**
+ * Returns the user id of a valid, unexpired session token, or null.
+ */
+export function verifySessionToken(
+  token: string | undefined,
+  now = Date.now(),
+): string | null {
+  if (!token) return null;
+  const [body, signature] = token.split(".");
+  if (!body || !signature) return null;
+
+  const expected = Buffer.from(sign(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(
+      Buffer.from(body, "base64url").toString("utf8"),
+    ) as SessionPayload;
+    if (typeof payload.sub !== "string" || payload.exp * 1000 <= now) return null;
+    return payload.sub;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Cookie attributes for a session token. Pass an empty token to clear it.
+ */
+export function sessionCookie(token: string) {
+  return {
+    name: SESSION_COOKIE,
+    value: token,
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: token ? SESSION_TTL_SECONDS : 0,
+  };
+}
+
+/**
+ * Reads a cookie from a request's Cookie header.
+ */
+export function readCookie(req: Request, name: string) {
+  const header = req.headers.get("cookie") ?? "";
+  for (const pair of header.split(";")) {
+    const separator = pair.indexOf("=");
+    if (separator < 0) continue;
+    if (pair.slice(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(pair.slice(separator + 1).trim());
+      } catch {
+        // A malformed value (e.g. `%E0`) is treated as no cookie
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+function sign(body: string) {
+  return createHmac("sha256", sessionSecret()).update(body).digest("base64url");
+}
+
+let warnedAboutSecret = false;
+
+/**
+ * AUTH_SECRET signs session tokens. Development falls back to a secret derived
+ * from the project path so sessions survive restarts; production requires it.
+ */
+function sessionSecret() {
+  const secret = process.env.AUTH_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("AUTH_SECRET must be set to sign session cookies.");
+  }
+  if (!warnedAboutSecret) {
+    warnedAboutSecret = true;
+    logger.warn("AUTH_SECRET is not set; using an insecure development secret.");
+  }
+  return createHash("sha256").update(`firecrawl-ai-sdk-dev:${process.cwd()}`).digest("hex");
+}
@@ -0,0 +1,106 @@
+/**
+ * How long a finished stream's chunks are kept so clients that were mid-resume
+ * can still drain them.
+ */
+const FINISHED_STREAM_RETENTION_MS = 60_000;
+
+type BufferedStream = {
+  id: string;
+  chatId: string;
+  chunks: string[];
+  done: boolean;
+  waiters: Set<() => void>;
+};
+
+/**
+ * Buffers the SSE chunks of in-flight chat responses under a stream id so a
+ * client that reloads or loses its connection can replay and follow them.
+ *
+ * Buffers live in process memory, so resuming only works on the server
+ * instance that is running the generation.
+ */
+export class ResumableStreamStore {
+  private streams = new Map<string, BufferedStream>();
+  private activeByChat = new Map<string, string>();
+
+  /**
+   * Reads `stream` to completion, buffering every chunk. Resolves when the
+   * stream ends. The stream becomes the chat's active stream until then.
+   */
+  async record(chatId: string, streamId: string, stream: ReadableStream<string>) {
+    const entry: BufferedStream = {
+      id: streamId,
+      chatId,
+      chunks: [],
+      done: false,
+      waiters: new Set(),
+    };
+    this.streams.set(streamId, entry);
+    this.activeByChat.set(chatId, streamId);
+
+    const reader = stream.getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        entry.chunks.push(value);
+        notify(entry);
+      }
+    } finally {
+      entry.done = true;
+      notify(entry);
+      if (this.activeByChat.get(chatId) === streamId) {
+        this.activeByChat.delete(chatId);
+      }
+      setTimeout(
+        () => this.streams.delete(streamId),
+        FINISHED_STREAM_RETENTION_MS,
+      );
+    }
+  }
+
+  /**
+   * Returns the id of the chat's in-flight stream, if any.
+   */
+  activeStreamId(chatId: string) {
+    return this.activeByChat.get(chatId) ?? null;
+  }
+
+  /**
+   * Replays the buffered chunks of a stream from the start and then follows
+   * it live until it finishes. Returns null for unknown streams.
+   */
+  replay(streamId: string): ReadableStream<string> | null {
+    const entry = this.streams.get(streamId);
+    if (!entry) return null;
+
+    let index = 0;
+    return new ReadableStream<string>({
+      async pull(controller) {
+        while (index >= entry.chunks.length && !entry.done) {
+          await new Promise<void>((resolve) => entry.waiters.add(resolve));
+        }
+        if (index < entry.chunks.length) {
+          controller.enqueue(entry.chunks[index++]);
+        } else {
+          controller.close();
+        }
+      },
+    });
+  }
+}
+
+function notify(entry: BufferedStream) {
+  const waiters = Array.from(entry.waiters);
+  entry.waiters.clear();
+  waiters.forEach((resolve) => resolve());
+}
+
+// Route handlers can be bundled separately, so share one store per process
+const globalForStreams = globalThis as {
+  resumableStreamStore?: ResumableStreamStore;
+};
+
+export const resumableStreams =
+  globalForStreams.resumableStreamStore ??
+  (globalForStreams.resumableStreamStore = new ResumableStreamStore());
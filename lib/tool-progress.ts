@@ -0,0 +1,70 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { ToolSet, UIMessageStreamWriter } from "ai";
+
+import { wrapTools } from "@/lib/tools";
+
+/**
+ * What a running tool call is doing, streamed as a `data-tool-progress` part
+ * that is updated in place until the call's output replaces it.
+ */
+export type ToolProgress = {
+  toolCallId: string;
+  toolName: string;
+  /** Short status such as "fetching", "rendering JS" or "extracting" */
+  status: string;
+  /** Position within a known amount of work, e.g. page 4 of 20 */
+  current?: number;
+  total?: number;
+  startedAt: string;
+  updatedAt: string;
+};
+
+type ProgressReporter = (
+  status: string,
+  step?: { current: number; total?: number },
+) => void;
+
+const reporters = new AsyncLocalStorage<ProgressReporter>();
+
+/**
+ * Reports the status of the tool call running in the current async context.
+ * Does nothing outside a {@link withToolProgress} wrapper, e.g. when a tool
+ * runs from a research plan or an approval replay without a stream.
+ */
+export function reportProgress(
+  status: string,
+  step?: { current: number; total?: number },
+) {
+  reporters.getStore()?.(status, step);
+}
+
+/**
+ * Wraps every tool so it can stream progress with {@link reportProgress}.
+ * Each call starts with a "starting" status, so the card shows elapsed time
+ * even for tools that never report anything else.
+ */
+export function withToolProgress(
+  tools: ToolSet,
+  writer: UIMessageStreamWriter,
+): ToolSet {
+  return wrapTools(tools, (name, execute) => async (input, options) => {
+    const startedAt = new Date().toISOString();
+    const report: ProgressReporter = (status, step) =>
+      writer.write({
+        type: "data-tool-progress",
+        id: `progress-${options.toolCallId}`,
+        data: {
+          toolCallId: options.toolCallId,
+          toolName: name,
+          status,
+          current: step?.current,
+          total: step?.total,
+          startedAt,
+          updatedAt: new Date().toISOString(),
+        } satisfies ToolProgress,
+      });
+
+    report("starting");
+    return reporters.run(report, () => execute(input, options));
+  });
+}
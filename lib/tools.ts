@@ -0,0 +1,31 @@
+import type { Tool, ToolCallOptions, ToolSet } from "ai";
+
+export type ToolExecute = (
+  input: unknown,
+  options: ToolCallOptions,
+) => Promise<unknown>;
+
+/**
+ * Replaces each tool's `execute` with what `wrap` returns for it, keeping the
+ * rest of the definition. Tools without an `execute` (answered by the client)
+ * are passed through unchanged; return `execute` itself to leave a tool as it
+ * is.
+ */
+export function wrapTools(
+  tools: ToolSet,
+  wrap: (name: string, execute: ToolExecute) => ToolExecute,
+): ToolSet {
+  return Object.fromEntries(
+    Object.entries(tools).map(([name, definition]) => {
+      const execute = (definition as Tool).execute;
+      if (!execute) return [name, definition];
+      return [
+        name,
+        {
+          ...definition,
+          execute: wrap(name, async (input, options) => execute(input, options)),
+        },
+      ];
+    }),
+  );
+}
@@ -0,0 +1,334 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { appendFile, mkdir, rename, stat } from "node:fs/promises";
+import path from "node:path";
+import { createInterface } from "node:readline";
+
+export type SpanKind = "server" | "client" | "internal";
+
+export type AttributeValue = string | number | boolean;
+
+export type SpanAttributes = Record<string, AttributeValue | undefined>;
+
+/**
+ * A finished span, shaped after the OpenTelemetry span data model: hex trace
+ * and span ids, Unix nanosecond timestamps (as strings), attributes using
+ * semantic convention names where one exists, and an OK/ERROR status.
+ */
+export type SpanRecord = {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  durationMs: number;
+  attributes: Record<string, AttributeValue>;
+  status: { code: "OK" | "ERROR"; message?: string };
+};
+
+/**
+ * Destination for finished spans. Exporters that persist spans can also read
+ * a trace back for the debug view.
+ */
+export interface SpanExporter {
+  export(span: SpanRecord): void;
+  read?(traceId: string): Promise<SpanRecord[]>;
+}
+
+/** Spans returned for one trace read back from disk */
+const MAX_TRACE_SPANS = 1000;
+
+/**
+ * Appends one JSON line per span to a local file. Once the file grows past
+ * `maxBytes` it is rotated to `<file>.1` (replacing the previous one), so
+ * at most about twice that is kept on disk.
+ */
+export class JsonlSpanExporter implements SpanExporter {
+  private queue: Promise<unknown> = Promise.resolve();
+  private size?: number;
+
+  constructor(
+    private file: string,
+    private maxBytes: number,
+  ) {}
+
+  export(span: SpanRecord) {
+    const line = `${JSON.stringify(span)}\n`;
+    // Serialize writes so lines from concurrent spans never interleave
+    this.queue = this.queue
+      .then(async () => {
+        await mkdir(path.dirname(this.file), { recursive: true });
+        this.size ??= await stat(this.file).then(
+          (stats) => stats.size,
+          () => 0,
+        );
+        const bytes = Buffer.byteLength(line);
+        if (this.size > 0 && this.size + bytes > this.maxBytes) {
+          await rename(this.file, `${this.file}.1`);
+          this.size = 0;
+        }
+        await appendFile(this.file, line, "utf8");
+        this.size += bytes;
+      })
+      .catch(() => undefined);
+  }
+
+  /**
+   * Streams the rotated and current files line by line, keeping only the
+   * trace's spans, so memory stays bounded however large the files are.
+   */
+  async read(traceId: string) {
+    await this.queue;
+    const spans: SpanRecord[] = [];
+    for (const file of [`${this.file}.1`, this.file]) {
+      try {
+        const lines = createInterface({
+          input: createReadStream(file, { encoding: "utf8" }),
+          crlfDelay: Infinity,
+        });
+        for await (const line of lines) {
+          if (!line.includes(traceId)) continue;
+          try {
+            const span = JSON.parse(line) as SpanRecord;
+            if (span.traceId === traceId) spans.push(span);
+          } catch {
+            // Skip a line cut short by a crash
+          }
+          if (spans.length >= MAX_TRACE_SPANS) {
+            lines.close();
+            return spans;
+          }
+        }
+      } catch {
+        // A missing file has no spans
+      }
+    }
+    return spans;
+  }
+}
+
+/**
+ * Writes each span as a JSON line to stdout, for log collectors.
+ */
+export class ConsoleSpanExporter implements SpanExporter {
+  export(span: SpanRecord) {
+    console.log(JSON.stringify({ type: "span", ...span }));
+  }
+}
+
+/**
+ * A span in progress. Call `end()` exactly once; later calls are ignored.
+ */
+export class Span {
+  readonly spanId = randomHex(8);
+  private readonly startTime = Date.now();
+  private attributes: Record<string, AttributeValue> = {};
+  private status: SpanRecord["status"] = { code: "OK" };
+  private ended = false;
+
+  constructor(
+    private tracer: Tracer,
+    readonly name: string,
+    readonly traceId: string,
+    readonly parentSpanId: string | undefined,
+    readonly kind: SpanKind,
+    /** Attributes copied onto every descendant span, e.g. the request id */
+    readonly baggage: SpanAttributes,
+  ) {
+    this.setAttributes(baggage);
+  }
+
+  setAttributes(attributes: SpanAttributes) {
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value !== undefined) this.attributes[key] = value;
+    }
+    return this;
+  }
+
+  /**
+   * Marks the span as failed, recording the error's class as `error.type`.
+   */
+  recordError(error: unknown) {
+    return this.setError(
+      errorType(error),
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+
+  /**
+   * Marks the span as failed without an exception, e.g. for an error result.
+   */
+  setError(type: string, message?: string) {
+    this.status = { code: "ERROR", message };
+    this.setAttributes({ "error.type": type });
+    return this;
+  }
+
+  end() {
+    if (this.ended) return;
+    this.ended = true;
+    const endTime = Date.now();
+    this.tracer.record({
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      name: this.name,
+      kind: this.kind,
+      startTimeUnixNano: `${this.startTime}000000`,
+      endTimeUnixNano: `${endTime}000000`,
+      durationMs: endTime - this.startTime,
+      attributes: this.attributes,
+      status: this.status,
+    });
+  }
+}
+
+type StartSpanOptions = {
+  attributes?: SpanAttributes;
+  kind?: SpanKind;
+  /** Attributes to copy onto this span and all of its descendants */
+  baggage?: SpanAttributes;
+  /** Defaults to the active span; pass null to start a new trace */
+  parent?: Span | null;
+};
+
+const MAX_RECENT_TRACES = 200;
+
+/**
+ * Creates spans and hands finished ones to the exporter. The active span is
+ * tracked per async call chain, so spans started inside {@link withSpan}
+ * become its children without passing it around. The most recent traces are
+ * also kept in memory for the debug view.
+ */
+export class Tracer {
+  private context = new AsyncLocalStorage<Span>();
+  private recent = new Map<string, SpanRecord[]>();
+
+  constructor(private exporter: SpanExporter | null) {}
+
+  activeSpan() {
+    return this.context.getStore();
+  }
+
+  startSpan(name: string, options: StartSpanOptions = {}) {
+    const parent =
+      options.parent === undefined ? this.activeSpan() : options.parent;
+    return new Span(
+      this,
+      name,
+      parent?.traceId ?? randomHex(16),
+      parent?.spanId,
+      options.kind ?? "internal",
+      { ...parent?.baggage, ...options.baggage },
+    ).setAttributes(options.attributes ?? {});
+  }
+
+  /**
+   * Runs `fn` inside a new active span that ends when it settles. A thrown
+   * error is recorded on the span and rethrown.
+   */
+  async withSpan<T>(
+    name: string,
+    options: StartSpanOptions,
+    fn: (span: Span) => Promise<T>,
+  ): Promise<T> {
+    const span = this.startSpan(name, options);
+    try {
+      return await this.context.run(span, () => fn(span));
+    } catch (error) {
+      span.recordError(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  record(span: SpanRecord) {
+    const spans = this.recent.get(span.traceId) ?? [];
+    spans.push(span);
+    this.recent.delete(span.traceId);
+    this.recent.set(span.traceId, spans);
+    while (this.recent.size > MAX_RECENT_TRACES) {
+      const oldest = this.recent.keys().next().value;
+      if (oldest === undefined) break;
+      this.recent.delete(oldest);
+    }
+    this.exporter?.export(span);
+  }
+
+  /**
+   * The finished spans of a trace, oldest first.
+   */
+  async getTrace(traceId: string) {
+    const spans =
+      this.recent.get(traceId) ?? (await this.exporter?.read?.(traceId)) ?? [];
+    return [...spans].sort(
+      (a, b) => Number(a.startTimeUnixNano) - Number(b.startTimeUnixNano),
+    );
+  }
+}
+
+/**
+ * Creates the tracer from environment configuration:
+ * - TRACE_EXPORTER: `jsonl` (default), `console`, or `off`
+ * - TRACE_FILE: JSON lines file for the `jsonl` exporter (default `.data/traces/spans.jsonl`)
+ * - TRACE_FILE_MAX_MB: size at which the file is rotated to `<file>.1` (default 50)
+ *
+ * With `off`, recent traces are still kept in memory for the debug view.
+ */
+export function createTracer(env: NodeJS.ProcessEnv = process.env) {
+  switch (env.TRACE_EXPORTER) {
+    case "off":
+      return new Tracer(null);
+    case "console":
+      return new Tracer(new ConsoleSpanExporter());
+    default:
+      return new Tracer(
+        new JsonlSpanExporter(
+          env.TRACE_FILE ?? ".data/traces/spans.jsonl",
+          positiveNumber(env.TRACE_FILE_MAX_MB, 50) * 1024 * 1024,
+        ),
+      );
+  }
+}
+
+// Route handlers can be bundled separately, so share one tracer per process
+const globalForTracing = globalThis as { tracer?: Tracer };
+
+export const tracer =
+  globalForTracing.tracer ?? (globalForTracing.tracer = createTracer());
+
+/**
+ * The class of an error, e.g. "TypeError" or "FirecrawlError", for `error.type`.
+ */
+export function errorType(error: unknown) {
+  if (error instanceof Error) {
+    return error.constructor?.name && error.constructor.name !== "Error"
+      ? error.constructor.name
+      : error.name;
+  }
+  return typeof error;
+}
+
+/**
+ * Approximate size of a value in bytes once serialized as JSON.
+ */
+export function jsonByteLength(value: unknown) {
+  try {
+    return Buffer.byteLength(JSON.stringify(value) ?? "", "utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+function randomHex(bytes: number) {
+  return randomBytes(bytes).toString("hex");
+}
+
+function positiveNumber(value: string | undefined, fallback: number) {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
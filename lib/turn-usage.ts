@@ -0,0 +1,194 @@
+import type { LanguageModelUsage, UIMessage } from "ai";
+
+/** Dollars per million tokens */
+export type ModelPrice = {
+  input: number;
+  output: number;
+  /** Price of cached input tokens, when the provider discounts them */
+  cachedInput?: number;
+};
+
+/**
+ * List prices for common allowlisted models, keyed by "provider:model".
+ * Azure deployments and local models have no default price.
+ */
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "openai:gpt-5": { input: 1.25, output: 10, cachedInput: 0.125 },
+  "openai:gpt-5-mini": { input: 0.25, output: 2, cachedInput: 0.025 },
+  "openai:gpt-5-nano": { input: 0.05, output: 0.4, cachedInput: 0.005 },
+  "openai:gpt-4.1": { input: 2, output: 8, cachedInput: 0.5 },
+  "openai:gpt-4.1-mini": { input: 0.4, output: 1.6, cachedInput: 0.1 },
+  "openai:gpt-4o": { input: 2.5, output: 10, cachedInput: 1.25 },
+  "openai:gpt-4o-mini": { input: 0.15, output: 0.6, cachedInput: 0.075 },
+  "anthropic:claude-opus-4-1": { input: 15, output: 75, cachedInput: 1.5 },
+  "anthropic:claude-sonnet-4-5": { input: 3, output: 15, cachedInput: 0.3 },
+  "anthropic:claude-haiku-4-5": { input: 1, output: 5, cachedInput: 0.1 },
+};
+
+/**
+ * Reads the model price table. MODEL_PRICES can add or override entries as
+ * JSON, e.g. `{"azure:my-deployment": {"input": 2.5, "output": 10}}`.
+ */
+export function createPriceTable(
+  env: NodeJS.ProcessEnv = process.env,
+): Record<string, ModelPrice> {
+  if (!env.MODEL_PRICES) return DEFAULT_PRICES;
+  try {
+    const overrides = JSON.parse(env.MODEL_PRICES) as Record<string, ModelPrice>;
+    return { ...DEFAULT_PRICES, ...overrides };
+  } catch {
+    console.warn("MODEL_PRICES is not valid JSON; using the default prices.");
+    return DEFAULT_PRICES;
+  }
+}
+
+/**
+ * Token, cost and Firecrawl credit usage of one assistant turn, sent as the
+ * message's `usage` metadata.
+ */
+export type TurnUsage = {
+  /** Allowlisted model id, e.g. "openai:gpt-5-mini" */
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Part of outputTokens spent on reasoning */
+  reasoningTokens: number;
+  /** Part of inputTokens read from the provider's prompt cache */
+  cachedInputTokens: number;
+  /** Estimated dollar cost; missing when the model has no price */
+  costUsd?: number;
+  firecrawlCredits: number;
+};
+
+/**
+ * Metadata the chat route attaches to assistant messages.
+ */
+export type ChatMessageMetadata = {
+  usage?: TurnUsage;
+  /** Traces of the requests that produced the message, oldest first */
+  traceIds?: string[];
+};
+
+/**
+ * Adds up the model calls and tool credits of one turn. A turn that resumes
+ * after a tool approval starts from the usage already on its message.
+ */
+export class TurnUsageMeter {
+  private usage: TurnUsage;
+
+  constructor(
+    model: string,
+    private readonly prices: Record<string, ModelPrice>,
+    previous?: TurnUsage,
+  ) {
+    this.usage = {
+      inputTokens: 0,
+      outputTokens: 0,
+      reasoningTokens: 0,
+      cachedInputTokens: 0,
+      firecrawlCredits: 0,
+      ...previous,
+      model,
+    };
+  }
+
+  addTokens(usage: LanguageModelUsage) {
+    const input = usage.inputTokens ?? 0;
+    const output = usage.outputTokens ?? 0;
+    const cached = usage.cachedInputTokens ?? 0;
+    this.usage.inputTokens += input;
+    this.usage.outputTokens += output;
+    this.usage.reasoningTokens += usage.reasoningTokens ?? 0;
+    this.usage.cachedInputTokens += cached;
+
+    const price = this.prices[this.usage.model];
+    if (price) {
+      const cost =
+        (Math.max(input - cached, 0) * price.input +
+          cached * (price.cachedInput ?? price.input) +
+          output * price.output) /
+        1_000_000;
+      this.usage.costUsd = (this.usage.costUsd ?? 0) + cost;
+    }
+  }
+
+  addCredits(credits: number) {
+    this.usage.firecrawlCredits += credits;
+  }
+
+  current(): TurnUsage {
+    return { ...this.usage };
+  }
+}
+
+/**
+ * The usage metadata of an assistant message, if it has any.
+ */
+export function getTurnUsage(message: UIMessage | undefined): TurnUsage | undefined {
+  const usage = (message?.metadata as ChatMessageMetadata | undefined)?.usage;
+  return usage && typeof usage.inputTokens === "number" ? usage : undefined;
+}
+
+/**
+ * The ids of the traces recorded for an assistant message.
+ */
+export function getTraceIds(message: UIMessage | undefined): string[] {
+  const traceIds = (message?.metadata as ChatMessageMetadata | undefined)?.traceIds;
+  return Array.isArray(traceIds) ? traceIds : [];
+}
+
+export type ConversationUsage = {
+  turns: number;
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  costUsd: number;
+  /** Turns whose model had no price, so costUsd leaves them out */
+  unpricedTurns: number;
+  firecrawlCredits: number;
+};
+
+/**
+ * Totals the usage of every assistant turn in a conversation.
+ */
+export function conversationUsage(messages: UIMessage[]): ConversationUsage {
+  const totals: ConversationUsage = {
+    turns: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    reasoningTokens: 0,
+    costUsd: 0,
+    unpricedTurns: 0,
+    firecrawlCredits: 0,
+  };
+  for (const message of messages) {
+    const usage = getTurnUsage(message);
+    if (!usage) continue;
+    totals.turns += 1;
+    totals.inputTokens += usage.inputTokens;
+    totals.outputTokens += usage.outputTokens;
+    totals.reasoningTokens += usage.reasoningTokens;
+    totals.firecrawlCredits += usage.firecrawlCredits;
+    if (usage.costUsd === undefined) totals.unpricedTurns += 1;
+    else totals.costUsd += usage.costUsd;
+  }
+  return totals;
+}
+
+/**
+ * Formats a dollar amount, keeping sub-cent costs readable.
+ */
+export function formatCost(usd: number) {
+  if (usd === 0) return "$0";
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+}
+
+/**
+ * Formats a token count compactly, e.g. 950, 12.3k, 1.2M.
+ */
+export function formatTokens(tokens: number) {
+  if (tokens < 1000) return String(tokens);
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(1).replace(/\.0$/, "")}k`;
+  return `${(tokens / 1_000_000).toFixed(1).replace(/\.0$/, "")}M`;
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+
+import { createUrlPolicy } from "@/lib/url-policy";
+
+function policyWith(env: Record<string, string> = {}) {
+  return createUrlPolicy({ NODE_ENV: "test", ...env });
+}
+
+// IP literals and reserved names are decided without a DNS lookup
+const policy = policyWith();
+
+async function ruleFor(url: string) {
+  return (await policy.check(url))?.rule ?? null;
+}
+
+describe("UrlPolicy private hosts", () => {
+  it.each([
+    "http://127.0.0.1/",
+    "http://10.1.2.3/",
+    "http://172.16.0.1/",
+    "http://172.31.255.255/",
+    "http://192.168.1.1/",
+    "http://169.254.169.254/latest/meta-data/",
+    "http://100.64.0.1/",
+    "http://0.0.0.0/",
+    "http://224.0.0.1/",
+    "http://[::1]/",
+    "http://[::]/",
+    "http://[fc00::1]/",
+    "http://[fd12:3456::1]/",
+    "http://[fe80::1]/",
+    "http://[ff02::1]/",
+    "http://localhost:3000/",
+    "http://api.localhost/",
+    "http://printer.local/",
+    "http://metadata.google.internal/",
+  ])("blocks %s", async (url) => {
+    expect(await ruleFor(url)).toBe("private-host");
+  });
+
+  it.each([
+    // The URL parser rewrites these as ::ffff:7f00:1 and ::ffff:a9fe:a9fe
+    "http://[::ffff:127.0.0.1]/",
+    "http://[::ffff:169.254.169.254]/",
+    "http://[::ffff:7f00:1]/",
+    "http://[::ffff:c0a8:101]/",
+  ])("blocks the IPv4-mapped IPv6 address %s", async (url) => {
+    expect(await ruleFor(url)).toBe("private-host");
+  });
+
+  it.each([
+    "http://8.8.8.8/",
+    "https://1.1.1.1/dns-query",
+    "http://172.32.0.1/",
+    "http://100.128.0.1/",
+    "http://[2001:4860:4860::8888]/",
+    "http://[::ffff:808:808]/",
+  ])("allows the public address %s", async (url) => {
+    expect(await ruleFor(url)).toBeNull();
+  });
+
+  it("allows private hosts when configured to", async () => {
+    const permissive = policyWith({ URL_POLICY_ALLOW_PRIVATE_HOSTS: "true" });
+    expect(await permissive.check("http://127.0.0.1/")).toBeNull();
+  });
+});
+
+describe("UrlPolicy URLs and lists", () => {
+  it("rejects unparseable URLs and other protocols", async () => {
+    expect(await ruleFor("not a url")).toBe("invalid-url");
+    expect(await ruleFor("file:///etc/passwd")).toBe("invalid-url");
+    expect(await ruleFor("ftp://8.8.8.8/")).toBe("invalid-url");
+  });
+
+  it("applies deny globs before allow globs", async () => {
+    const lists = policyWith({
+      URL_POLICY_ALLOW: "8.8.*",
+      URL_POLICY_DENY: "8.8.4.4, 8.8.8.8/private/*",
+    });
+    expect((await lists.check("http://8.8.4.4/"))?.rule).toBe("denylist");
+    expect((await lists.check("http://8.8.8.8/private/a"))?.rule).toBe("denylist");
+    expect(await lists.check("http://8.8.8.8/public")).toBeNull();
+    expect((await lists.check("http://1.1.1.1/"))?.rule).toBe("not-allowlisted");
+  });
+});
@@ -0,0 +1,319 @@
+import { lookup } from "node:dns/promises";
+import { readFile } from "node:fs/promises";
+import { isIP } from "node:net";
+
+export type UrlPolicyRule =
+  | "invalid-url"
+  | "private-host"
+  | "denylist"
+  | "not-allowlisted"
+  | "robots"
+  | "policy-file";
+
+/**
+ * Why the URL policy blocked a URL. Tools return it as `policy` alongside a
+ * `content` message for the model.
+ */
+export type PolicyDenial = {
+  state: "policy-denied";
+  url: string;
+  rule: UrlPolicyRule;
+  reason: string;
+};
+
+export type UrlPolicyConfig = {
+  /** Globs a URL must match when non-empty, e.g. `*.example.com` or `example.com/docs/*` */
+  allow: string[];
+  /** Globs that are always blocked; they win over the allow list */
+  deny: string[];
+  /** JSON file with extra `allow` and `deny` lists */
+  file?: string;
+  /** Block localhost, private, loopback and link-local hosts */
+  blockPrivateHosts: boolean;
+  /** Honour robots.txt for `robotsUserAgent` */
+  checkRobots: boolean;
+  robotsUserAgent: string;
+};
+
+/**
+ * Reads the URL policy from environment configuration:
+ * - URL_POLICY_ALLOW: comma-separated globs; empty means every public host is allowed
+ * - URL_POLICY_DENY: comma-separated globs that are always blocked
+ * - URL_POLICY_FILE: path to a JSON file with `allow` and `deny` arrays
+ * - URL_POLICY_ALLOW_PRIVATE_HOSTS: set to "true" to allow private and loopback hosts
+ * - URL_POLICY_ROBOTS: set to "true" to check robots.txt before fetching
+ * - URL_POLICY_USER_AGENT: user agent matched against robots.txt groups (default FirecrawlAgent)
+ *
+ * Globs without a slash match the host; globs with one match host and path.
+ * `*` matches any run of characters.
+ */
+export function createUrlPolicy(env: NodeJS.ProcessEnv = process.env) {
+  return new UrlPolicy({
+    allow: splitList(env.URL_POLICY_ALLOW),
+    deny: splitList(env.URL_POLICY_DENY),
+    file: env.URL_POLICY_FILE || undefined,
+    blockPrivateHosts: env.URL_POLICY_ALLOW_PRIVATE_HOSTS !== "true",
+    checkRobots: env.URL_POLICY_ROBOTS === "true",
+    robotsUserAgent: env.URL_POLICY_USER_AGENT || "FirecrawlAgent",
+  });
+}
+
+const ROBOTS_TIMEOUT_MS = 5000;
+const ROBOTS_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Decides whether a Firecrawl-backed tool may fetch a URL.
+ */
+export class UrlPolicy {
+  private lists?: Promise<{ allow: string[]; deny: string[] }>;
+  private robots = new Map<string, { rules: Promise<RobotsRule[]>; expiresAt: number }>();
+
+  constructor(private config: UrlPolicyConfig) {}
+
+  /**
+   * Returns why the URL may not be fetched, or null if it can be.
+   */
+  async check(url: string): Promise<PolicyDenial | null> {
+    const deny = (rule: UrlPolicyRule, reason: string): PolicyDenial => ({
+      state: "policy-denied",
+      url,
+      rule,
+      reason,
+    });
+
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return deny("invalid-url", "The URL could not be parsed.");
+    }
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      return deny("invalid-url", `Only http and https URLs can be fetched, not ${parsed.protocol}`);
+    }
+
+    const host = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+    if (this.config.blockPrivateHosts && (await isPrivateHost(host))) {
+      return deny("private-host", `${host} is a private, loopback or link-local address.`);
+    }
+
+    let lists: { allow: string[]; deny: string[] };
+    try {
+      lists = await this.loadLists();
+    } catch (error) {
+      // Fail closed: a broken policy file must not silently allow everything
+      const message = error instanceof Error ? error.message : String(error);
+      return deny("policy-file", `The URL policy file could not be read: ${message}`);
+    }
+
+    const target = `${host}${parsed.pathname}`;
+    const denied = lists.deny.find((pattern) => matchesGlob(pattern, host, target));
+    if (denied) {
+      return deny("denylist", `${host} matches the blocked pattern "${denied}".`);
+    }
+    if (lists.allow.length && !lists.allow.some((pattern) => matchesGlob(pattern, host, target))) {
+      return deny("not-allowlisted", `${host} is not on the allowed URL list.`);
+    }
+
+    if (this.config.checkRobots) {
+      const rules = await this.robotsRules(parsed.origin);
+      const path = `${parsed.pathname}${parsed.search}`;
+      if (!isAllowedByRobots(rules, path)) {
+        return deny("robots", `robots.txt on ${parsed.host} disallows ${path}.`);
+      }
+    }
+
+    return null;
+  }
+
+  private loadLists() {
+    this.lists ??= (async () => {
+      const { allow, deny, file } = this.config;
+      if (!file) return { allow, deny };
+
+      const parsed = JSON.parse(await readFile(file, "utf8")) as {
+        allow?: unknown;
+        deny?: unknown;
+      };
+      return {
+        allow: [...allow, ...stringArray(parsed.allow)],
+        deny: [...deny, ...stringArray(parsed.deny)],
+      };
+    })();
+    // Retry on the next check so fixing the file doesn't need a restart
+    this.lists.catch(() => {
+      this.lists = undefined;
+    });
+    return this.lists;
+  }
+
+  private robotsRules(origin: string) {
+    const cached = this.robots.get(origin);
+    if (cached && cached.expiresAt > Date.now()) return cached.rules;
+
+    const rules = fetchRobots(origin, this.config.robotsUserAgent);
+    this.robots.set(origin, { rules, expiresAt: Date.now() + ROBOTS_TTL_MS });
+    return rules;
+  }
+}
+
+function matchesGlob(pattern: string, host: string, target: string) {
+  const glob = pattern.trim().toLowerCase().replace(/^https?:\/\//, "");
+  const regex = new RegExp(
+    `^${glob.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*")}$`,
+  );
+  return glob.includes("/") ? regex.test(target) : regex.test(host);
+}
+
+/**
+ * True for localhost names and for hosts that are, or resolve to, private,
+ * loopback, link-local or otherwise non-public addresses.
+ */
+async function isPrivateHost(host: string) {
+  if (
+    host === "localhost" ||
+    host.endsWith(".localhost") ||
+    host.endsWith(".local") ||
+    host.endsWith(".internal")
+  ) {
+    return true;
+  }
+
+  if (isIP(host)) return isPrivateAddress(host);
+
+  try {
+    const addresses = await lookup(host, { all: true });
+    return addresses.some(({ address }) => isPrivateAddress(address));
+  } catch {
+    // Unresolvable hosts can't reach anything internal; let Firecrawl report the error
+    return false;
+  }
+}
+
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) {
+    const [a, b] = address.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224
+    );
+  }
+
+  const ip = address.toLowerCase();
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  // URL parsing rewrites mapped IPv4 addresses as hex, e.g. ::ffff:7f00:1
+  const mappedHex = ip.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const [high, low] = mappedHex.slice(1).map((part) => parseInt(part, 16));
+    return isPrivateAddress(
+      [high >> 8, high & 255, low >> 8, low & 255].join("."),
+    );
+  }
+  return (
+    ip === "::" ||
+    ip === "::1" ||
+    /^f[cd]/.test(ip) ||
+    /^fe[89ab]/.test(ip) ||
+    /^ff/.test(ip)
+  );
+}
+
+type RobotsRule = { allow: boolean; path: string };
+
+/**
+ * Fetches robots.txt and returns the rules of the group that applies to the
+ * user agent. Missing or unreachable files allow everything. Redirects are
+ * not followed: the target could be a private host the policy never checked,
+ * so a redirected robots.txt counts as missing.
+ */
+async function fetchRobots(origin: string, userAgent: string): Promise<RobotsRule[]> {
+  try {
+    const response = await fetch(`${origin}/robots.txt`, {
+      signal: AbortSignal.timeout(ROBOTS_TIMEOUT_MS),
+      headers: { "user-agent": userAgent },
+      redirect: "manual",
+    });
+    if (!response.ok) return [];
+    return parseRobots(await response.text(), userAgent);
+  } catch {
+    return [];
+  }
+}
+
+function parseRobots(text: string, userAgent: string): RobotsRule[] {
+  const groups: { agents: string[]; rules: RobotsRule[] }[] = [];
+  let current: { agents: string[]; rules: RobotsRule[] } | undefined;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator < 0) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "user-agent") {
+      // Consecutive user-agent lines share one group
+      if (!current || current.rules.length) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+    } else if ((field === "allow" || field === "disallow") && current) {
+      if (value) current.rules.push({ allow: field === "allow", path: value });
+    }
+  }
+
+  const agent = userAgent.toLowerCase();
+  const specific = groups.filter((group) =>
+    group.agents.some((name) => name !== "*" && agent.includes(name)),
+  );
+  const matched = specific.length
+    ? specific
+    : groups.filter((group) => group.agents.includes("*"));
+  return matched.flatMap((group) => group.rules);
+}
+
+/**
+ * Applies the longest matching rule; Allow wins ties, as in RFC 9309.
+ */
+function isAllowedByRobots(rules: RobotsRule[], path: string) {
+  let best: RobotsRule | undefined;
+  for (const rule of rules) {
+    if (!robotsPattern(rule.path).test(path)) continue;
+    if (
+      !best ||
+      rule.path.length > best.path.length ||
+      (rule.path.length === best.path.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+  return best?.allow ?? true;
+}
+
+function robotsPattern(path: string) {
+  const anchored = path.endsWith("$");
+  const body = (anchored ? path.slice(0, -1) : path)
+    .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+function splitList(value: string | undefined) {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function stringArray(value: unknown) {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string" && item.trim() !== "")
+    : [];
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+
+import { UsageTracker, type UsageLimits } from "@/lib/usage-limits";
+
+const limits: UsageLimits = {
+  requestsPerMinute: 3,
+  toolCallsPerConversation: 2,
+  toolCallsPerDay: 3,
+  dailyCreditBudget: 10,
+};
+
+describe("UsageTracker.takeRequest", () => {
+  it("allows requests up to the limit within a rolling minute", () => {
+    const tracker = new UsageTracker(limits);
+    const start = Date.UTC(2026, 0, 1, 12);
+    expect(tracker.takeRequest("user", start).ok).toBe(true);
+    expect(tracker.takeRequest("user", start + 10_000).ok).toBe(true);
+    expect(tracker.takeRequest("user", start + 20_000).ok).toBe(true);
+
+    const refused = tracker.takeRequest("user", start + 30_000);
+    expect(refused).toEqual({
+      ok: false,
+      retryAfterSeconds: 30,
+      reason: "Rate limit reached: 3 requests per minute.",
+    });
+
+    // The first request leaves the window after a minute
+    expect(tracker.takeRequest("user", start + 60_001).ok).toBe(true);
+    expect(tracker.takeRequest("user", start + 60_002).ok).toBe(false);
+  });
+
+  it("counts keys separately and accepts a per-call limit", () => {
+    const tracker = new UsageTracker(limits);
+    const now = Date.UTC(2026, 0, 1, 12);
+    expect(tracker.takeRequest("login:email:a@example.com", now, 1).ok).toBe(true);
+    expect(tracker.takeRequest("login:email:a@example.com", now, 1).ok).toBe(false);
+    expect(tracker.takeRequest("login:email:b@example.com", now, 1).ok).toBe(true);
+  });
+
+  it("doesn't limit when the limit is 0", () => {
+    const tracker = new UsageTracker({ ...limits, requestsPerMinute: 0 });
+    const now = Date.UTC(2026, 0, 1, 12);
+    for (let index = 0; index < 10; index += 1) {
+      expect(tracker.takeRequest("user", now).ok).toBe(true);
+    }
+  });
+});
+
+describe("UsageTracker.reserveToolCall", () => {
+  it("caps tool calls per conversation", () => {
+    const tracker = new UsageTracker(limits);
+    const now = new Date(Date.UTC(2026, 0, 1, 12));
+    expect(tracker.reserveToolCall("user", "chat-1", 0, now).ok).toBe(true);
+    expect(tracker.reserveToolCall("user", "chat-1", 0, now).ok).toBe(true);
+
+    const refused = tracker.reserveToolCall("user", "chat-1", 0, now);
+    expect(refused.ok).toBe(false);
+    if (!refused.ok) expect(refused.exhausted.limit).toBe("tool-calls");
+  });
+
+  it("caps tool calls per day across conversations and resets at UTC midnight", () => {
+    const tracker = new UsageTracker(limits);
+    const now = new Date(Date.UTC(2026, 0, 1, 23, 59));
+    for (const conversationId of ["chat-1", "chat-2", "chat-3"]) {
+      expect(tracker.reserveToolCall("user", conversationId, 0, now).ok).toBe(true);
+    }
+
+    const refused = tracker.reserveToolCall("user", "chat-4", 0, now);
+    expect(refused.ok).toBe(false);
+    if (!refused.ok) {
+      expect(refused.exhausted.resetsAt).toBe("2026-01-02T00:00:00.000Z");
+    }
+
+    const nextDay = new Date(Date.UTC(2026, 0, 2, 0, 1));
+    expect(tracker.reserveToolCall("user", "chat-4", 0, nextDay).ok).toBe(true);
+  });
+
+  it("refuses calls whose estimate overruns the credit budget and settles actual use", () => {
+    const tracker = new UsageTracker(limits);
+    const now = new Date(Date.UTC(2026, 0, 1, 12));
+
+    const first = tracker.reserveToolCall("user", undefined, 8, now);
+    expect(first.ok).toBe(true);
+    const refused = tracker.reserveToolCall("user", undefined, 5, now);
+    expect(refused.ok).toBe(false);
+    if (!refused.ok) expect(refused.exhausted.limit).toBe("credits");
+
+    // The call turned out to be cached, so its credits are returned
+    if (first.ok) first.settle(0);
+    expect(tracker.summary("user", undefined, now).credits.used).toBe(0);
+    expect(tracker.reserveToolCall("user", undefined, 5, now).ok).toBe(true);
+  });
+});
@@ -0,0 +1,354 @@
+export type UsageLimits = {
+  /** Chat requests per user per rolling minute; 0 disables the limit */
+  requestsPerMinute: number;
+  /** Tool calls per conversation; 0 disables the limit */
+  toolCallsPerConversation: number;
+  /**
+   * Tool calls per user per UTC day, across conversations; binds even when a
+   * client starts a new conversation to reset the per-conversation count.
+   * 0 disables the limit
+   */
+  toolCallsPerDay: number;
+  /** Firecrawl credits per user per UTC day; 0 disables the limit */
+  dailyCreditBudget: number;
+};
+
+/**
+ * Reads usage limits from environment configuration:
+ * - RATE_LIMIT_REQUESTS_PER_MINUTE: chat requests per user per minute (default 20)
+ * - RATE_LIMIT_TOOL_CALLS_PER_CONVERSATION: tool calls per conversation (default 50)
+ * - RATE_LIMIT_TOOL_CALLS_PER_DAY: tool calls per user per UTC day (default 500)
+ * - FIRECRAWL_DAILY_CREDIT_BUDGET: Firecrawl credits per user per UTC day (default 500)
+ *
+ * Set any of them to 0 to turn that limit off.
+ */
+export function createUsageLimits(
+  env: NodeJS.ProcessEnv = process.env,
+): UsageLimits {
+  return {
+    requestsPerMinute: nonNegativeInt(env.RATE_LIMIT_REQUESTS_PER_MINUTE, 20),
+    toolCallsPerConversation: nonNegativeInt(
+      env.RATE_LIMIT_TOOL_CALLS_PER_CONVERSATION,
+      50,
+    ),
+    toolCallsPerDay: nonNegativeInt(env.RATE_LIMIT_TOOL_CALLS_PER_DAY, 500),
+    dailyCreditBudget: nonNegativeInt(env.FIRECRAWL_DAILY_CREDIT_BUDGET, 500),
+  };
+}
+
+/**
+ * Why a tool refused to run. Tools return it as `budget` alongside a
+ * `content` message for the model.
+ */
+export type BudgetExhausted = {
+  state: "budget-exhausted";
+  limit: "tool-calls" | "credits";
+  reason: string;
+  /** When the exhausted budget refills, if it does */
+  resetsAt?: string;
+};
+
+/**
+ * Remaining usage for a user, shown under the prompt. Limits of 0 are off.
+ */
+export type UsageSummary = {
+  requests: { limit: number; remaining: number };
+  toolCalls: { limit: number; used: number; remaining: number };
+  credits: { limit: number; used: number; remaining: number; resetsAt: string };
+};
+
+export type RateLimitResult =
+  | { ok: true }
+  | { ok: false; retryAfterSeconds: number; reason: string };
+
+const WINDOW_MS = 60_000;
+
+/**
+ * Counts requests, tool calls and Firecrawl credits per user.
+ *
+ * Counters live in process memory, so limits apply per server instance and
+ * reset on restart.
+ */
+export class UsageTracker {
+  private requests = new Map<string, number[]>();
+  private toolCalls = new Map<string, number>();
+  private dailyToolCalls = new Map<string, { day: string; used: number }>();
+  private credits = new Map<string, { day: string; used: number }>();
+  private lastSweep = 0;
+
+  constructor(private limits: UsageLimits) {}
+
+  /**
+   * Records a chat request, or reports how long to wait when the user is
+   * over its per-minute limit. Other endpoints pass their own key (e.g. an IP
+   * address) and per-minute limit.
+   */
+  takeRequest(
+    userId: string,
+    now = Date.now(),
+    limit = this.limits.requestsPerMinute,
+  ): RateLimitResult {
+    this.sweep(now);
+    const recent = this.recentRequests(userId, now);
+
+    if (limit && recent.length >= limit) {
+      this.requests.set(userId, recent);
+      const retryAfterMs = recent[0] + WINDOW_MS - now;
+      return {
+        ok: false,
+        retryAfterSeconds: Math.max(1, Math.ceil(retryAfterMs / 1000)),
+        reason: `Rate limit reached: ${limit} requests per minute.`,
+      };
+    }
+
+    recent.push(now);
+    this.requests.set(userId, recent);
+    return { ok: true };
+  }
+
+  /**
+   * Reserves one tool call and its estimated credits. Returns why the call
+   * can't run, or a `settle` callback to book the credits it actually used.
+   */
+  reserveToolCall(
+    userId: string,
+    conversationId: string | undefined,
+    estimatedCredits: number,
+    now = new Date(),
+  ):
+    | { ok: false; exhausted: BudgetExhausted }
+    | { ok: true; settle: (actualCredits: number) => void } {
+    const conversationKey = conversationId ? `${userId}:${conversationId}` : undefined;
+    const calls = conversationKey ? (this.toolCalls.get(conversationKey) ?? 0) : 0;
+    const callLimit = this.limits.toolCallsPerConversation;
+
+    if (conversationKey && callLimit && calls >= callLimit) {
+      return {
+        ok: false,
+        exhausted: {
+          state: "budget-exhausted",
+          limit: "tool-calls",
+          reason: `This conversation has used all ${callLimit} of its tool calls. Start a new chat to keep researching.`,
+        },
+      };
+    }
+
+    const dailyCalls = this.dailyUsage(this.dailyToolCalls, userId, now);
+    const dailyCallLimit = this.limits.toolCallsPerDay;
+    if (dailyCallLimit && dailyCalls.used >= dailyCallLimit) {
+      return {
+        ok: false,
+        exhausted: {
+          state: "budget-exhausted",
+          limit: "tool-calls",
+          reason: `You have used all ${dailyCallLimit} of today's tool calls.`,
+          resetsAt: nextUtcMidnight(now).toISOString(),
+        },
+      };
+    }
+
+    const credits = this.creditUsage(userId, now);
+    const budget = this.limits.dailyCreditBudget;
+    if (budget && credits.used + estimatedCredits > budget) {
+      return {
+        ok: false,
+        exhausted: {
+          state: "budget-exhausted",
+          limit: "credits",
+          reason: `This call needs about ${estimatedCredits} Firecrawl credits but only ${Math.max(0, budget - credits.used)} of today's ${budget} are left.`,
+          resetsAt: nextUtcMidnight(now).toISOString(),
+        },
+      };
+    }
+
+    if (conversationKey) this.toolCalls.set(conversationKey, calls + 1);
+    dailyCalls.used += 1;
+    credits.used += estimatedCredits;
+
+    let settled = false;
+    return {
+      ok: true,
+      settle: (actualCredits) => {
+        if (settled) return;
+        settled = true;
+        credits.used = Math.max(0, credits.used - estimatedCredits + actualCredits);
+      },
+    };
+  }
+
+  summary(
+    userId: string,
+    conversationId: string | undefined,
+    now = new Date(),
+  ): UsageSummary {
+    const { requestsPerMinute, toolCallsPerConversation, dailyCreditBudget } =
+      this.limits;
+    const requests = this.recentRequests(userId, now.getTime()).length;
+    const calls = conversationId
+      ? (this.toolCalls.get(`${userId}:${conversationId}`) ?? 0)
+      : 0;
+    const credits = this.creditUsage(userId, now).used;
+
+    return {
+      requests: {
+        limit: requestsPerMinute,
+        remaining: Math.max(0, requestsPerMinute - requests),
+      },
+      toolCalls: {
+        limit: toolCallsPerConversation,
+        used: calls,
+        remaining: Math.max(0, toolCallsPerConversation - calls),
+      },
+      credits: {
+        limit: dailyCreditBudget,
+        used: credits,
+        remaining: Math.max(0, dailyCreditBudget - credits),
+        resetsAt: nextUtcMidnight(now).toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Drops request windows with no timestamps left and daily counters from
+   * earlier days, at most once a minute, so keys that are never seen again
+   * (one-off IPs and emails) don't pile up.
+   */
+  private sweep(now: number) {
+    if (now - this.lastSweep < WINDOW_MS) return;
+    this.lastSweep = now;
+
+    for (const [key, timestamps] of this.requests) {
+      if (!timestamps.some((timestamp) => timestamp > now - WINDOW_MS)) {
+        this.requests.delete(key);
+      }
+    }
+    const day = new Date(now).toISOString().slice(0, 10);
+    for (const counters of [this.dailyToolCalls, this.credits]) {
+      for (const [key, usage] of counters) {
+        if (usage.day !== day) counters.delete(key);
+      }
+    }
+  }
+
+  private recentRequests(userId: string, now: number) {
+    return (this.requests.get(userId) ?? []).filter(
+      (timestamp) => timestamp > now - WINDOW_MS,
+    );
+  }
+
+  private creditUsage(userId: string, now: Date) {
+    return this.dailyUsage(this.credits, userId, now);
+  }
+
+  /** Today's counter in a per-user daily map, reset at UTC midnight */
+  private dailyUsage(
+    counters: Map<string, { day: string; used: number }>,
+    userId: string,
+    now: Date,
+  ) {
+    const day = now.toISOString().slice(0, 10);
+    let usage = counters.get(userId);
+    if (!usage || usage.day !== day) {
+      usage = { day, used: 0 };
+      counters.set(userId, usage);
+    }
+    return usage;
+  }
+}
+
+/**
+ * Approximate Firecrawl credits a tool call will spend, used to refuse calls
+ * that would overrun the budget before they start.
+ */
+export function estimateToolCredits(toolName: string, input: unknown) {
+  const args = (input ?? {}) as { limit?: unknown; urls?: unknown };
+  const limit = typeof args.limit === "number" ? args.limit : undefined;
+
+  switch (toolName) {
+    case "scrapeWebsite":
+    case "mapWebsite":
+    case "watchWebsite":
+      return 1;
+    case "searchWeb":
+      // Every result is scraped for markdown
+      return limit ?? 5;
+    case "crawlWebsite":
+      return limit ?? 10;
+    case "batchScrape":
+      return Array.isArray(args.urls) ? args.urls.length : 1;
+    case "extractStructuredData":
+      return JSON_EXTRACTION_CREDITS * (Array.isArray(args.urls) ? args.urls.length : 1);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Firecrawl credits a finished tool call spent. Cached, refused and failed
+ * calls are free.
+ */
+export function toolCreditsUsed(toolName: string, output: unknown) {
+  if (typeof output !== "object" || output === null) return 0;
+  const value = output as {
+    cached?: boolean;
+    error?: unknown;
+    policy?: unknown;
+    budget?: unknown;
+    results?: unknown[];
+    pages?: unknown[];
+    rows?: { cached?: boolean; error?: unknown }[];
+    batch?: { status?: string; cached?: boolean }[];
+    content?: unknown;
+    check?: unknown;
+  };
+  if (value.cached || value.error || value.policy || value.budget) return 0;
+
+  switch (toolName) {
+    case "scrapeWebsite":
+      return typeof value.content === "string" &&
+        !value.content.startsWith("Scrape error:")
+        ? 1
+        : 0;
+    case "mapWebsite":
+      return 1;
+    case "watchWebsite":
+      // The baseline check scrapes once unless it failed
+      return value.check && value.check !== "error" ? 1 : 0;
+    case "searchWeb":
+      return value.results?.length ?? 0;
+    case "crawlWebsite":
+      return value.pages?.length ?? 0;
+    case "batchScrape":
+      return (value.batch ?? []).filter((row) => row.status === "done" && !row.cached)
+        .length;
+    case "extractStructuredData":
+      return (
+        JSON_EXTRACTION_CREDITS *
+        (value.rows ?? []).filter((row) => !row.cached && !row.error).length
+      );
+    default:
+      return 0;
+  }
+}
+
+/** Credits Firecrawl charges per page scraped with the JSON format */
+const JSON_EXTRACTION_CREDITS = 5;
+
+function nextUtcMidnight(now: Date) {
+  return new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1),
+  );
+}
+
+function nonNegativeInt(value: string | undefined, fallback: number) {
+  if (value === undefined || value === "") return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+// Route handlers can be bundled separately, so share one tracker per process
+const globalForUsage = globalThis as { usageTracker?: UsageTracker };
+
+export const usageTracker =
+  globalForUsage.usageTracker ??
+  (globalForUsage.usageTracker = new UsageTracker(createUsageLimits()));
@@ -0,0 +1,245 @@
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { promisify } from "node:util";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+) => Promise<Buffer>;
+
+/**
+ * Preferences saved per user instead of per browser.
+ */
+export type UserSettings = {
+  model?: string;
+  theme?: "light" | "dark";
+};
+
+export type User = {
+  id: string;
+  email: string;
+  name?: string;
+  /** scrypt hash; missing for users who only sign in by magic link */
+  passwordHash?: string;
+  createdAt: string;
+  settings: UserSettings;
+};
+
+/** What the client gets to see of a user */
+export type PublicUser = Pick<User, "id" | "email" | "name">;
+
+/**
+ * A team whose members can read the conversations shared with it.
+ */
+export type Workspace = {
+  id: string;
+  name: string;
+  ownerId: string;
+  memberIds: string[];
+  createdAt: string;
+};
+
+/**
+ * Persistence backend for users and workspaces.
+ */
+export interface UserStore {
+  listUsers(): Promise<User[]>;
+  getUser(id: string): Promise<User | null>;
+  getUserByEmail(email: string): Promise<User | null>;
+  saveUser(user: User): Promise<void>;
+  /**
+   * Applies `change` to the stored user in one serialized write, so
+   * concurrent edits don't overwrite each other; null if the user is gone
+   */
+  updateUser(id: string, change: (user: User) => User): Promise<User | null>;
+  /**
+   * Adds a user unless one with the same email exists, checking and inserting
+   * in one serialized write. `first` is true for the first account created.
+   */
+  createUser(user: User): Promise<{ user: User; created: boolean; first: boolean }>;
+  listWorkspaces(userId: string): Promise<Workspace[]>;
+  getWorkspace(id: string): Promise<Workspace | null>;
+  saveWorkspace(workspace: Workspace): Promise<void>;
+  /** Adds a member in one serialized write; null if the workspace is gone */
+  addWorkspaceMember(id: string, userId: string): Promise<Workspace | null>;
+  /** Removes a member in one serialized write; null if the workspace is gone */
+  removeWorkspaceMember(id: string, userId: string): Promise<Workspace | null>;
+}
+
+type UserStoreData = {
+  users: User[];
+  workspaces: Workspace[];
+};
+
+/**
+ * Keeps every user and workspace in a single `users.json` file in a
+ * directory. Writes are serialized so concurrent sign-ups don't clobber each
+ * other.
+ */
+export class JsonUserStore implements UserStore {
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(private directory: string) {}
+
+  async listUsers() {
+    return (await this.read()).users;
+  }
+
+  async getUser(id: string) {
+    return (await this.read()).users.find((user) => user.id === id) ?? null;
+  }
+
+  async getUserByEmail(email: string) {
+    const wanted = normalizeEmail(email);
+    return (await this.read()).users.find((user) => user.email === wanted) ?? null;
+  }
+
+  async saveUser(user: User) {
+    await this.update((data) => ({
+      ...data,
+      users: upsert(data.users, { ...user, email: normalizeEmail(user.email) }),
+    }));
+  }
+
+  async updateUser(id: string, change: (user: User) => User) {
+    let updated: User | null = null;
+    await this.update((data) => {
+      const current = data.users.find((user) => user.id === id);
+      if (!current) return data;
+      updated = { ...change(current), email: current.email };
+      return { ...data, users: upsert(data.users, updated) };
+    });
+    return updated as User | null;
+  }
+
+  async createUser(user: User) {
+    const email = normalizeEmail(user.email);
+    let result = { user, created: false, first: false };
+    await this.update((data) => {
+      const existing = data.users.find((item) => item.email === email);
+      if (existing) {
+        result = { user: existing, created: false, first: false };
+        return data;
+      }
+      const created = { ...user, email };
+      result = { user: created, created: true, first: data.users.length === 0 };
+      return { ...data, users: [...data.users, created] };
+    });
+    return result;
+  }
+
+  async listWorkspaces(userId: string) {
+    return (await this.read()).workspaces.filter((workspace) =>
+      workspace.memberIds.includes(userId),
+    );
+  }
+
+  async getWorkspace(id: string) {
+    return (await this.read()).workspaces.find((workspace) => workspace.id === id) ?? null;
+  }
+
+  async saveWorkspace(workspace: Workspace) {
+    await this.update((data) => ({
+      ...data,
+      workspaces: upsert(data.workspaces, workspace),
+    }));
+  }
+
+  addWorkspaceMember(id: string, userId: string) {
+    return this.updateWorkspace(id, (workspace) =>
+      workspace.memberIds.includes(userId)
+        ? workspace
+        : { ...workspace, memberIds: [...workspace.memberIds, userId] },
+    );
+  }
+
+  removeWorkspaceMember(id: string, userId: string) {
+    return this.updateWorkspace(id, (workspace) => ({
+      ...workspace,
+      memberIds: workspace.memberIds.filter((member) => member !== userId),
+    }));
+  }
+
+  private async updateWorkspace(id: string, change: (workspace: Workspace) => Workspace) {
+    let updated: Workspace | null = null;
+    await this.update((data) => {
+      const current = data.workspaces.find((workspace) => workspace.id === id);
+      if (!current) return data;
+      updated = change(current);
+      return { ...data, workspaces: upsert(data.workspaces, updated) };
+    });
+    return updated as Workspace | null;
+  }
+
+  private async read(): Promise<UserStoreData> {
+    try {
+      const raw = await readFile(this.filePath(), "utf8");
+      const data = JSON.parse(raw) as Partial<UserStoreData>;
+      return { users: data.users ?? [], workspaces: data.workspaces ?? [] };
+    } catch {
+      return { users: [], workspaces: [] };
+    }
+  }
+
+  private update(change: (data: UserStoreData) => UserStoreData) {
+    const write = this.writes.then(async () => {
+      const next = change(await this.read());
+      await mkdir(this.directory, { recursive: true });
+      // Write to a temp file first so a crash never leaves half a user list
+      const temp = `${this.filePath()}.tmp`;
+      await writeFile(temp, JSON.stringify(next, null, 2), "utf8");
+      await rename(temp, this.filePath());
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  private filePath() {
+    return path.join(this.directory, "users.json");
+  }
+}
+
+/**
+ * Builds the store from USERS_DIR (default ".data/users").
+ */
+export function createUserStore(env: NodeJS.ProcessEnv = process.env) {
+  return new JsonUserStore(env.USERS_DIR ?? ".data/users");
+}
+
+export function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+export function isValidEmail(email: unknown): email is string {
+  return typeof email === "string" && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+}
+
+export function toPublicUser(user: User): PublicUser {
+  return { id: user.id, email: user.email, name: user.name };
+}
+
+/**
+ * Hashes a password as `scrypt:<salt>:<hash>`.
+ */
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt:${salt.toString("hex")}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string | undefined) {
+  const [scheme, salt, hash] = (stored ?? "").split(":");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, Buffer.from(salt, "hex"), expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+function upsert<T extends { id: string }>(items: T[], item: T) {
+  const index = items.findIndex((existing) => existing.id === item.id);
+  if (index < 0) return [...items, item];
+  return items.map((existing, position) => (position === index ? item : existing));
+}
@@ -0,0 +1,30 @@
+/**
+ * Route protection
+ *
+ * Requires a valid session cookie for the app and its API. API requests
+ * without one get a 401; pages redirect to /login. Route handlers still load
+ * the user themselves, so this is a first gate rather than the only check.
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+
+import { SESSION_COOKIE, verifySessionToken } from "@/lib/session";
+
+export function proxy(request: NextRequest) {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (verifySessionToken(token)) return NextResponse.next();
+
+  const { pathname, search } = request.nextUrl;
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json({ error: "Sign in required." }, { status: 401 });
+  }
+
+  const login = new URL("/login", request.url);
+  if (pathname !== "/") login.searchParams.set("next", `${pathname}${search}`);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  // Everything except the sign-in page, auth endpoints and static assets
+  matcher: ["/((?!login|api/auth|_next/static|_next/image|favicon.ico).*)"],
+};